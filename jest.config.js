@@ -0,0 +1,14 @@
+const nextJest = require("next/jest");
+
+// Compiles tests with Next's SWC setup, so they read tsconfig like the app
+const createJestConfig = nextJest({ dir: "./" });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: "node",
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+};
+
+module.exports = createJestConfig(config);
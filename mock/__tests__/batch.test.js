@@ -0,0 +1,185 @@
+jest.mock("../store", () => ({
+  readDb: jest.fn(),
+  writeDb: jest.fn(),
+  readActivityLog: jest.fn(() => []),
+  appendActivity: jest.fn(),
+}));
+
+const store = require("../store");
+const { handleTaskBatchRequest } = require("../batch");
+
+const EDITOR = { id: "u1", email: "editor@example.com" };
+const VIEWER = { id: "u2", email: "viewer@example.com" };
+
+const task = (id, overrides = {}) => ({
+  id,
+  userId: EDITOR.id,
+  boardId: "b1",
+  title: `Task ${id}`,
+  description: "",
+  status: "todo",
+  priority: "medium",
+  createdAt: "2026-10-01T09:00:00.000Z",
+  updatedAt: "2026-10-01T09:00:00.000Z",
+  ...overrides,
+});
+
+let db;
+let snapshot;
+
+beforeEach(() => {
+  // The handler narrates every batch
+  jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+  db = {
+    users: [],
+    boards: [
+      {
+        id: "b1",
+        name: "Board",
+        members: [
+          { userId: EDITOR.id, role: "editor" },
+          { userId: VIEWER.id, role: "viewer" },
+        ],
+      },
+    ],
+    tasks: [task("t1"), task("t2")],
+  };
+  snapshot = JSON.stringify(db);
+  store.readDb.mockImplementation(() => db);
+  store.writeDb.mockReset();
+  store.appendActivity.mockReset();
+});
+
+// Run a batch as `user`; resolves to the status and body it was answered with
+async function runBatch(user, operations) {
+  const reply = {};
+  const res = {
+    status(status) {
+      reply.status = status;
+      return this;
+    },
+    json(body) {
+      reply.body = body;
+      return this;
+    },
+  };
+  await handleTaskBatchRequest(
+    { method: "POST", url: "/tasks/batch", body: { operations }, user },
+    res
+  );
+  return reply;
+}
+
+// Nothing was stored, logged or changed in place
+function expectUntouched() {
+  expect(store.writeDb).not.toHaveBeenCalled();
+  expect(store.appendActivity).not.toHaveBeenCalled();
+  expect(JSON.stringify(db)).toBe(snapshot);
+}
+
+describe("POST /tasks/batch", () => {
+  it("applies every operation and writes the database once", async () => {
+    const { status, body } = await runBatch(EDITOR, [
+      { type: "update", id: "t1", changes: { priority: "high" } },
+      { type: "delete", id: "t2" },
+      { type: "create", data: { title: "New", boardId: "b1" } },
+    ]);
+
+    expect(status).toBe(200);
+    expect(body.results.map((result) => result.success)).toEqual([
+      true,
+      true,
+      true,
+    ]);
+    expect(store.writeDb).toHaveBeenCalledTimes(1);
+
+    const written = store.writeDb.mock.calls[0][0];
+    expect(written.tasks.map((entry) => entry.id)).toEqual([
+      "t1",
+      body.results[2].id,
+    ]);
+    expect(written.tasks[0].priority).toBe("high");
+    expect(store.appendActivity).toHaveBeenCalledTimes(3);
+  });
+
+  it("refuses a viewer's batch as a whole", async () => {
+    const { status, body } = await runBatch(VIEWER, [
+      { type: "update", id: "t1", changes: { priority: "high" } },
+    ]);
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("FORBIDDEN");
+    expectUntouched();
+  });
+
+  it("answers 409 with the current task when an operation is stale", async () => {
+    const { status, body } = await runBatch(EDITOR, [
+      { type: "update", id: "t1", changes: { priority: "high" } },
+      {
+        type: "update",
+        id: "t2",
+        changes: { priority: "low" },
+        expectedUpdatedAt: "2026-09-01T00:00:00.000Z",
+      },
+    ]);
+
+    expect(status).toBe(409);
+    expect(body.current).toEqual(task("t2"));
+    expect(body.results.map((result) => result.error.code)).toEqual([
+      "BATCH_ABORTED",
+      "CONFLICT",
+    ]);
+    expectUntouched();
+  });
+
+  it("leaves the database alone when a later operation fails", async () => {
+    const { status, body } = await runBatch(EDITOR, [
+      { type: "delete", id: "t1" },
+      { type: "create", data: { title: "New", boardId: "b1" } },
+      { type: "update", id: "t2", changes: { status: "nowhere" } },
+    ]);
+
+    expect(status).toBe(400);
+    expect(body.message).toMatch(/^Operation 3 of 3: /);
+    expect(body.results.every((result) => !result.success)).toBe(true);
+    expectUntouched();
+  });
+
+  it("rejects a create whose id is already taken", async () => {
+    const taken = await runBatch(EDITOR, [
+      { type: "create", data: { id: "t1", title: "Copy", boardId: "b1" } },
+    ]);
+    expect(taken.status).toBe(409);
+
+    const twice = await runBatch(EDITOR, [
+      { type: "create", data: { id: "t3", title: "One", boardId: "b1" } },
+      { type: "create", data: { id: "t3", title: "Two", boardId: "b1" } },
+    ]);
+    expect(twice.status).toBe(409);
+    expectUntouched();
+  });
+
+  it("gives every created task its own id", async () => {
+    const { body } = await runBatch(
+      EDITOR,
+      Array.from({ length: 50 }, (_, index) => ({
+        type: "create",
+        data: { title: `Task ${index}`, boardId: "b1" },
+      }))
+    );
+
+    const ids = body.results.map((result) => result.id);
+    expect(new Set(ids).size).toBe(50);
+    expect(ids).not.toContain("t1");
+  });
+
+  it("treats deleting a task that's already gone as done", async () => {
+    const { status, body } = await runBatch(EDITOR, [
+      { type: "delete", id: "missing" },
+    ]);
+
+    expect(status).toBe(200);
+    expect(body.results).toEqual([{ id: "missing", success: true }]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Task activity log for the mock API
+ * Every task write that succeeds is recorded with who made it, when and the
+ * fields it changed. Members of a board can read its log; nobody can change
+ * it over HTTP.
+ */
+
+const { readDb, readActivityLog, appendActivity } = require("./store");
+const { sendError } = require("./http");
+const { findBoard, getBoardRole } = require("./boards");
+
+const ACTIVITY_ACTIONS = ["create", "update", "move", "delete", "restore"];
+const DEFAULT_LIMIT = 200;
+
+// Bookkeeping fields that change on their own or can't be edited
+const UNTRACKED_FIELDS = [
+  "id",
+  "userId",
+  "boardId",
+  "createdAt",
+  "updatedAt",
+  "statusHistory",
+];
+
+const isSame = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+// Field-by-field differences between two versions of a task
+function diffTask(before, after) {
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+
+  return [...fields]
+    .filter((field) => !UNTRACKED_FIELDS.includes(field))
+    .filter((field) => !isSame(before?.[field], after?.[field]))
+    .sort()
+    .map((field) => ({
+      field,
+      from: before?.[field] ?? null,
+      to: after?.[field] ?? null,
+    }));
+}
+
+function getAction(method, before, after, restoring) {
+  if (method === "POST") return restoring ? "restore" : "create";
+  if (method === "DELETE") return "delete";
+  return before.status !== after.status ? "move" : "update";
+}
+
+// Log a task write that was stored. Restores are creates that bring back a
+// deleted task with its id.
+function logTaskWrite(actorId, method, before, after, restoring = false) {
+  const task = after || before;
+  const action = getAction(method, before, after, restoring);
+  const changes = action === "delete" ? [] : diffTask(before, after);
+
+  // A save that changed nothing isn't worth an entry
+  if (changes.length > 0 || action !== "update") {
+    appendActivity({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      boardId: task.boardId || null,
+      taskId: task.id,
+      taskTitle: task.title,
+      actorId,
+      action,
+      at: new Date().toISOString(),
+      changes,
+    });
+  }
+}
+
+/**
+ * Record the outcome of an authorized /tasks write. The entry is written
+ * when json-server replies with the stored task, so rejected and failed
+ * requests never show up in the log.
+ */
+function trackTaskActivity(req, res) {
+  const match = req.url.split("?")[0].match(/^\/tasks(?:\/([^/]+))?\/?$/);
+  if (!match || !["POST", "PUT", "PATCH", "DELETE"].includes(req.method)) {
+    return;
+  }
+
+  const id = match[1] && decodeURIComponent(match[1]);
+  const before = id
+    ? (readDb().tasks || []).find((task) => task.id === id) || null
+    : null;
+  // Undo restores post the deleted task back with its id
+  const restoring = req.method === "POST" && !!(req.body && req.body.id);
+  const json = res.json.bind(res);
+
+  res.json = (data) => {
+    if (res.statusCode < 300 && data && typeof data === "object") {
+      const after = req.method === "DELETE" ? null : data;
+      logTaskWrite(req.user.id, req.method, before, after, restoring);
+    }
+    return json(data);
+  };
+}
+
+/**
+ * Answer GET /activity?boardId=… for members of the board, newest first.
+ * Optional taskId, actorId and action narrow the feed. Returns false when
+ * the request isn't for the activity log.
+ */
+function handleActivityRequest(req, res) {
+  const [pathname, search = ""] = req.url.split("?");
+  if (!/^\/activity\/?/.test(pathname)) return false;
+
+  if (req.method !== "GET") {
+    sendError(res, 403, "FORBIDDEN", "The activity log is read-only");
+    return true;
+  }
+
+  const params = new URLSearchParams(search);
+  const board = findBoard(readDb(), params.get("boardId") || "");
+
+  if (!board) {
+    sendError(res, 400, "VALIDATION_ERROR", "A valid boardId is required");
+    return true;
+  }
+  if (!getBoardRole(board, req.user.id)) {
+    sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+    return true;
+  }
+
+  const action = params.get("action");
+  if (action && !ACTIVITY_ACTIONS.includes(action)) {
+    sendError(res, 400, "VALIDATION_ERROR", "Unknown activity action");
+    return true;
+  }
+
+  const taskId = params.get("taskId");
+  const actorId = params.get("actorId");
+  const limit = parseInt(params.get("limit") || "", 10) || DEFAULT_LIMIT;
+
+  const entries = readActivityLog()
+    .filter((entry) => entry.boardId === board.id)
+    .filter((entry) => !taskId || entry.taskId === taskId)
+    .filter((entry) => !actorId || entry.actorId === actorId)
+    .filter((entry) => !action || entry.action === action)
+    .sort((a, b) => Date.parse(b.at) - Date.parse(a.at))
+    .slice(0, limit);
+
+  res.status(200).json(entries);
+  return true;
+}
+
+module.exports = { trackTaskActivity, handleActivityRequest, logTaskWrite };
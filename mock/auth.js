@@ -0,0 +1,311 @@
+/**
+ * Local auth service for the mock API
+ * Passwords are hashed with scrypt, access tokens are HS256-signed JWTs and
+ * refresh tokens are opaque, stored hashed and rotated on every use.
+ */
+
+const crypto = require("crypto");
+const { readDb, writeDb, readAuthStore, writeAuthStore } = require("./store");
+const { sendError, readJsonBody } = require("./http");
+const { createPersonalBoard } = require("./boards");
+
+const JWT_SECRET = process.env.JWT_SECRET || "sprint-board-lite-dev-secret";
+const ACCESS_TOKEN_TTL = 15 * 60; // seconds
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // seconds
+const MIN_PASSWORD_LENGTH = 6;
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+// Passwords
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = (stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// JWTs
+const encodeSegment = (value) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const signSegments = (data) =>
+  crypto.createHmac("sha256", JWT_SECRET).update(data).digest("base64url");
+
+function signToken(payload, ttl) {
+  const issuedAt = nowInSeconds();
+  const header = encodeSegment({ alg: "HS256", typ: "JWT" });
+  const body = encodeSegment({
+    ...payload,
+    iat: issuedAt,
+    exp: issuedAt + ttl,
+  });
+  return `${header}.${body}.${signSegments(`${header}.${body}`)}`;
+}
+
+/**
+ * Verify an access token.
+ * Returns { payload } when valid, otherwise { code } with TOKEN_EXPIRED or
+ * INVALID_TOKEN so clients know whether a refresh is worth trying.
+ */
+function verifyToken(token) {
+  const [header, body, signature] = (token || "").split(".");
+  if (!header || !body || !signature) return { code: "INVALID_TOKEN" };
+
+  const expected = Buffer.from(signSegments(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return { code: "INVALID_TOKEN" };
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf-8"));
+  } catch (error) {
+    return { code: "INVALID_TOKEN" };
+  }
+
+  if (typeof payload.exp !== "number" || payload.exp <= nowInSeconds()) {
+    return { code: "TOKEN_EXPIRED" };
+  }
+
+  return { payload };
+}
+
+// Refresh tokens
+const hashRefreshToken = (token) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+function issueSession(user, store) {
+  const refreshToken = crypto.randomBytes(32).toString("base64url");
+  const issuedAt = nowInSeconds();
+
+  store.refreshTokens = store.refreshTokens
+    .filter((record) => record.expiresAt > issuedAt)
+    .concat({
+      tokenHash: hashRefreshToken(refreshToken),
+      userId: user.id,
+      expiresAt: issuedAt + REFRESH_TOKEN_TTL,
+      revoked: false,
+    });
+  writeAuthStore(store);
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      fullName: user.fullName,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    },
+    token: signToken({ sub: user.id, email: user.email }, ACCESS_TOKEN_TTL),
+    refreshToken,
+    expiresAt: new Date((issuedAt + ACCESS_TOKEN_TTL) * 1000).toISOString(),
+  };
+}
+
+const findUserByEmail = (db, email) =>
+  (db.users || []).find(
+    (user) => user.email.toLowerCase() === String(email).toLowerCase()
+  );
+
+// Route handlers
+async function register(req, res) {
+  const { fullName, email, password } = await readJsonBody(req);
+
+  if (!fullName || !email || !password) {
+    return sendError(res, 400, "VALIDATION_ERROR", "All fields are required");
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return sendError(
+      res,
+      400,
+      "VALIDATION_ERROR",
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+    );
+  }
+
+  const db = readDb();
+  if (findUserByEmail(db, email)) {
+    return sendError(
+      res,
+      409,
+      "EMAIL_TAKEN",
+      "User with this email already exists"
+    );
+  }
+
+  const timestamp = new Date().toISOString();
+  const user = {
+    id: Date.now().toString(),
+    email,
+    fullName,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  db.users = [...(db.users || []), user];
+  db.boards = [...(db.boards || []), createPersonalBoard(user)];
+  writeDb(db);
+
+  const store = readAuthStore();
+  store.credentials.push({
+    userId: user.id,
+    passwordHash: hashPassword(password),
+  });
+
+  return res.status(201).json(issueSession(user, store));
+}
+
+async function login(req, res) {
+  const { email, password } = await readJsonBody(req);
+
+  if (!email || !password) {
+    return sendError(
+      res,
+      400,
+      "VALIDATION_ERROR",
+      "Email and password are required"
+    );
+  }
+
+  const user = findUserByEmail(readDb(), email);
+  const store = readAuthStore();
+  const credential =
+    user && store.credentials.find((entry) => entry.userId === user.id);
+
+  if (!credential || !verifyPassword(password, credential.passwordHash)) {
+    return sendError(
+      res,
+      401,
+      "INVALID_CREDENTIALS",
+      "Invalid email or password"
+    );
+  }
+
+  return res.json(issueSession(user, store));
+}
+
+async function refresh(req, res) {
+  const { refreshToken } = await readJsonBody(req);
+  const store = readAuthStore();
+  const tokenHash = hashRefreshToken(String(refreshToken || ""));
+  const record = store.refreshTokens.find(
+    (entry) => entry.tokenHash === tokenHash
+  );
+
+  if (!record || record.expiresAt <= nowInSeconds()) {
+    return sendError(
+      res,
+      401,
+      "INVALID_REFRESH_TOKEN",
+      "Session expired, please log in again"
+    );
+  }
+
+  // A rotated token being replayed means it leaked: end every session
+  if (record.revoked) {
+    store.refreshTokens = store.refreshTokens.filter(
+      (entry) => entry.userId !== record.userId
+    );
+    writeAuthStore(store);
+    return sendError(
+      res,
+      401,
+      "INVALID_REFRESH_TOKEN",
+      "Session expired, please log in again"
+    );
+  }
+
+  const user = (readDb().users || []).find(
+    (entry) => entry.id === record.userId
+  );
+  if (!user) {
+    return sendError(
+      res,
+      401,
+      "INVALID_REFRESH_TOKEN",
+      "User no longer exists"
+    );
+  }
+
+  record.revoked = true;
+  return res.json(issueSession(user, store));
+}
+
+async function logout(req, res) {
+  const { refreshToken } = await readJsonBody(req);
+  const store = readAuthStore();
+  const tokenHash = hashRefreshToken(String(refreshToken || ""));
+
+  store.refreshTokens = store.refreshTokens.filter(
+    (entry) => entry.tokenHash !== tokenHash
+  );
+  writeAuthStore(store);
+
+  return res.status(204).end();
+}
+
+const routes = {
+  "/auth/register": register,
+  "/auth/login": login,
+  "/auth/refresh": refresh,
+  "/auth/logout": logout,
+};
+
+/**
+ * Answer /auth/* requests. Returns false for any other path so the caller
+ * can carry on with the request.
+ */
+function handleAuthRoute(req, res) {
+  const pathname = req.url.split("?")[0];
+  if (!pathname.startsWith("/auth/")) return false;
+
+  const handler = routes[pathname];
+  if (!handler || req.method !== "POST") {
+    sendError(res, 404, "NOT_FOUND", "Unknown auth route");
+    return true;
+  }
+
+  handler(req, res).catch((error) => {
+    console.error("[Mock API] Auth error:", error);
+    sendError(res, 500, "AUTH_ERROR", "Authentication failed");
+  });
+  return true;
+}
+
+/**
+ * Require a valid bearer token. On success the token's user is attached as
+ * req.user; otherwise a 401 is sent and false is returned.
+ */
+function authenticate(req, res) {
+  const [scheme, token] = (req.headers.authorization || "").split(" ");
+  const result =
+    scheme === "Bearer" ? verifyToken(token) : { code: "UNAUTHORIZED" };
+
+  if (result.payload) {
+    req.user = { id: result.payload.sub, email: result.payload.email };
+    return true;
+  }
+
+  sendError(
+    res,
+    401,
+    result.code,
+    result.code === "TOKEN_EXPIRED"
+      ? "Access token expired"
+      : "Authentication required"
+  );
+  return false;
+}
+
+module.exports = { handleAuthRoute, authenticate };
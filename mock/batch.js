@@ -0,0 +1,189 @@
+/**
+ * Batch task writes for the mock API
+ * POST /tasks/batch takes { operations: [...] }, each one of
+ *   { type: "create", data }
+ *   { type: "update", id, changes, expectedUpdatedAt? }
+ *   { type: "delete", id, expectedUpdatedAt? }
+ * and applies all of them or none. Each is checked like its single-task
+ * request, against the tasks as the earlier operations left them, and
+ * db.json is written once at the end. The reply has one result per
+ * operation, in order - on failure too, so the client can tell which
+ * operation was refused and which were never applied because of it.
+ */
+
+const crypto = require("crypto");
+const { readDb, writeDb } = require("./store");
+const { sendError, readJsonBody } = require("./http");
+const { checkTaskCreate, checkTaskAccess } = require("./ownership");
+const { logTaskWrite } = require("./activity");
+
+const MAX_OPERATIONS = 200;
+const OPERATION_TYPES = ["create", "update", "delete"];
+
+const fail = (status, code, message, extra = {}) => ({
+  error: { status, code, message, ...extra },
+});
+
+// The task an operation is about, if it names one yet
+const operationId = (operation) =>
+  (operation && (operation.id || (operation.data && operation.data.id))) ||
+  null;
+
+function isTaskBatchRequest(req) {
+  return /^\/tasks\/batch\/?$/.test(req.url.split("?")[0]);
+}
+
+// An id no task has, counting those created earlier in the batch
+function newTaskId(tasks) {
+  let id = crypto.randomUUID();
+  while (tasks.some((task) => task.id === id)) id = crypto.randomUUID();
+  return id;
+}
+
+// A stored task has changed since the client last saw it
+function isStale(task, expectedUpdatedAt) {
+  return !!expectedUpdatedAt && task.updatedAt !== expectedUpdatedAt;
+}
+
+// Apply one operation to the working copy of the database. Returns the task
+// before and after, or the error that stops the batch.
+function applyOperation(operation, db, user, now) {
+  if (!operation || !OPERATION_TYPES.includes(operation.type)) {
+    return fail(400, "VALIDATION_ERROR", "Unknown batch operation");
+  }
+
+  if (operation.type === "create") {
+    const body = { ...(operation.data || {}) };
+    if (body.id && db.tasks.some((task) => task.id === body.id)) {
+      return fail(409, "CONFLICT", "A task with this id already exists");
+    }
+
+    const error = checkTaskCreate(body, user, db);
+    if (error) return { error };
+
+    const task = {
+      ...body,
+      id: body.id || newTaskId(db.tasks),
+      createdAt: body.createdAt || now,
+      updatedAt: body.updatedAt || now,
+    };
+    db.tasks.push(task);
+    return { id: task.id, before: null, after: task, restoring: !!body.id };
+  }
+
+  const index = db.tasks.findIndex((task) => task.id === operation.id);
+  const task = db.tasks[index];
+
+  // Deleting a task that's already gone leaves it where the client wanted
+  if (operation.type === "delete" && !task) {
+    return { id: operation.id, before: null, after: null };
+  }
+
+  const body =
+    operation.type === "update" ? { ...(operation.changes || {}) } : null;
+  const method = operation.type === "update" ? "PATCH" : "DELETE";
+  const error = checkTaskAccess(method, task, body, user, db);
+  if (error) return { error };
+
+  if (isStale(task, operation.expectedUpdatedAt)) {
+    return fail(409, "CONFLICT", "Task was modified by someone else", {
+      current: task,
+    });
+  }
+
+  if (operation.type === "delete") {
+    db.tasks.splice(index, 1);
+    return { id: task.id, before: task, after: null };
+  }
+
+  const updated = { ...task, ...body, id: task.id, updatedAt: now };
+  db.tasks[index] = updated;
+  return { id: task.id, before: task, after: updated };
+}
+
+/**
+ * Answer POST /tasks/batch. Access is checked per operation, so a batch
+ * fails as a whole if any task in it is out of the caller's reach.
+ */
+async function handleTaskBatchRequest(req, res) {
+  if (req.method !== "POST") {
+    sendError(res, 405, "METHOD_NOT_ALLOWED", "Send batches with POST");
+    return;
+  }
+
+  const { operations } = await readJsonBody(req);
+  if (
+    !Array.isArray(operations) ||
+    operations.length === 0 ||
+    operations.length > MAX_OPERATIONS
+  ) {
+    sendError(
+      res,
+      400,
+      "VALIDATION_ERROR",
+      `A batch needs between 1 and ${MAX_OPERATIONS} operations`
+    );
+    return;
+  }
+
+  const stored = readDb();
+  const db = { ...stored, tasks: [...(stored.tasks || [])] };
+  const now = new Date().toISOString();
+  const applied = [];
+
+  for (const [position, operation] of operations.entries()) {
+    const outcome = applyOperation(operation, db, req.user, now);
+
+    if (outcome.error) {
+      // Nothing is written; every other operation reports why
+      const { status, code, message, ...details } = outcome.error;
+      const aborted = {
+        status: 424,
+        code: "BATCH_ABORTED",
+        message: "Not applied because another operation in the batch failed",
+      };
+      console.log(
+        `[Mock API] Batch rejected at operation ${position + 1}: ${message}`
+      );
+      res.status(status).json({
+        error: code,
+        code,
+        message: `Operation ${position + 1} of ${
+          operations.length
+        }: ${message}`,
+        ...details,
+        results: operations.map((other, index) => ({
+          id: index < position ? applied[index].id : operationId(other),
+          success: false,
+          error:
+            index === position
+              ? { status, code, message, ...details }
+              : aborted,
+        })),
+        timestamp: now,
+      });
+      return;
+    }
+
+    applied.push(outcome);
+  }
+
+  writeDb(db);
+  applied.forEach(({ before, after, restoring }) => {
+    if (before || after) {
+      const method = !before ? "POST" : after ? "PATCH" : "DELETE";
+      logTaskWrite(req.user.id, method, before, after, restoring);
+    }
+  });
+
+  console.log(`[Mock API] Batch of ${operations.length} operations - OK`);
+  res.status(200).json({
+    results: applied.map(({ id, after }) => ({
+      id,
+      success: true,
+      ...(after && { data: after }),
+    })),
+  });
+}
+
+module.exports = { isTaskBatchRequest, handleTaskBatchRequest };
@@ -0,0 +1,270 @@
+/**
+ * Shared boards for the mock API
+ * Every board lists its members with a role: owners manage the board,
+ * editors change its tasks and viewers can only read them. A board can also
+ * define its own workflow columns; their ids are the statuses of its tasks,
+ * and its own coloured labels, which editors may manage as well.
+ */
+
+const { readDb } = require("./store");
+const { sendError, readJsonBody } = require("./http");
+
+const ROLE_RANK = { viewer: 1, editor: 2, owner: 3 };
+const DEFAULT_COLUMN_IDS = ["todo", "in-progress", "done"];
+const WIP_LIMIT_MODES = ["block", "warn"];
+const COLUMN_COLORS = [
+  "gray",
+  "blue",
+  "yellow",
+  "orange",
+  "red",
+  "purple",
+  "teal",
+  "green",
+];
+
+function getBoardRole(board, userId) {
+  const member = (board.members || []).find((entry) => entry.userId === userId);
+  return member ? member.role : null;
+}
+
+function hasRole(role, minimum) {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+const findBoard = (db, id) =>
+  (db.boards || []).find((board) => board.id === id);
+
+// The board a list request is for. json-server filters on every boardId it is
+// given (boardId=1&boardId=3, boardId[]=3), so only a single value names one
+function findListBoard(db, req) {
+  const boardId = req.query && req.query.boardId;
+  return typeof boardId === "string" ? findBoard(db, boardId) : undefined;
+}
+
+// Statuses a task on this board may have
+function getColumnIds(board) {
+  return board && Array.isArray(board.columns) && board.columns.length
+    ? board.columns.map((column) => column.id)
+    : DEFAULT_COLUMN_IDS;
+}
+
+// A personal board for a newly registered user
+function createPersonalBoard(user) {
+  return {
+    id: `board-${user.id}`,
+    name: `${user.fullName}'s board`,
+    members: [{ userId: user.id, role: "owner" }],
+    createdAt: user.createdAt,
+    updatedAt: user.createdAt,
+  };
+}
+
+function isValidMemberList(members) {
+  return (
+    Array.isArray(members) &&
+    members.every(
+      (member) => member && member.userId && ROLE_RANK[member.role]
+    ) &&
+    members.some((member) => member.role === "owner")
+  );
+}
+
+function isValidColumnList(columns) {
+  if (!Array.isArray(columns) || columns.length === 0) return false;
+  const ids = columns.map((column) => column && column.id);
+  return (
+    columns.every(
+      (column) =>
+        column &&
+        typeof column.id === "string" &&
+        column.id.trim() &&
+        typeof column.name === "string" &&
+        column.name.trim() &&
+        COLUMN_COLORS.includes(column.color) &&
+        typeof column.order === "number" &&
+        typeof column.countsAsDone === "boolean" &&
+        (column.countsAsStarted === undefined ||
+          typeof column.countsAsStarted === "boolean") &&
+        (column.wipLimit === undefined ||
+          (Number.isInteger(column.wipLimit) && column.wipLimit > 0)) &&
+        (column.wipLimitMode === undefined ||
+          WIP_LIMIT_MODES.includes(column.wipLimitMode))
+    ) && new Set(ids).size === ids.length
+  );
+}
+
+function isValidLabelList(labels) {
+  if (!Array.isArray(labels)) return false;
+  const ids = labels.map((label) => label && label.id);
+  const names = labels.map(
+    (label) => label && String(label.name).trim().toLowerCase()
+  );
+  return (
+    labels.every(
+      (label) =>
+        label &&
+        typeof label.id === "string" &&
+        label.id.trim() &&
+        typeof label.name === "string" &&
+        label.name.trim() &&
+        COLUMN_COLORS.includes(label.color)
+    ) &&
+    new Set(ids).size === ids.length &&
+    new Set(names).size === names.length
+  );
+}
+
+// Ids of the labels a task on this board may carry
+function getLabelIds(board) {
+  return board && Array.isArray(board.labels)
+    ? board.labels.map((label) => label.id)
+    : [];
+}
+
+/**
+ * Check a /boards request against the caller. Resolves to false when the
+ * request has been answered here (listing, or a 400/403/404).
+ */
+async function authorizeBoardRequest(req, res) {
+  const pathname = req.url.split("?")[0];
+  const match = pathname.match(/^\/boards(?:\/([^/]+))?\/?$/);
+  if (!match) return true;
+
+  const user = req.user;
+  const id = match[1] && decodeURIComponent(match[1]);
+  const db = readDb();
+
+  if (!id) {
+    if (req.method === "GET") {
+      // json-server can't filter on nested members, so list boards here
+      res.json(
+        (db.boards || []).filter((board) => getBoardRole(board, user.id))
+      );
+      return false;
+    }
+
+    if (req.method === "POST") {
+      // Whoever creates a board owns it
+      const body = await readJsonBody(req);
+      body.members = [
+        { userId: user.id, role: "owner" },
+        ...(Array.isArray(body.members) ? body.members : []).filter(
+          (member) => member && member.userId !== user.id
+        ),
+      ];
+      if (!isValidMemberList(body.members)) {
+        sendError(res, 400, "VALIDATION_ERROR", "Invalid board members");
+        return false;
+      }
+      if (body.columns !== undefined && !isValidColumnList(body.columns)) {
+        sendError(res, 400, "VALIDATION_ERROR", "Invalid workflow columns");
+        return false;
+      }
+      if (body.labels !== undefined && !isValidLabelList(body.labels)) {
+        sendError(res, 400, "VALIDATION_ERROR", "Invalid labels");
+        return false;
+      }
+      return true;
+    }
+
+    sendError(
+      res,
+      403,
+      "FORBIDDEN",
+      "Boards can only be changed one at a time"
+    );
+    return false;
+  }
+
+  const board = findBoard(db, id);
+  if (!board) {
+    sendError(res, 404, "NOT_FOUND", "Board not found");
+    return false;
+  }
+
+  const role = getBoardRole(board, user.id);
+  if (!role) {
+    sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+    return false;
+  }
+
+  if (req.method === "GET") return true;
+
+  if (!hasRole(role, "owner")) {
+    // Editors may change the labels, and nothing else
+    const body = req.method === "PATCH" ? await readJsonBody(req) : null;
+    const labelsOnly =
+      !!body &&
+      body.labels !== undefined &&
+      Object.keys(body).every((key) => key === "labels" || key === "updatedAt");
+
+    if (!hasRole(role, "editor") || !labelsOnly) {
+      sendError(res, 403, "FORBIDDEN", "Only the board owner can change it");
+      return false;
+    }
+  }
+
+  if (req.method === "PUT" || req.method === "PATCH") {
+    const body = await readJsonBody(req);
+    if (body.members !== undefined && !isValidMemberList(body.members)) {
+      sendError(
+        res,
+        400,
+        "VALIDATION_ERROR",
+        "A board needs at least one owner and valid member roles"
+      );
+      return false;
+    }
+
+    if (body.columns !== undefined) {
+      if (!isValidColumnList(body.columns)) {
+        sendError(
+          res,
+          400,
+          "VALIDATION_ERROR",
+          "Columns need a unique id, a name, a colour and an order"
+        );
+        return false;
+      }
+
+      // Don't strand tasks in a column that no longer exists
+      const columnIds = getColumnIds(body);
+      const stranded = (db.tasks || []).filter(
+        (task) => task.boardId === id && !columnIds.includes(task.status)
+      );
+      if (stranded.length > 0) {
+        sendError(
+          res,
+          409,
+          "COLUMN_NOT_EMPTY",
+          `Move the ${stranded.length} task(s) out of removed columns first`
+        );
+        return false;
+      }
+    }
+
+    if (body.labels !== undefined && !isValidLabelList(body.labels)) {
+      sendError(
+        res,
+        400,
+        "VALIDATION_ERROR",
+        "Labels need a unique id, a unique name and a colour"
+      );
+      return false;
+    }
+  }
+
+  return true;
+}
+
+module.exports = {
+  authorizeBoardRequest,
+  createPersonalBoard,
+  findBoard,
+  findListBoard,
+  getBoardRole,
+  getColumnIds,
+  getLabelIds,
+  hasRole,
+};
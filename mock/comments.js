@@ -0,0 +1,184 @@
+/**
+ * Task comments for the mock API
+ * A comment belongs to a task and, through it, to the task's board. Every
+ * member of the board can read and join the discussion; only the author can
+ * edit a comment, and the author or the board owner can remove it. Replies
+ * point at the comment they answer with `parentId`.
+ */
+
+const { readDb } = require("./store");
+const { sendError, readJsonBody } = require("./http");
+const { findBoard, findListBoard, getBoardRole } = require("./boards");
+
+const MAX_BODY_LENGTH = 10000;
+
+const findComment = (db, id) =>
+  (db.comments || []).find((comment) => comment.id === id);
+
+const isValidBody = (body) =>
+  typeof body === "string" &&
+  body.trim().length > 0 &&
+  body.length <= MAX_BODY_LENGTH;
+
+/**
+ * Check a /comments request against the caller. Resolves to false after
+ * sending a 400/403/404/409 when the request must not reach json-server.
+ */
+async function authorizeCommentRequest(req, res) {
+  const pathname = req.url.split("?")[0];
+  const match = pathname.match(/^\/comments(?:\/([^/]+))?\/?$/);
+  if (!match) return true;
+
+  const user = req.user;
+  const id = match[1] && decodeURIComponent(match[1]);
+  const db = readDb();
+
+  if (!id) {
+    if (req.method === "GET") {
+      const board = findListBoard(db, req);
+
+      if (!board) {
+        sendError(res, 400, "VALIDATION_ERROR", "A valid boardId is required");
+        return false;
+      }
+      if (!getBoardRole(board, user.id)) {
+        sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+        return false;
+      }
+      return true;
+    }
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      const task = (db.tasks || []).find((entry) => entry.id === body.taskId);
+      const board = task && task.boardId && findBoard(db, task.boardId);
+
+      if (!board) {
+        sendError(res, 400, "VALIDATION_ERROR", "A valid taskId is required");
+        return false;
+      }
+      if (!getBoardRole(board, user.id)) {
+        sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+        return false;
+      }
+      if (!isValidBody(body.body)) {
+        sendError(res, 400, "VALIDATION_ERROR", "A comment can't be empty");
+        return false;
+      }
+
+      const parent = body.parentId ? findComment(db, body.parentId) : null;
+      if (body.parentId && (!parent || parent.taskId !== task.id)) {
+        sendError(
+          res,
+          400,
+          "VALIDATION_ERROR",
+          "Replies must answer a comment on the same task"
+        );
+        return false;
+      }
+
+      // The server decides who wrote it and when
+      const now = new Date().toISOString();
+      Object.assign(body, {
+        boardId: board.id,
+        parentId: parent ? parent.id : null,
+        authorId: user.id,
+        createdAt: now,
+        updatedAt: now,
+      });
+      delete body.editedAt;
+      delete body.deletedAt;
+      return true;
+    }
+
+    sendError(
+      res,
+      403,
+      "FORBIDDEN",
+      "Comments can only be changed one at a time"
+    );
+    return false;
+  }
+
+  const comment = findComment(db, id);
+  if (!comment) {
+    sendError(res, 404, "NOT_FOUND", "Comment not found");
+    return false;
+  }
+
+  const board = findBoard(db, comment.boardId);
+  const role = board ? getBoardRole(board, user.id) : null;
+  if (!role) {
+    sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+    return false;
+  }
+
+  if (req.method === "GET") return true;
+
+  const isAuthor = comment.authorId === user.id;
+
+  if (req.method === "DELETE") {
+    if (!isAuthor && role !== "owner") {
+      sendError(
+        res,
+        403,
+        "FORBIDDEN",
+        "Only the author or the board owner can delete a comment"
+      );
+      return false;
+    }
+    // Removing it outright would orphan the replies
+    if ((db.comments || []).some((entry) => entry.parentId === comment.id)) {
+      sendError(
+        res,
+        409,
+        "COMMENT_HAS_REPLIES",
+        "Comments with replies can only be cleared, not deleted"
+      );
+      return false;
+    }
+    return true;
+  }
+
+  if (req.method === "PUT" || req.method === "PATCH") {
+    const body = await readJsonBody(req);
+    const now = new Date().toISOString();
+
+    if (comment.deletedAt) {
+      sendError(res, 409, "COMMENT_DELETED", "This comment was deleted");
+      return false;
+    }
+
+    // Clearing keeps the comment as a placeholder so its thread stays intact
+    if (body.deletedAt) {
+      if (!isAuthor && role !== "owner") {
+        sendError(
+          res,
+          403,
+          "FORBIDDEN",
+          "Only the author or the board owner can delete a comment"
+        );
+        return false;
+      }
+      Object.keys(body).forEach((key) => delete body[key]);
+      Object.assign(body, { ...comment, body: "", deletedAt: now });
+    } else {
+      if (!isAuthor) {
+        sendError(res, 403, "FORBIDDEN", "Only the author can edit a comment");
+        return false;
+      }
+      if (!isValidBody(body.body)) {
+        sendError(res, 400, "VALIDATION_ERROR", "A comment can't be empty");
+        return false;
+      }
+      const text = body.body;
+      Object.keys(body).forEach((key) => delete body[key]);
+      Object.assign(body, { ...comment, body: text, editedAt: now });
+    }
+    body.updatedAt = now;
+  }
+
+  return true;
+}
+
+module.exports = { authorizeCommentRequest };
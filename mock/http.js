@@ -0,0 +1,39 @@
+/**
+ * Request/response helpers shared by the mock API extensions
+ */
+
+function sendError(res, status, code, message) {
+  res.status(status).json({
+    error: code,
+    code,
+    message,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// json-server may not have parsed the body yet when middlewares run. Parse it
+// here and flag it as parsed so the router's body-parser doesn't wait on the
+// already drained stream.
+function readJsonBody(req) {
+  if (req.body && typeof req.body === "object") {
+    return Promise.resolve(req.body);
+  }
+
+  return new Promise((resolve) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      try {
+        req.body = raw ? JSON.parse(raw) : {};
+      } catch (error) {
+        req.body = {};
+      }
+      req._body = true;
+      resolve(req.body);
+    });
+  });
+}
+
+module.exports = { sendError, readJsonBody };
@@ -3,9 +3,80 @@
  * This helps test optimistic update rollback functionality
  */
 
+const { handleAuthRoute, authenticate } = require("./auth");
+const { authorizeBoardRequest } = require("./boards");
+const { authorizeTaskRequest } = require("./ownership");
+const { authorizeSprintRequest } = require("./sprints");
+const { authorizeCommentRequest } = require("./comments");
+const { authorizeUserRequest } = require("./users");
+const { trackTaskActivity, handleActivityRequest } = require("./activity");
+const { isTaskBatchRequest, handleTaskBatchRequest } = require("./batch");
+const { readDb } = require("./store");
+const { sendError } = require("./http");
+
 const FAILURE_RATE = 0.1; // 10% failure rate
 
-module.exports = (req, res, next) => {
+function setCorsHeaders(res) {
+  res.header("Access-Control-Allow-Origin", "*");
+  res.header(
+    "Access-Control-Allow-Methods",
+    "GET,PUT,POST,DELETE,PATCH,OPTIONS"
+  );
+  res.header(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization, Content-Length, X-Requested-With, If-Match"
+  );
+}
+
+/**
+ * Optimistic concurrency for tasks.
+ * Clients send the `updatedAt` they last saw in an `If-Match` header; if the
+ * stored task has moved on since, reply 409 with the current copy so the
+ * client can merge instead of overwriting someone else's edit.
+ */
+function checkTaskPrecondition(req, res) {
+  const match = req.url.match(/^\/tasks\/([^/?]+)/);
+  const expected = req.headers["if-match"];
+
+  if (!match || !expected || !["PUT", "PATCH", "DELETE"].includes(req.method)) {
+    return true;
+  }
+
+  const id = decodeURIComponent(match[1]);
+  const current = (readDb().tasks || []).find((task) => task.id === id);
+
+  // Let json-server answer 404 for unknown tasks
+  if (!current || current.updatedAt === expected) {
+    return true;
+  }
+
+  console.log(`[Mock API] Conflict on ${req.method} ${req.url}`);
+  res.status(409).json({
+    error: "Conflict",
+    code: "CONFLICT",
+    message: "Task was modified by someone else",
+    current,
+    timestamp: new Date().toISOString(),
+  });
+  return false;
+}
+
+// json-server also serves /db and nested /:parent/:id/:resource routes, which
+// would skip the per-resource checks; only /:resource[/:id] gets through
+function isResourceRoute(req) {
+  const pathname = req.url.split("?")[0];
+  return pathname !== "/db" && /^\/[^/]+(\/[^/]+)?\/?$/.test(pathname);
+}
+
+// json-server's _embed and _expand pull in related records, e.g. every task
+// of a user, past the board checks that only look at the resource asked for
+function hasRelationParams(req) {
+  const params = new URLSearchParams(req.url.split("?")[1] || "");
+  return ["_embed", "_expand"].some((name) => params.has(name));
+}
+
+// Randomly fail a mutation; true when the failure has been sent
+function simulateFailure(req, res) {
   // Only apply failure simulation to mutation requests
   const isMutation = ["POST", "PUT", "PATCH", "DELETE"].includes(req.method);
 
@@ -32,22 +103,95 @@ module.exports = (req, res, next) => {
         timestamp: new Date().toISOString(),
       });
     }, 300);
-  } else {
-    // Log successful requests
-    console.log(`[Mock API] ${req.method} ${req.url} - OK`);
-
-    // Add CORS headers for development
-    res.header("Access-Control-Allow-Origin", "*");
-    res.header(
-      "Access-Control-Allow-Methods",
-      "GET,PUT,POST,DELETE,PATCH,OPTIONS"
-    );
-    res.header(
-      "Access-Control-Allow-Headers",
-      "Content-Type, Authorization, Content-Length, X-Requested-With"
-    );
+    return true;
+  }
+  return false;
+}
+
+function simulateAndForward(req, res, next) {
+  if (simulateFailure(req, res)) {
+    return;
+  }
+  if (!checkTaskPrecondition(req, res)) {
+    return;
+  }
+
+  // Log successful requests
+  console.log(`[Mock API] ${req.method} ${req.url} - OK`);
+
+  // Continue to json-server router
+  next();
+}
+
+module.exports = (req, res, next) => {
+  // Add CORS headers for development
+  setCorsHeaders(res);
 
-    // Continue to json-server router
+  // Preflights carry no token and must reach the CORS handler, auth routes
+  // included
+  if (req.method === "OPTIONS") {
     next();
+    return;
+  }
+
+  // Auth endpoints are answered here; everything else needs a valid token
+  if (handleAuthRoute(req, res)) {
+    return;
+  }
+  if (!authenticate(req, res)) {
+    return;
+  }
+  if (handleActivityRequest(req, res)) {
+    return;
+  }
+  if (!isResourceRoute(req)) {
+    sendError(res, 404, "NOT_FOUND", "Unknown route");
+    return;
   }
+  if (hasRelationParams(req)) {
+    sendError(
+      res,
+      400,
+      "VALIDATION_ERROR",
+      "_embed and _expand are not supported"
+    );
+    return;
+  }
+
+  // Batches are answered here, with one failure roll for the whole batch so
+  // it can't half-apply
+  if (isTaskBatchRequest(req)) {
+    if (simulateFailure(req, res)) {
+      return;
+    }
+    handleTaskBatchRequest(req, res).catch((error) => {
+      console.error("[Mock API] Batch error:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to apply batch",
+        timestamp: new Date().toISOString(),
+      });
+    });
+    return;
+  }
+
+  // Access is checked before anything that could echo the task back
+  authorizeUserRequest(req, res)
+    .then((allowed) => allowed && authorizeBoardRequest(req, res))
+    .then((allowed) => allowed && authorizeSprintRequest(req, res))
+    .then((allowed) => allowed && authorizeTaskRequest(req, res))
+    .then((allowed) => allowed && authorizeCommentRequest(req, res))
+    .then((allowed) => {
+      if (!allowed) return;
+      trackTaskActivity(req, res);
+      simulateAndForward(req, res, next);
+    })
+    .catch((error) => {
+      console.error("[Mock API] Authorization error:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to authorize request",
+        timestamp: new Date().toISOString(),
+      });
+    });
 };
@@ -0,0 +1,298 @@
+/**
+ * Task access for the mock API
+ * The caller is taken from the verified bearer token (req.user), never from
+ * the request itself, so a guessed task ID is not enough to read or change it.
+ * Access follows the task's board: any member can read, editors and owners
+ * can write. Tasks from before boards existed stay private to their creator.
+ */
+
+const { readDb } = require("./store");
+const { sendError, readJsonBody } = require("./http");
+const {
+  findBoard,
+  findListBoard,
+  getBoardRole,
+  getColumnIds,
+  getLabelIds,
+  hasRole,
+} = require("./boards");
+const { findSprint } = require("./sprints");
+
+// Only members of the task's board can be assigned to it
+function keepBoardAssignees(body, board) {
+  if (!Array.isArray(body.assigneeIds)) return;
+  body.assigneeIds = body.assigneeIds.filter((userId) =>
+    board ? getBoardRole(board, userId) : false
+  );
+}
+
+// Labels that were deleted from the board, or never on it, are dropped
+function keepBoardLabels(body, board) {
+  if (body.labelIds === undefined) return;
+  const labelIds = getLabelIds(board);
+  body.labelIds = Array.isArray(body.labelIds)
+    ? [...new Set(body.labelIds)].filter((labelId) =>
+        labelIds.includes(labelId)
+      )
+    : [];
+}
+
+// Tasks can only sit in one of their board's columns
+function hasValidStatus(body, board) {
+  return body.status === undefined || getColumnIds(board).includes(body.status);
+}
+
+// A task can only be planned into a sprint of its own board
+function hasValidSprint(body, board, db) {
+  if (body.sprintId === undefined || body.sprintId === null) return true;
+  const sprint = findSprint(db, body.sprintId);
+  return !!sprint && !!board && sprint.boardId === board.id;
+}
+
+// A subtask's parent must be another task on the same board, and never one
+// of its own subtasks
+function hasValidParent(body, board, db, taskId) {
+  if (body.parentId === undefined || body.parentId === null) return true;
+
+  const tasks = db.tasks || [];
+  let parent = tasks.find((task) => task.id === body.parentId);
+  if (!parent || !board || parent.boardId !== board.id) return false;
+
+  const seen = new Set();
+  while (parent && !seen.has(parent.id)) {
+    if (parent.id === taskId) return false;
+    seen.add(parent.id);
+    parent =
+      parent.parentId && tasks.find((task) => task.id === parent.parentId);
+  }
+  return true;
+}
+
+function hasValidChecklist(body) {
+  if (body.checklist === undefined) return true;
+  return (
+    Array.isArray(body.checklist) &&
+    body.checklist.every(
+      (item) =>
+        item &&
+        typeof item.id === "string" &&
+        typeof item.text === "string" &&
+        item.text.trim() &&
+        typeof item.done === "boolean"
+    )
+  );
+}
+
+// The server keeps each task's status history as an append-only log:
+// creating a task starts it and every change of column adds an entry. Only
+// undo restores bring their own.
+function recordStatusChange(body, task, user) {
+  const at = new Date().toISOString();
+
+  if (!task) {
+    if (!body.id || !Array.isArray(body.statusHistory)) {
+      body.statusHistory = [
+        { status: body.status || "todo", at, from: null, by: user.id },
+      ];
+    }
+    return;
+  }
+
+  if (body.status !== undefined && body.status !== task.status) {
+    body.statusHistory = [
+      ...(task.statusHistory || [{ status: task.status, at: task.createdAt }]),
+      { status: body.status, at, from: task.status, by: user.id },
+    ];
+  } else if (task.statusHistory) {
+    body.statusHistory = task.statusHistory;
+  } else {
+    delete body.statusHistory;
+  }
+}
+
+function getTaskRole(task, user, db) {
+  if (!task.boardId) {
+    return task.userId === user.id ? "owner" : null;
+  }
+  const board = findBoard(db, task.boardId);
+  return board ? getBoardRole(board, user.id) : null;
+}
+
+const reject = (status, code, message) => ({ status, code, message });
+
+/**
+ * Check a new task against the caller and the board it's for. Returns the
+ * error to send, or null once `body` is ready to store.
+ */
+function checkTaskCreate(body, user, db) {
+  const board = findBoard(db, body.boardId || "");
+
+  if (!board) {
+    return reject(400, "VALIDATION_ERROR", "A valid boardId is required");
+  }
+  if (!hasRole(getBoardRole(board, user.id), "editor")) {
+    return reject(
+      403,
+      "FORBIDDEN",
+      "You don't have permission to add tasks to this board"
+    );
+  }
+
+  if (!hasValidStatus(body, board)) {
+    return reject(400, "VALIDATION_ERROR", "Unknown column for this board");
+  }
+  if (!hasValidSprint(body, board, db)) {
+    return reject(400, "VALIDATION_ERROR", "Unknown sprint for this board");
+  }
+  // A restored subtask whose parent has gone since becomes a plain task
+  if (
+    body.id &&
+    body.parentId &&
+    !(db.tasks || []).some((task) => task.id === body.parentId)
+  ) {
+    body.parentId = null;
+  }
+  if (!hasValidParent(body, board, db, body.id)) {
+    return reject(
+      400,
+      "VALIDATION_ERROR",
+      "A subtask's parent must be on the same board"
+    );
+  }
+  if (!hasValidChecklist(body)) {
+    return reject(400, "VALIDATION_ERROR", "Invalid checklist");
+  }
+
+  body.userId = user.id;
+  keepBoardAssignees(body, board);
+  keepBoardLabels(body, board);
+  recordStatusChange(body, null, user);
+  return null;
+}
+
+/**
+ * Check a read (GET), edit (PUT/PATCH) or DELETE of an existing task against
+ * the caller. Returns the error to send, or null; an edit's `body` is then
+ * ready to store.
+ */
+function checkTaskAccess(method, task, body, user, db) {
+  if (!task) {
+    return reject(404, "NOT_FOUND", "Task not found");
+  }
+
+  const role = getTaskRole(task, user, db);
+
+  if (!role) {
+    console.log(
+      `[Mock API] Forbidden ${method} of task ${task.id} for ${user.id}`
+    );
+    return reject(403, "FORBIDDEN", "You don't have access to this task");
+  }
+
+  if (method === "GET") return null;
+
+  if (!hasRole(role, "editor")) {
+    return reject(403, "FORBIDDEN", "Viewers can't change tasks on this board");
+  }
+
+  // Edits can't hand the task over to someone else or move it between boards
+  if (method === "PUT" || method === "PATCH") {
+    const board = task.boardId && findBoard(db, task.boardId);
+
+    if (!hasValidStatus(body, board)) {
+      return reject(400, "VALIDATION_ERROR", "Unknown column for this board");
+    }
+    if (!hasValidSprint(body, board, db)) {
+      return reject(400, "VALIDATION_ERROR", "Unknown sprint for this board");
+    }
+    if (!hasValidParent(body, board, db, task.id)) {
+      return reject(
+        400,
+        "VALIDATION_ERROR",
+        "A task's parent must be on its board and not one of its subtasks"
+      );
+    }
+    if (!hasValidChecklist(body)) {
+      return reject(400, "VALIDATION_ERROR", "Invalid checklist");
+    }
+
+    body.userId = task.userId;
+    body.boardId = task.boardId;
+    keepBoardAssignees(body, board);
+    keepBoardLabels(body, board);
+    recordStatusChange(body, task, user);
+  }
+
+  return null;
+}
+
+/**
+ * Check a /tasks request against the caller. Resolves to false after sending
+ * a 400/403/404 when the request must not reach json-server.
+ */
+async function authorizeTaskRequest(req, res) {
+  const [pathname, search = ""] = req.url.split("?");
+  const match = pathname.match(/^\/tasks(?:\/([^/]+))?\/?$/);
+  if (!match) return true;
+
+  const user = req.user;
+  const id = match[1] && decodeURIComponent(match[1]);
+  const db = readDb();
+
+  if (!id) {
+    if (req.method === "GET") {
+      const params = new URLSearchParams(search);
+      const board = findListBoard(db, req);
+
+      if (!board) {
+        sendError(res, 400, "VALIDATION_ERROR", "A valid boardId is required");
+        return false;
+      }
+      if (!getBoardRole(board, user.id)) {
+        sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+        return false;
+      }
+
+      // Only ever list the requested board, whatever else was asked for
+      params.delete("userId");
+      req.url = `${pathname}?${params}`;
+      if (req.query) {
+        req.query = { ...req.query };
+        delete req.query.userId;
+      }
+      return true;
+    }
+
+    if (req.method === "POST") {
+      const error = checkTaskCreate(await readJsonBody(req), user, db);
+      if (error) {
+        sendError(res, error.status, error.code, error.message);
+        return false;
+      }
+      return true;
+    }
+
+    sendError(
+      res,
+      403,
+      "FORBIDDEN",
+      "Tasks can only be changed one at a time - use /tasks/batch for several"
+    );
+    return false;
+  }
+
+  const task = (db.tasks || []).find((entry) => entry.id === id);
+  const body =
+    req.method === "PUT" || req.method === "PATCH"
+      ? await readJsonBody(req)
+      : null;
+  const error = checkTaskAccess(req.method, task, body, user, db);
+
+  if (error) {
+    sendError(res, error.status, error.code, error.message);
+    return false;
+  }
+  return true;
+}
+
+module.exports = { authorizeTaskRequest, checkTaskCreate, checkTaskAccess };
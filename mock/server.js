@@ -0,0 +1,34 @@
+/**
+ * Mock API server
+ * json-server's router behind the checks in ./middleware.js. The middleware
+ * writes db.json itself (registration, batches, audit fields), so the router
+ * re-reads the file before each request rather than serve a stale copy.
+ */
+
+const path = require("path");
+const jsonServer = require("json-server");
+const middleware = require("./middleware");
+const { toPublicUsers } = require("./users");
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const server = jsonServer.create();
+const router = jsonServer.router(path.join(__dirname, "db.json"));
+
+server.use(jsonServer.defaults());
+server.use(middleware);
+server.use((req, res, next) => {
+  router.db.read();
+  next();
+});
+server.use(router);
+
+// Profiles are readable by everyone signed in, so only their public fields go
+// out
+router.render = (req, res) => {
+  res.jsonp(toPublicUsers(req, res.locals.data));
+};
+
+server.listen(PORT, () => {
+  console.log(`[Mock API] Listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,156 @@
+/**
+ * Sprints for the mock API
+ * A sprint belongs to one board: members can read its sprints, editors and
+ * owners plan, start and complete them. A board runs one sprint at a time.
+ */
+
+const { readDb } = require("./store");
+const { sendError, readJsonBody } = require("./http");
+const { findBoard, findListBoard, getBoardRole, hasRole } = require("./boards");
+
+const SPRINT_STATES = ["planned", "active", "completed"];
+
+const findSprint = (db, id) =>
+  (db.sprints || []).find((sprint) => sprint.id === id);
+
+function isValidSprint(sprint) {
+  return (
+    typeof sprint.name === "string" &&
+    sprint.name.trim() &&
+    !Number.isNaN(Date.parse(sprint.startDate)) &&
+    !Number.isNaN(Date.parse(sprint.endDate)) &&
+    Date.parse(sprint.startDate) <= Date.parse(sprint.endDate) &&
+    SPRINT_STATES.includes(sprint.state)
+  );
+}
+
+// Another sprint already running on the same board, if any
+function findOtherActiveSprint(db, boardId, sprintId) {
+  return (db.sprints || []).find(
+    (sprint) =>
+      sprint.boardId === boardId &&
+      sprint.state === "active" &&
+      sprint.id !== sprintId
+  );
+}
+
+/**
+ * Check a /sprints request against the caller. Resolves to false after
+ * sending a 400/403/404/409 when the request must not reach json-server.
+ */
+async function authorizeSprintRequest(req, res) {
+  const pathname = req.url.split("?")[0];
+  const match = pathname.match(/^\/sprints(?:\/([^/]+))?\/?$/);
+  if (!match) return true;
+
+  const user = req.user;
+  const id = match[1] && decodeURIComponent(match[1]);
+  const db = readDb();
+
+  if (!id) {
+    if (req.method === "GET") {
+      const board = findListBoard(db, req);
+
+      if (!board) {
+        sendError(res, 400, "VALIDATION_ERROR", "A valid boardId is required");
+        return false;
+      }
+      if (!getBoardRole(board, user.id)) {
+        sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+        return false;
+      }
+      return true;
+    }
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      const board = findBoard(db, body.boardId || "");
+
+      if (!board) {
+        sendError(res, 400, "VALIDATION_ERROR", "A valid boardId is required");
+        return false;
+      }
+      if (!hasRole(getBoardRole(board, user.id), "editor")) {
+        sendError(
+          res,
+          403,
+          "FORBIDDEN",
+          "You don't have permission to plan sprints on this board"
+        );
+        return false;
+      }
+
+      // New sprints always start out in planning
+      body.state = "planned";
+      body.committedTaskIds = [];
+      if (!isValidSprint(body)) {
+        sendError(
+          res,
+          400,
+          "VALIDATION_ERROR",
+          "A sprint needs a name and a start date before its end date"
+        );
+        return false;
+      }
+      return true;
+    }
+
+    sendError(
+      res,
+      403,
+      "FORBIDDEN",
+      "Sprints can only be changed one at a time"
+    );
+    return false;
+  }
+
+  const sprint = findSprint(db, id);
+  if (!sprint) {
+    sendError(res, 404, "NOT_FOUND", "Sprint not found");
+    return false;
+  }
+
+  const board = findBoard(db, sprint.boardId);
+  const role = board ? getBoardRole(board, user.id) : null;
+  if (!role) {
+    sendError(res, 403, "FORBIDDEN", "You are not a member of this board");
+    return false;
+  }
+
+  if (req.method === "GET") return true;
+
+  if (!hasRole(role, "editor")) {
+    sendError(res, 403, "FORBIDDEN", "Viewers can't change sprints");
+    return false;
+  }
+
+  if (req.method === "PUT" || req.method === "PATCH") {
+    const body = await readJsonBody(req);
+    body.boardId = sprint.boardId;
+
+    if (sprint.state === "completed") {
+      sendError(res, 409, "SPRINT_COMPLETED", "This sprint is already closed");
+      return false;
+    }
+    if (!isValidSprint({ ...sprint, ...body })) {
+      sendError(res, 400, "VALIDATION_ERROR", "Invalid sprint");
+      return false;
+    }
+    if (
+      body.state === "active" &&
+      findOtherActiveSprint(db, sprint.boardId, sprint.id)
+    ) {
+      sendError(
+        res,
+        409,
+        "SPRINT_ALREADY_ACTIVE",
+        "Complete the current sprint before starting another"
+      );
+      return false;
+    }
+  }
+
+  return true;
+}
+
+module.exports = { authorizeSprintRequest, findSprint };
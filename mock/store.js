@@ -0,0 +1,64 @@
+/**
+ * File-backed storage shared by the mock API extensions.
+ * db.json is served by json-server (which reloads it on change); auth.json
+ * holds credentials and refresh tokens and is never exposed over HTTP.
+ * activity.json is the task audit log, which only the middleware writes.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const DB_FILE = path.join(__dirname, "db.json");
+const AUTH_FILE = path.join(__dirname, "auth.json");
+const ACTIVITY_FILE = path.join(__dirname, "activity.json");
+
+function readJson(file, fallback) {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (error) {
+    return fallback;
+  }
+}
+
+function writeJson(file, data) {
+  fs.writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+// Read the current database snapshot
+function readDb() {
+  return readJson(DB_FILE, { users: [], tasks: [] });
+}
+
+function writeDb(db) {
+  writeJson(DB_FILE, db);
+}
+
+function readAuthStore() {
+  const store = readJson(AUTH_FILE, {});
+  return {
+    credentials: store.credentials || [],
+    refreshTokens: store.refreshTokens || [],
+  };
+}
+
+function writeAuthStore(store) {
+  writeJson(AUTH_FILE, store);
+}
+
+function readActivityLog() {
+  return readJson(ACTIVITY_FILE, { activity: [] }).activity || [];
+}
+
+// Entries are only ever appended
+function appendActivity(entry) {
+  writeJson(ACTIVITY_FILE, { activity: [...readActivityLog(), entry] });
+}
+
+module.exports = {
+  readDb,
+  writeDb,
+  readAuthStore,
+  writeAuthStore,
+  readActivityLog,
+  appendActivity,
+};
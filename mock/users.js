@@ -0,0 +1,100 @@
+/**
+ * User profiles for the mock API
+ * Anyone signed in can read profiles, e.g. to show a board's members, but
+ * only their public fields.
+ * Accounts are only created through /auth/register, and a user can edit
+ * their own name and email, nothing else and nobody else's.
+ */
+
+const { readDb } = require("./store");
+const { sendError, readJsonBody } = require("./http");
+
+const EDITABLE_FIELDS = ["fullName", "email", "updatedAt"];
+const PUBLIC_FIELDS = ["id", "email", "fullName", "createdAt", "updatedAt"];
+
+function toPublicProfile(user) {
+  return Object.fromEntries(
+    PUBLIC_FIELDS.filter((field) => field in user).map((field) => [
+      field,
+      user[field],
+    ])
+  );
+}
+
+/**
+ * Strip what json-server is about to send for /users down to public
+ * profiles. Anything else is returned as is.
+ */
+function toPublicUsers(req, data) {
+  if (!/^\/users(?:\/[^/]+)?\/?$/.test(req.path) || !data) return data;
+  return Array.isArray(data)
+    ? data.map(toPublicProfile)
+    : toPublicProfile(data);
+}
+
+/**
+ * Check a /users request against the caller. Resolves to false after sending
+ * a 400/403/404/409 when the request must not reach json-server.
+ */
+async function authorizeUserRequest(req, res) {
+  const pathname = req.url.split("?")[0];
+  const match = pathname.match(/^\/users(?:\/([^/]+))?\/?$/);
+  if (!match || req.method === "GET") return true;
+
+  const id = match[1] && decodeURIComponent(match[1]);
+  if (!id || req.method !== "PATCH") {
+    sendError(
+      res,
+      403,
+      "FORBIDDEN",
+      "Profiles can only be edited, and accounts created by registering"
+    );
+    return false;
+  }
+  if (id !== req.user.id) {
+    sendError(res, 403, "FORBIDDEN", "You can only edit your own profile");
+    return false;
+  }
+
+  const db = readDb();
+  const body = await readJsonBody(req);
+  if (!(db.users || []).some((user) => user.id === id)) {
+    sendError(res, 404, "NOT_FOUND", "User not found");
+    return false;
+  }
+  if (!Object.keys(body).every((key) => EDITABLE_FIELDS.includes(key))) {
+    sendError(
+      res,
+      400,
+      "VALIDATION_ERROR",
+      "Only fullName and email can be changed"
+    );
+    return false;
+  }
+  if (
+    (body.fullName !== undefined &&
+      !(typeof body.fullName === "string" && body.fullName.trim())) ||
+    (body.email !== undefined &&
+      !(typeof body.email === "string" && body.email.includes("@")))
+  ) {
+    sendError(res, 400, "VALIDATION_ERROR", "Invalid name or email");
+    return false;
+  }
+
+  // Emails sign users in, so they stay unique
+  const email = body.email && body.email.toLowerCase();
+  if (
+    email &&
+    (db.users || []).some(
+      (user) => user.id !== id && user.email.toLowerCase() === email
+    )
+  ) {
+    sendError(res, 409, "EMAIL_TAKEN", "User with this email already exists");
+    return false;
+  }
+
+  body.updatedAt = new Date().toISOString();
+  return true;
+}
+
+module.exports = { authorizeUserRequest, toPublicUsers };
@@ -1,10 +1,9 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useRouter } from "next/navigation";
 import {
   Plus,
-  Search,
   LogOut,
   Moon,
   Sun,
@@ -13,14 +12,33 @@ import {
   RefreshCw,
   Network,
   Settings,
+  Columns3,
   PanelLeftOpen,
   PanelLeftClose,
   Lightbulb,
   Eye,
   Calendar,
   TrendingUp,
+  WifiOff,
+  CloudUpload,
+  Flag,
+  Gauge,
+  History,
+  Tag,
+  Search,
+  Command as CommandIcon,
 } from "lucide-react";
-import { useTasks } from "@/hooks/useTasks";
+import {
+  BatchSaveError,
+  useTasks,
+  useKeyboardShortcut,
+} from "@/hooks/useTasks";
+import { useBoards } from "@/hooks/useBoards";
+import { useSprints } from "@/hooks/useSprints";
+import { useComments } from "@/hooks/useComments";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { useSearchIndex } from "@/hooks/useSearchIndex";
+import { useCommandSettings, useCommandShortcuts } from "@/hooks/useCommands";
 import { useAuth } from "@/providers/AuthProvider";
 import { useTheme } from "@/providers/ThemeProvider";
 import { useAI } from "@/hooks/useAI";
@@ -36,58 +54,221 @@ import {
   RefactoringDashboard,
   TaskDependencyVisualizer,
   CodeInsightsPanel,
+  ViewTaskModal,
+  EditTaskModal,
+  ConflictResolutionModal,
+  BoardSwitcher,
+  WorkflowSettingsModal,
+  ActiveSprintBanner,
+  SprintBacklog,
+  CompleteSprintModal,
+  VelocityForecastPanel,
+  ActivityFeedPanel,
+  LabelFilter,
+  LabelSettingsModal,
+  QuerySearchBox,
+  SavedViewsMenu,
+  JumpToTaskDialog,
+  CommandPalette,
+  ShortcutSettingsModal,
+  LiveRegion,
+  BulkActionBar,
 } from "@/components";
 import { AISettingsPanel } from "@/components/AISettings";
-import { Task, TaskStatus, TaskPriority } from "@/lib/types";
-import { filterTasks } from "@/lib/utils";
-
-type PanelType =
-  | "scheduler"
-  | "productivity"
-  | "review"
-  | "testing"
-  | "refactor"
-  | "dependencies"
-  | "insights"
-  | "settings";
+import {
+  Task,
+  TaskStatus,
+  TaskPriority,
+  UpdateTaskInput,
+  HistoryActionType,
+  WorkflowColumn,
+  MoveOptions,
+  TaskPlacement,
+  Sprint,
+  CreateCommentInput,
+  Label,
+  ColumnColor,
+  PanelType,
+  BoardView,
+  BoardViewState,
+  SavedView,
+  TaskSortKey,
+  SearchResult,
+  QueryTextMatcher,
+  Command,
+} from "@/lib/types";
+import {
+  filterTasks,
+  canEditTasks,
+  groupTasksByStatus,
+  sortTasks,
+  columnColorConfig,
+  getWipLimitViolations,
+  isBlockingWipViolation,
+  describeWipViolations,
+  planSprintCompletion,
+  getCommentCounts,
+  getTaskProgress,
+  isReadyToComplete,
+  getDescendantIds,
+  isDoneStatus,
+  getDoneStatus,
+  getTaskLabels,
+  planLabelChanges,
+  generateId,
+  deepEqual,
+  DEFAULT_VIEW_STATE,
+  encodeViewState,
+  decodeViewState,
+} from "@/lib/utils";
+import { parseQuery, getQueryTexts } from "@/lib/query";
+import { tokenize } from "@/lib/search";
+import { formatShortcut, getShortcut } from "@/lib/commands";
+
+// Sort choices for the board's columns, as "sortBy:order"
+const sortOptions: Array<{ value: string; label: string }> = [
+  { value: "manual:asc", label: "Manual order" },
+  { value: "relevance:desc", label: "Best match" },
+  { value: "priority:desc", label: "Priority: high first" },
+  { value: "priority:asc", label: "Priority: low first" },
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "updatedAt:desc", label: "Recently updated" },
+  { value: "updatedAt:asc", label: "Least recently updated" },
+  { value: "title:asc", label: "Title A-Z" },
+  { value: "title:desc", label: "Title Z-A" },
+];
+
+const boardViewOptions: Array<{ key: BoardView; label: string }> = [
+  { key: "sprint", label: "Active Sprint" },
+  { key: "all", label: "All Tasks" },
+  { key: "backlog", label: "Backlog & Sprints" },
+];
+
+const historyTitles: Record<HistoryActionType, string> = {
+  create: "Task Created",
+  update: "Task Updated",
+  delete: "Task Deleted",
+  move: "Task Moved",
+  reorder: "Task Reordered",
+  batch: "Tasks Updated",
+};
 
 export default function BoardPage() {
   const router = useRouter();
   const { isAuthenticated, user, logout, loading: authLoading } = useAuth();
   const { isDark, toggleTheme } = useTheme();
+  const {
+    boards,
+    activeBoard,
+    role,
+    loading: boardsLoading,
+    selectBoard,
+    createBoard,
+    members,
+    columns,
+    labels,
+    updateBoard,
+  } = useBoards(user?.id);
+  // Viewers get a read-only board: no drag and drop, editing or deleting
+  const canEdit = canEditTasks(role);
   const {
     tasks,
     loading,
     createTask,
     updateTask,
     moveTask,
+    reorderTask,
+    batchUpdateTasks,
+    batchDeleteTasks,
     deleteTask,
     undoLastAction,
+    redoLastAction,
     canUndo,
-  } = useTasks();
-  const { insights, analyzeProductivity, isProcessing, isAIAvailable } =
-    useAI();
+    canRedo,
+    nextUndo,
+    offlineState,
+    clearSyncConflicts,
+    conflict,
+    resolveConflict,
+    dismissConflict,
+  } = useTasks({ boardId: activeBoard?.id ?? null, columns });
+  const { sprints, activeSprint, createSprint, startSprint, completeSprint } =
+    useSprints(activeBoard?.id ?? null);
+  const { comments, createComment, updateComment, deleteComment } = useComments(
+    activeBoard?.id ?? null
+  );
+  const {
+    insights,
+    analyzeProductivity,
+    categorizeTask,
+    estimateTaskTime,
+    isProcessing,
+    isAIAvailable,
+  } = useAI();
+  const { views, defaultView, saveView, deleteView, setDefaultView } =
+    useSavedViews(user?.id, activeBoard?.id);
+  const { search } = useSearchIndex(tasks, comments, labels);
+  const { recentIds, overrides, recordUse, updateShortcuts, resetShortcuts } =
+    useCommandSettings(user?.id);
 
   // UI State
   const [searchQuery, setSearchQuery] = useState("");
   const [priorityFilter, setPriorityFilter] = useState<TaskPriority | "all">(
     "all"
   );
+  const [assigneeFilter, setAssigneeFilter] = useState<"all" | "me">("all");
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  const [labelMatch, setLabelMatch] = useState<"any" | "all">("any");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isWorkflowModalOpen, setIsWorkflowModalOpen] = useState(false);
+  const [isLabelModalOpen, setIsLabelModalOpen] = useState(false);
+  const [isJumpOpen, setIsJumpOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [boardView, setBoardView] = useState<BoardView>("sprint");
+  const [sortBy, setSortBy] = useState<TaskSortKey>("manual");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
+  const [completingSprint, setCompletingSprint] = useState<Sprint | null>(null);
+  const [viewingTask, setViewingTask] = useState<Task | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [toast, setToast] = useState<{
     message: string;
-    type: "success" | "error" | "undo";
+    type: "success" | "error" | "warning" | "info" | "undo";
+    action?: { label: string; onClick: () => void };
   } | null>(null);
   const [showUndoOverlay, setShowUndoOverlay] = useState(false);
-  const [undoMessage, setUndoMessage] = useState("");
   const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
   const [draggedTask, setDraggedTask] = useState<Task | null>(null);
   const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // A card picked up with Space rather than dragged with the pointer
+  const [isKeyboardDrag, setIsKeyboardDrag] = useState(false);
+  // Read out by screen readers as keyboard moves happen
+  const [announcement, setAnnouncement] = useState("");
+  // Cards picked for bulk actions, and where a shift-click range starts
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const selectionAnchorRef = useRef<string | null>(null);
 
   // Sidebar and panel states
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [activePanel, setActivePanel] = useState<PanelType>("scheduler");
 
+  // The view a shared link asked for, if any
+  const [linkedView] = useState(() =>
+    typeof window === "undefined"
+      ? null
+      : decodeViewState(window.location.search)
+  );
+  // The board the current view was set up for
+  const viewBoardIdRef = useRef<string | null>(null);
+
+  // A selection belongs to the board it was made on
+  useEffect(() => {
+    setSelectedTaskIds([]);
+    selectionAnchorRef.current = null;
+  }, [activeBoard?.id]);
+
   // Auth guard
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -107,67 +288,461 @@ export default function BoardPage() {
     return undefined;
   }, [tasks, isAIAvailable, analyzeProductivity]);
 
-  // Keyboard navigation
+  // Surface offline changes that could not be replayed cleanly
   useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      if (!focusedTaskId) return;
-      const task = tasks.find((t) => t.id === focusedTaskId);
-      if (!task) return;
+    const conflicts = offlineState.conflicts;
+    if (conflicts.length === 0) return;
 
-      const statusOrder: TaskStatus[] = ["todo", "in-progress", "done"];
-      const currentIndex = statusOrder.indexOf(task.status);
+    const refusedCount = conflicts.filter((conflict) => conflict.error).length;
+    const changedCount = conflicts.length - refusedCount;
+    const skipped = (count: number) =>
+      `${count} offline change${count !== 1 ? "s were" : " was"} skipped`;
 
-      if (e.key === "[" && currentIndex > 0) {
-        e.preventDefault();
-        const newStatus = statusOrder[currentIndex - 1];
-        moveTask(focusedTaskId, newStatus);
-        const statusDisplayName = newStatus.replace("-", " ");
-        const message = `Task "${task.title}" moved to ${statusDisplayName}`;
-        setUndoMessage(message);
-        setShowUndoOverlay(true);
-      } else if (e.key === "]" && currentIndex < statusOrder.length - 1) {
-        e.preventDefault();
-        const newStatus = statusOrder[currentIndex + 1];
-        moveTask(focusedTaskId, newStatus);
-        const statusDisplayName = newStatus.replace("-", " ");
-        const message = `Task "${task.title}" moved to ${statusDisplayName}`;
-        setUndoMessage(message);
-        setShowUndoOverlay(true);
-      }
+    setToast(
+      refusedCount > 0
+        ? {
+            message: `${skipped(refusedCount)} because you can no longer edit ${
+              refusedCount !== 1 ? "those tasks" : "that task"
+            }${
+              changedCount > 0
+                ? `, and ${changedCount} more because the task changed on the server`
+                : ""
+            }`,
+            type: "error",
+          }
+        : {
+            message: `${skipped(
+              changedCount
+            )} because the task changed on the server`,
+            type: "warning",
+          }
+    );
+    clearSyncConflicts();
+  }, [offlineState.conflicts, clearSyncConflicts]);
+
+  // Filters, sort and panel together - what saved views and links capture
+  const viewState = useMemo<BoardViewState>(
+    () => ({
+      searchQuery,
+      priorityFilter,
+      assigneeFilter,
+      labelFilter,
+      labelMatch,
+      boardView,
+      sortBy,
+      sortOrder,
+      activePanel,
+    }),
+    [
+      searchQuery,
+      priorityFilter,
+      assigneeFilter,
+      labelFilter,
+      labelMatch,
+      boardView,
+      sortBy,
+      sortOrder,
+      activePanel,
+    ]
+  );
+  const currentView =
+    views.find((view) => deepEqual(view.state, viewState)) || null;
 
-      if (e.key === "Escape" && draggedTask) {
-        setDraggedTask(null);
-        setDropTarget(null);
+  const applyViewState = useCallback((state: BoardViewState) => {
+    setSearchQuery(state.searchQuery);
+    setPriorityFilter(state.priorityFilter);
+    setAssigneeFilter(state.assigneeFilter);
+    setLabelFilter(state.labelFilter);
+    setLabelMatch(state.labelMatch);
+    setBoardView(state.boardView);
+    setSortBy(state.sortBy);
+    setSortOrder(state.sortOrder);
+    setActivePanel(state.activePanel);
+  }, []);
+
+  // A shared link decides the first view; after that each board opens on
+  // the user's default view for it
+  useEffect(() => {
+    if (!activeBoard || viewBoardIdRef.current === activeBoard.id) return;
+
+    if (viewBoardIdRef.current === null && linkedView) {
+      const linkedBoardId = linkedView.boardId;
+      if (
+        linkedBoardId &&
+        linkedBoardId !== activeBoard.id &&
+        boards.some((board) => board.id === linkedBoardId)
+      ) {
+        // Comes back here once the linked board is active
+        selectBoard(linkedBoardId);
+        return;
       }
-    };
+      viewBoardIdRef.current = activeBoard.id;
+      applyViewState(linkedView.state);
+      return;
+    }
 
-    window.addEventListener("keydown", handleKeyPress);
-    return () => window.removeEventListener("keydown", handleKeyPress);
-  }, [focusedTaskId, tasks, moveTask, draggedTask]);
+    viewBoardIdRef.current = activeBoard.id;
+    applyViewState(defaultView?.state ?? DEFAULT_VIEW_STATE);
+  }, [
+    activeBoard,
+    boards,
+    linkedView,
+    defaultView,
+    selectBoard,
+    applyViewState,
+  ]);
+
+  // Keep the address bar in step so it can be copied or bookmarked
+  useEffect(() => {
+    if (!activeBoard || viewBoardIdRef.current !== activeBoard.id) return;
+    const search = encodeViewState(viewState, activeBoard.id);
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${search ? `?${search}` : ""}`
+    );
+  }, [viewState, activeBoard]);
+
+  // The search box takes a query, e.g. priority:high -label:bug
+  const queryContext = useMemo(
+    () => ({ columns, labels, members, sprints, currentUserId: user?.id }),
+    [columns, labels, members, sprints, user?.id]
+  );
+  const parsedQuery = useMemo(
+    () => parseQuery(searchQuery, queryContext),
+    [searchQuery, queryContext]
+  );
+
+  // Free text in the search goes through the index, so typos and the start
+  // of a word still match, and matches can be ranked and highlighted
+  const textSearch = useMemo(() => {
+    const results = new Map<string, Map<string, SearchResult>>();
+    const scores: Record<string, number> = {};
+    const highlights: Record<string, string[]> = {};
+    const keyOf = (text: string, phrase: boolean) =>
+      `${phrase ? "phrase" : "words"}:${text}`;
+
+    getQueryTexts(parsedQuery.query).forEach(({ text, phrase, negated }) => {
+      const key = keyOf(text, phrase);
+      const found =
+        results.get(key) ||
+        new Map(search(text, { phrase }).map((r) => [r.id, r]));
+      results.set(key, found);
+      // Leaving something out doesn't make the rest a better match
+      if (negated) return;
+
+      found.forEach((result) => {
+        scores[result.id] = (scores[result.id] || 0) + result.score;
+        highlights[result.id] = [
+          ...(highlights[result.id] || []),
+          ...result.terms,
+        ];
+      });
+    });
+
+    // Punctuation alone has no words to look up, so it filters nothing
+    const matchText: QueryTextMatcher = (task, text, phrase) =>
+      tokenize(text).length === 0 ||
+      !!results.get(keyOf(text, phrase))?.has(task.id);
+
+    return { matchText, scores, highlights };
+  }, [parsedQuery.query, search]);
 
-  // Filter tasks
+  // Filter tasks - labels from another board or since deleted are ignored
+  const activeLabelFilter = labelFilter.filter((id) =>
+    labels.some((label) => label.id === id)
+  );
   const filteredTasks = filterTasks(tasks, {
-    searchQuery,
+    // A query with an error is ignored until it's fixed
+    query: parsedQuery.query,
+    matchText: textSearch.matchText,
     priority: priorityFilter === "all" ? undefined : priorityFilter,
+    assigneeId: assigneeFilter === "me" ? user?.id : undefined,
+    labelIds: activeLabelFilter,
+    labelMatch,
+    // Without an active sprint the sprint view falls back to every task
+    sprintId:
+      boardView === "sprint" && activeSprint ? activeSprint.id : undefined,
   });
+  const hasActiveFilters =
+    !!searchQuery ||
+    priorityFilter !== "all" ||
+    assigneeFilter !== "all" ||
+    activeLabelFilter.length > 0;
+
+  // Columns show their cards in manual (rank) order unless the view sorts
+  // them; cards can only be reordered by hand in manual order
+  const tasksByColumn = groupTasksByStatus(
+    sortTasks(filteredTasks, sortBy, sortOrder, textSearch.scores),
+    columns
+  );
+  const manualOrder = sortBy === "manual";
+
+  const assigneesOf = (task: Task) =>
+    members.filter((member) => task.assigneeIds?.includes(member.id));
+  const commentCounts = getCommentCounts(comments);
+  // The modal follows the live task, e.g. as checklist items are ticked
+  const viewedTask =
+    viewingTask && (tasks.find((t) => t.id === viewingTask.id) ?? viewingTask);
+
+  // Board shortcuts stay quiet behind a dialog, where they'd act on tasks
+  // the user can't see
+  const isAnyModalOpen =
+    isCreateModalOpen ||
+    !!viewedTask ||
+    (!!editingTask && canEdit) ||
+    isWorkflowModalOpen ||
+    isLabelModalOpen ||
+    isPaletteOpen ||
+    isShortcutsOpen ||
+    isJumpOpen ||
+    !!completingSprint ||
+    !!conflict;
+
+  // Finishing the last open subtask suggests finishing the parent too
+  const suggestParentCompletion = useCallback(
+    (task: Task, status: TaskStatus) => {
+      const parent = tasks.find((t) => t.id === task.parentId);
+      const doneStatus = getDoneStatus(columns);
+      if (!parent || !doneStatus || !isDoneStatus(status, columns)) return;
+
+      const siblings = tasks.map((t) =>
+        t.id === task.id ? { ...t, status } : t
+      );
+      if (!isReadyToComplete(parent, siblings, columns)) return;
+
+      setToast({
+        message: `All subtasks of "${parent.title}" are done`,
+        type: "info",
+        action: {
+          label: "Complete it",
+          onClick: () => {
+            moveTask(parent.id, doneStatus).catch((error) => {
+              setToast({
+                message:
+                  error instanceof Error
+                    ? error.message
+                    : "Failed to move task",
+                type: "error",
+              });
+            });
+          },
+        },
+      });
+    },
+    [tasks, columns, moveTask]
+  );
+
+  // Every move goes through the target column's WIP limit: "block" limits
+  // reject it, "warn" limits ask before going over. With neighbours the task
+  // is also placed between them.
+  const requestMove = useCallback(
+    (
+      task: Task,
+      status: TaskStatus,
+      neighbours?: Omit<TaskPlacement, "status">
+    ) => {
+      const violations = getWipLimitViolations(
+        tasks,
+        [{ id: task.id, status }],
+        columns
+      );
+
+      const move = (options?: MoveOptions) => {
+        (neighbours
+          ? reorderTask(task.id, { status, ...neighbours }, options)
+          : moveTask(task.id, status, options)
+        )
+          .then(() => {
+            setShowUndoOverlay(true);
+            suggestParentCompletion(task, status);
+          })
+          .catch((error) => {
+            setToast({
+              message:
+                error instanceof Error ? error.message : "Failed to move task",
+              type: "error",
+            });
+          });
+      };
+
+      if (violations.some(isBlockingWipViolation)) {
+        setToast({ message: describeWipViolations(violations), type: "error" });
+      } else if (violations.length > 0) {
+        setToast({
+          message: describeWipViolations(violations),
+          type: "warning",
+          action: {
+            label: "Move anyway",
+            onClick: () => move({ overrideWipLimit: true }),
+          },
+        });
+      } else {
+        move();
+      }
+    },
+    [tasks, columns, moveTask, reorderTask, suggestParentCompletion]
+  );
+
+  // Keyboard navigation: where the focused card goes when moved one step
+  // across columns, or up and down a manually ordered column
+  const getFocusedMove = (direction: "left" | "right" | "up" | "down") => {
+    const task = canEdit
+      ? tasks.find((t) => t.id === focusedTaskId)
+      : undefined;
+    if (!task) return null;
+
+    if (direction === "left" || direction === "right") {
+      // Follow the board's own column order
+      const statusOrder: TaskStatus[] = columns.map((column) => column.id);
+      const currentIndex = statusOrder.indexOf(task.status);
+      const status =
+        statusOrder[currentIndex + (direction === "left" ? -1 : 1)];
+      return status ? { task, status } : null;
+    }
+
+    const columnTasks = tasksByColumn[task.status] || [];
+    const position = columnTasks.findIndex((t) => t.id === task.id);
+    if (!manualOrder || position === -1) return null;
+
+    if (direction === "up") {
+      return position > 0
+        ? {
+            task,
+            status: task.status,
+            neighbours: {
+              previousId: columnTasks[position - 2]?.id ?? null,
+              nextId: columnTasks[position - 1].id,
+            },
+          }
+        : null;
+    }
+    return position < columnTasks.length - 1
+      ? {
+          task,
+          status: task.status,
+          neighbours: {
+            previousId: columnTasks[position + 1].id,
+            nextId: columnTasks[position + 2]?.id ?? null,
+          },
+        }
+      : null;
+  };
+
+  // Focus a card once it has rendered, wherever a move has put it
+  const focusCard = (taskId: string) => {
+    setFocusedTaskId(taskId);
+    requestAnimationFrame(() => {
+      document.getElementById(`task-card-${taskId}`)?.focus();
+    });
+  };
+
+  const columnName = (status: TaskStatus) =>
+    columns.find((column) => column.id === status)?.name ?? status;
+
+  const moveFocusedTask = (direction: "left" | "right" | "up" | "down") => {
+    const move = getFocusedMove(direction);
+    if (!move) return;
+    requestMove(move.task, move.status, move.neighbours);
+    setAnnouncement(`Moved ${move.task.title} to ${columnName(move.status)}`);
+    focusCard(move.task.id);
+  };
+
+  const cancelDrag = () => {
+    setDraggedTask(null);
+    setDropTarget(null);
+    setDropIndex(null);
+    setIsKeyboardDrag(false);
+  };
+
+  // Escape drops a card mid-drag
+  useEffect(() => {
+    if (!draggedTask) return undefined;
+
+    const handleKeyPress = (e: KeyboardEvent) => {
+      if (e.key === "Escape") cancelDrag();
+    };
+
+    window.addEventListener("keydown", handleKeyPress);
+    return () => window.removeEventListener("keydown", handleKeyPress);
+  }, [draggedTask]);
 
   // Task handlers
   const handleTaskCreate = async (taskData: any) => {
     try {
-      await createTask(taskData);
+      // New tasks start in the board's first column, and in the sprint
+      // being looked at
+      await createTask({
+        ...taskData,
+        status: columns[0]?.id,
+        sprintId:
+          boardView === "sprint" && activeSprint ? activeSprint.id : null,
+      });
       setIsCreateModalOpen(false);
-      setToast({ message: "Task created successfully", type: "success" });
+      setToast(
+        offlineState.isOnline
+          ? { message: "Task created successfully", type: "success" }
+          : {
+              message: "Task saved offline - it will sync later",
+              type: "warning",
+            }
+      );
     } catch (error) {
       setToast({ message: "Failed to create task", type: "error" });
     }
   };
 
+  // Subtasks start in the first column, in the parent's sprint
+  const handleSubtaskCreate = async (parent: Task, title: string) => {
+    try {
+      await createTask({
+        title,
+        description: "",
+        priority: parent.priority,
+        status: columns[0]?.id,
+        sprintId: parent.sprintId ?? null,
+        parentId: parent.id,
+      });
+      setToast({ message: "Subtask added", type: "success" });
+    } catch (error) {
+      setToast({ message: "Failed to create subtask", type: "error" });
+      throw error;
+    }
+  };
+
   const handleTaskUpdate = async (taskId: string, updates: Partial<Task>) => {
+    if (!canEdit) {
+      setToast({
+        message: "Viewers can't change tasks on this board",
+        type: "warning",
+      });
+      return;
+    }
+
     try {
       await updateTask(taskId, updates);
       setToast({ message: "Task updated successfully", type: "success" });
     } catch (error) {
-      setToast({ message: "Failed to update task", type: "error" });
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to update task",
+        type: "error",
+      });
+    }
+  };
+
+  const handleConflictResolve = async (
+    resolution: Parameters<typeof resolveConflict>[0]
+  ) => {
+    try {
+      await resolveConflict(resolution);
+      setToast({ message: "Conflict resolved", type: "success" });
+    } catch (error) {
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to save resolution",
+        type: "error",
+      });
     }
   };
 
@@ -177,7 +752,6 @@ export default function BoardPage() {
 
     try {
       await deleteTask(taskId);
-      setUndoMessage(`Task "${task.title}" deleted`);
       setShowUndoOverlay(true);
     } catch (error) {
       setToast({ message: "Failed to delete task", type: "error" });
@@ -185,10 +759,38 @@ export default function BoardPage() {
   };
 
   const handleUndo = () => {
-    if (canUndo) {
-      undoLastAction();
-      setShowUndoOverlay(false);
-    }
+    if (!canUndo) return;
+    setShowUndoOverlay(false);
+    undoLastAction().catch((error) => {
+      setToast({
+        message: error instanceof Error ? error.message : "Failed to undo",
+        type: "error",
+      });
+    });
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    redoLastAction().catch((error) => {
+      setToast({
+        message: error instanceof Error ? error.message : "Failed to redo",
+        type: "error",
+      });
+    });
+  };
+
+  // Ctrl+Y is redo's second shortcut. Cmd/Ctrl+Shift+Z, like undo's
+  // Cmd/Ctrl+Z, is bound through the edit.redo command below, so it isn't
+  // repeated here - that would redo twice per press
+  useKeyboardShortcut(["ctrl", "y"], handleRedo, !isAnyModalOpen);
+
+  // Open a task found from anywhere on the board, and bring its card into view
+  const handleJumpToTask = (task: Task) => {
+    setViewingTask(task);
+    setFocusedTaskId(task.id);
+    document
+      .querySelector(`[data-task-id="${task.id}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
   };
 
   // Drag and drop handlers
@@ -199,34 +801,446 @@ export default function BoardPage() {
   const handleDragOver = (e: React.DragEvent, status: TaskStatus) => {
     e.preventDefault();
     setDropTarget(status);
+
+    // Count the other cards above the pointer to find the insertion point
+    const cards = Array.from(
+      e.currentTarget.querySelectorAll<HTMLElement>("[data-task-id]")
+    ).filter((card) => card.dataset.taskId !== draggedTask?.id);
+    const index = cards.filter((card) => {
+      const rect = card.getBoundingClientRect();
+      return rect.top + rect.height / 2 < e.clientY;
+    }).length;
+    setDropIndex(index);
   };
 
   const handleDragLeave = () => {
     setDropTarget(null);
+    setDropIndex(null);
+  };
+
+  // Drop the dragged card into a column, at the drop line if there is one
+  const dropDraggedTask = (status: TaskStatus) => {
+    if (canEdit && draggedTask && !manualOrder) {
+      // A sorted column places the card itself
+      if (draggedTask.status !== status) requestMove(draggedTask, status);
+    } else if (canEdit && draggedTask) {
+      const others = (tasksByColumn[status] || []).filter(
+        (t) => t.id !== draggedTask.id
+      );
+      const index = dropIndex ?? others.length;
+      const previousId = others[index - 1]?.id ?? null;
+      const nextId = others[index]?.id ?? null;
+
+      // Dropping a card back where it was changes nothing
+      const current = tasksByColumn[status] || [];
+      const position = current.findIndex((t) => t.id === draggedTask.id);
+      const unchanged =
+        position !== -1 &&
+        (current[position - 1]?.id ?? null) === previousId &&
+        (current[position + 1]?.id ?? null) === nextId;
+
+      if (!unchanged) {
+        requestMove(draggedTask, status, { previousId, nextId });
+      }
+    }
+    cancelDrag();
   };
 
   const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
     e.preventDefault();
-    if (draggedTask && draggedTask.status !== status) {
-      moveTask(draggedTask.id, status);
-      const statusDisplayName = status.replace("-", " ");
-      setUndoMessage(
-        `Task "${draggedTask.title}" moved to ${statusDisplayName}`
+    dropDraggedTask(status);
+  };
+
+  const isDropBlocked = (task: Task, status: TaskStatus) =>
+    getWipLimitViolations(tasks, [{ id: task.id, status }], columns).some(
+      isBlockingWipViolation
+    );
+
+  // Where a picked-up card would land, as read out while it's moved
+  const describeDropPosition = (
+    task: Task,
+    status: TaskStatus,
+    index: number
+  ) => {
+    if (isDropBlocked(task, status)) {
+      return `${columnName(status)}, which is at its WIP limit`;
+    }
+    if (!manualOrder) return columnName(status);
+
+    const count = (tasksByColumn[status] || []).filter(
+      (t) => t.id !== task.id
+    ).length;
+    return `${columnName(status)}, position ${index + 1} of ${count + 1}`;
+  };
+
+  const pickUpTask = (task: Task) => {
+    const position = (tasksByColumn[task.status] || []).findIndex(
+      (t) => t.id === task.id
+    );
+    setDraggedTask(task);
+    setDropTarget(task.status);
+    setDropIndex(Math.max(position, 0));
+    setIsKeyboardDrag(true);
+    setAnnouncement(
+      `Picked up ${task.title}, in ${describeDropPosition(
+        task,
+        task.status,
+        Math.max(position, 0)
+      )}. ${
+        manualOrder
+          ? "Use the arrow keys to move it"
+          : "Use the left and right arrow keys to move it between columns"
+      }, Space to drop it or Escape to cancel.`
+    );
+  };
+
+  // The keys for a picked-up card: arrows move the drop line, Space or
+  // Enter drops the card there and Escape puts it back
+  const handlePickedUpKey = (e: React.KeyboardEvent, task: Task) => {
+    const status = dropTarget ?? task.status;
+    const count = (tasksByColumn[status] || []).filter(
+      (t) => t.id !== task.id
+    ).length;
+    const index = Math.min(dropIndex ?? count, count);
+
+    if (e.key === "ArrowUp" || e.key === "ArrowDown") {
+      e.preventDefault();
+      if (!manualOrder) {
+        setAnnouncement(
+          "This view is sorted, so cards can only move between columns"
+        );
+        return;
+      }
+      const next = Math.min(
+        Math.max(index + (e.key === "ArrowUp" ? -1 : 1), 0),
+        count
       );
-      setShowUndoOverlay(true);
+      setDropIndex(next);
+      setAnnouncement(describeDropPosition(task, status, next));
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      e.preventDefault();
+      const column =
+        columns[
+          columns.findIndex((c) => c.id === status) +
+            (e.key === "ArrowLeft" ? -1 : 1)
+        ];
+      if (!column) return;
+      const next = Math.min(
+        index,
+        (tasksByColumn[column.id] || []).filter((t) => t.id !== task.id).length
+      );
+      setDropTarget(column.id);
+      setDropIndex(next);
+      setAnnouncement(describeDropPosition(task, column.id, next));
+    } else if (e.key === " " || e.key === "Enter") {
+      e.preventDefault();
+      dropDraggedTask(status);
+      setAnnouncement(
+        isDropBlocked(task, status)
+          ? `${task.title} was not moved, ${columnName(
+              status
+            )} is at its WIP limit`
+          : `Dropped ${task.title} in ${describeDropPosition(
+              task,
+              status,
+              index
+            )}`
+      );
+      focusCard(task.id);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      cancelDrag();
+      setAnnouncement(`${task.title} put back where it was`);
     }
-    setDraggedTask(null);
-    setDropTarget(null);
+  };
+
+  // Roving focus: arrows move between cards, up and down a column or across
+  // to the nearest card in the next column that has any
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    // Keys on the card's own buttons keep their usual meaning
+    if (e.target !== e.currentTarget) return;
+    if (isKeyboardDrag && draggedTask?.id === task.id) {
+      handlePickedUpKey(e, task);
+      return;
+    }
+
+    const columnTasks = tasksByColumn[task.status] || [];
+    const position = columnTasks.findIndex((t) => t.id === task.id);
+    let target: Task | undefined;
+
+    switch (e.key) {
+      case "ArrowUp":
+        target = columnTasks[position - 1];
+        break;
+      case "ArrowDown":
+        target = columnTasks[position + 1];
+        break;
+      case "Home":
+        target = columnTasks[0];
+        break;
+      case "End":
+        target = columnTasks[columnTasks.length - 1];
+        break;
+      case "ArrowLeft":
+      case "ArrowRight": {
+        const step = e.key === "ArrowLeft" ? -1 : 1;
+        const from = columns.findIndex((c) => c.id === task.status);
+        for (
+          let i = from + step;
+          !target && i >= 0 && i < columns.length;
+          i += step
+        ) {
+          const other = tasksByColumn[columns[i].id] || [];
+          target = other[Math.min(position, other.length - 1)];
+        }
+        break;
+      }
+      case "Enter":
+        e.preventDefault();
+        setViewingTask(task);
+        return;
+      case " ":
+        e.preventDefault();
+        // With Ctrl or Shift, Space selects the card the way a click would
+        if (!canEdit) return;
+        if (e.ctrlKey || e.metaKey || e.shiftKey) {
+          handleTaskSelect(task, e.shiftKey);
+        } else {
+          pickUpTask(task);
+        }
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    if (target) focusCard(target.id);
+  };
+
+  // The one card in the tab order: the focused one while it's on the board
+  const boardTaskIds = columns.flatMap((column) =>
+    (tasksByColumn[column.id] || []).map((t) => t.id)
+  );
+  const tabbableTaskId =
+    focusedTaskId && boardTaskIds.includes(focusedTaskId)
+      ? focusedTaskId
+      : boardTaskIds[0];
+
+  // Only cards still showing on the board stay selected
+  const selectedTasks = tasks.filter(
+    (task) =>
+      selectedTaskIds.includes(task.id) && boardTaskIds.includes(task.id)
+  );
+
+  const countTasks = (count: number) =>
+    `${count} task${count !== 1 ? "s" : ""}`;
+
+  const clearSelection = () => {
+    setSelectedTaskIds([]);
+    selectionAnchorRef.current = null;
+  };
+
+  // Ctrl/Cmd-click toggles a card; shift-click adds every card between it
+  // and the last one toggled, when both are in the same column
+  const handleTaskSelect = (task: Task, range: boolean) => {
+    const current = selectedTasks.map((t) => t.id);
+    const anchor = tasks.find((t) => t.id === selectionAnchorRef.current);
+    const column = tasksByColumn[task.status] || [];
+    const from = anchor ? column.findIndex((t) => t.id === anchor.id) : -1;
+    const to = column.findIndex((t) => t.id === task.id);
+
+    let next: string[];
+    if (range && from !== -1 && to !== -1) {
+      const run = column
+        .slice(Math.min(from, to), Math.max(from, to) + 1)
+        .map((t) => t.id);
+      next = Array.from(new Set([...current, ...run]));
+    } else {
+      selectionAnchorRef.current = task.id;
+      next = current.includes(task.id)
+        ? current.filter((id) => id !== task.id)
+        : [...current, task.id];
+    }
+
+    setSelectedTaskIds(next);
+    setAnnouncement(`${countTasks(next.length)} selected`);
+  };
+
+  // Escape lets go of the selection, unless a dialog used it to close
+  useEffect(() => {
+    if (selectedTaskIds.length === 0) return undefined;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !e.defaultPrevented) {
+        setSelectedTaskIds([]);
+        selectionAnchorRef.current = null;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedTaskIds.length]);
+
+  // Bulk actions change every selected card in one batch: one undo step
+  // covers them all, and any card the server refuses is put back on its own
+  const runBulkUpdate = (
+    updates: Array<{ id: string; changes: UpdateTaskInput }>,
+    description: string,
+    options: MoveOptions = {}
+  ) => {
+    if (updates.length === 0) return;
+    batchUpdateTasks(updates, { ...options, description })
+      .then(() => {
+        setShowUndoOverlay(true);
+        setAnnouncement(description);
+      })
+      .catch((error) => {
+        // Undo is only offered for the part of the batch that was saved
+        if (error instanceof BatchSaveError && error.savedCount > 0) {
+          setShowUndoOverlay(true);
+        }
+        setToast({
+          message:
+            error instanceof Error ? error.message : "Failed to update tasks",
+          type: "error",
+        });
+      });
+  };
+
+  const handleBulkMove = (status: TaskStatus) => {
+    const moving = selectedTasks.filter((task) => task.status !== status);
+    if (moving.length === 0) return;
+
+    const violations = getWipLimitViolations(
+      tasks,
+      moving.map((task) => ({ id: task.id, status })),
+      columns
+    );
+    const move = (options?: MoveOptions) =>
+      runBulkUpdate(
+        moving.map((task) => ({ id: task.id, changes: { status } })),
+        `Moved ${countTasks(moving.length)} to ${columnName(status)}`,
+        options
+      );
+
+    if (violations.some(isBlockingWipViolation)) {
+      setToast({ message: describeWipViolations(violations), type: "error" });
+    } else if (violations.length > 0) {
+      setToast({
+        message: describeWipViolations(violations),
+        type: "warning",
+        action: {
+          label: "Move anyway",
+          onClick: () => move({ overrideWipLimit: true }),
+        },
+      });
+    } else {
+      move();
+    }
+  };
+
+  const handleBulkPriority = (priority: TaskPriority) => {
+    const changing = selectedTasks.filter((task) => task.priority !== priority);
+    runBulkUpdate(
+      changing.map((task) => ({ id: task.id, changes: { priority } })),
+      `Set ${countTasks(changing.length)} to ${priority} priority`
+    );
+  };
+
+  const handleBulkAddLabel = (labelId: string) => {
+    const label = labels.find((l) => l.id === labelId);
+    const changing = selectedTasks.filter(
+      (task) => !task.labelIds?.includes(labelId)
+    );
+    runBulkUpdate(
+      changing.map((task) => ({
+        id: task.id,
+        changes: { labelIds: [...(task.labelIds || []), labelId] },
+      })),
+      `Labelled ${countTasks(changing.length)} "${label?.name ?? labelId}"`
+    );
+  };
+
+  const handleBulkAssign = (userId: string) => {
+    const member = members.find((m) => m.id === userId);
+    const changing = selectedTasks.filter(
+      (task) => !task.assigneeIds?.includes(userId)
+    );
+    runBulkUpdate(
+      changing.map((task) => ({
+        id: task.id,
+        changes: { assigneeIds: [...(task.assigneeIds || []), userId] },
+      })),
+      `Assigned ${countTasks(changing.length)} to ${
+        member?.fullName ?? "a member"
+      }`
+    );
+  };
+
+  const handleBulkDelete = () => {
+    const ids = selectedTasks.map((task) => task.id);
+    if (!window.confirm(`Delete ${countTasks(ids.length)}?`)) return;
+
+    clearSelection();
+    batchDeleteTasks(ids)
+      .then(() => {
+        setShowUndoOverlay(true);
+        setAnnouncement(`Deleted ${countTasks(ids.length)}`);
+      })
+      .catch((error) => {
+        // Undo is only offered for the part of the batch that was saved
+        if (error instanceof BatchSaveError && error.savedCount > 0) {
+          setShowUndoOverlay(true);
+        }
+        setToast({
+          message:
+            error instanceof Error ? error.message : "Failed to delete tasks",
+          type: "error",
+        });
+      });
   };
 
   const renderPanel = () => {
     switch (activePanel) {
       case "scheduler":
         return (
-          <SmartSchedulerPanel tasks={tasks} onTaskUpdate={handleTaskUpdate} />
+          <SmartSchedulerPanel
+            tasks={tasks}
+            onTaskUpdate={handleTaskUpdate}
+            columns={columns}
+          />
         );
       case "productivity":
-        return <ProductivityDashboard tasks={tasks} />;
+        return (
+          <ProductivityDashboard
+            tasks={tasks}
+            columns={columns}
+            sprints={sprints}
+          />
+        );
+      case "velocity":
+        return activeBoard ? (
+          <VelocityForecastPanel
+            key={activeBoard.id}
+            boardId={activeBoard.id}
+            tasks={tasks}
+            sprints={sprints}
+            columns={columns}
+            members={members}
+          />
+        ) : null;
+      case "activity":
+        return activeBoard ? (
+          <ActivityFeedPanel
+            key={activeBoard.id}
+            boardId={activeBoard.id}
+            tasks={tasks}
+            members={members}
+            columns={columns}
+            sprints={sprints}
+            labels={labels}
+          />
+        ) : null;
       case "review":
         return <SmartCodeReviewPanel tasks={tasks} />;
       case "testing":
@@ -243,7 +1257,11 @@ export default function BoardPage() {
         return <AISettingsPanel />;
       default:
         return (
-          <SmartSchedulerPanel tasks={tasks} onTaskUpdate={handleTaskUpdate} />
+          <SmartSchedulerPanel
+            tasks={tasks}
+            onTaskUpdate={handleTaskUpdate}
+            columns={columns}
+          />
         );
     }
   };
@@ -266,6 +1284,18 @@ export default function BoardPage() {
       icon: BarChart3,
       color: "text-green-600",
     },
+    {
+      key: "velocity",
+      label: "Velocity",
+      icon: Gauge,
+      color: "text-teal-600",
+    },
+    {
+      key: "activity",
+      label: "Activity",
+      icon: History,
+      color: "text-orange-600",
+    },
     {
       key: "review",
       label: "Code Review",
@@ -299,7 +1329,412 @@ export default function BoardPage() {
     },
   ];
 
-  if (authLoading || loading) {
+  const handleBoardCreate = async (name: string) => {
+    try {
+      const board = await createBoard({ name });
+      setToast({ message: `Board "${board.name}" created`, type: "success" });
+    } catch (error) {
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to create board",
+        type: "error",
+      });
+      throw error;
+    }
+  };
+
+  const handleColumnsSave = async (nextColumns: WorkflowColumn[]) => {
+    if (!activeBoard) return;
+    // The modal shows the error and stays open
+    await updateBoard(activeBoard.id, { columns: nextColumns });
+    setToast({ message: "Workflow columns saved", type: "success" });
+  };
+
+  // Labels made from the task modals go straight onto the board
+  const handleLabelCreate = async (name: string, color: ColumnColor) => {
+    if (!activeBoard) throw new Error("No board selected");
+    const label: Label = { id: generateId(), name, color };
+
+    try {
+      await updateBoard(activeBoard.id, { labels: [...labels, label] });
+      return label;
+    } catch (error) {
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to create label",
+        type: "error",
+      });
+      throw error;
+    }
+  };
+
+  const handleLabelsSave = async (
+    nextLabels: Label[],
+    merges: Record<string, string>
+  ) => {
+    if (!activeBoard) return;
+    // Retag the tasks while the old labels still exist, then drop them.
+    // The modal shows the error and stays open.
+    const retagged = planLabelChanges(tasks, nextLabels, merges);
+    if (retagged.length > 0) {
+      await batchUpdateTasks(retagged);
+    }
+    await updateBoard(activeBoard.id, { labels: nextLabels });
+    setToast({
+      message:
+        retagged.length > 0
+          ? `Labels saved - ${retagged.length} task${
+              retagged.length !== 1 ? "s" : ""
+            } updated`
+          : "Labels saved",
+      type: "success",
+    });
+  };
+
+  const handleViewSave = (name: string) => {
+    try {
+      const view = saveView(name, viewState);
+      setToast({ message: `Saved view "${view.name}"`, type: "success" });
+    } catch (error) {
+      setToast({
+        message: error instanceof Error ? error.message : "Failed to save view",
+        type: "error",
+      });
+    }
+  };
+
+  const handleViewDelete = (id: string) => {
+    const view = views.find((v) => v.id === id);
+    if (view && window.confirm(`Delete the view "${view.name}"?`)) {
+      deleteView(id);
+    }
+  };
+
+  const handleViewApply = (view: SavedView) => applyViewState(view.state);
+
+  const handleCopyViewLink = () => {
+    const search = encodeViewState(viewState, activeBoard?.id);
+    const url = `${window.location.origin}${window.location.pathname}${
+      search ? `?${search}` : ""
+    }`;
+    navigator.clipboard
+      .writeText(url)
+      .then(() => setToast({ message: "Link copied", type: "success" }))
+      .catch(() =>
+        setToast({ message: "Couldn't copy the link", type: "error" })
+      );
+  };
+
+  const handleSprintCreate = async (input: {
+    name: string;
+    goal: string;
+    startDate: string;
+    endDate: string;
+  }) => {
+    try {
+      const sprint = await createSprint({
+        ...input,
+        goal: input.goal || undefined,
+      });
+      setToast({ message: `${sprint.name} planned`, type: "success" });
+    } catch (error) {
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to create sprint",
+        type: "error",
+      });
+      throw error;
+    }
+  };
+
+  // Comment errors are toasted here; the comment form keeps its text
+  const reportCommentError = (error: unknown, fallback: string) =>
+    setToast({
+      message: error instanceof Error ? error.message : fallback,
+      type: "error",
+    });
+
+  const handleCommentCreate = async (input: CreateCommentInput) => {
+    try {
+      return await createComment(input);
+    } catch (error) {
+      reportCommentError(error, "Failed to add comment");
+      throw error;
+    }
+  };
+
+  const handleCommentUpdate = async (id: string, body: string) => {
+    try {
+      return await updateComment(id, body);
+    } catch (error) {
+      reportCommentError(error, "Failed to edit comment");
+      throw error;
+    }
+  };
+
+  const handleCommentDelete = async (id: string) => {
+    try {
+      await deleteComment(id);
+    } catch (error) {
+      reportCommentError(error, "Failed to delete comment");
+      throw error;
+    }
+  };
+
+  const handleAssignSprint = (taskId: string, sprintId: string | null) =>
+    handleTaskUpdate(taskId, { sprintId });
+
+  // Whatever is planned into the sprint when it starts is its commitment
+  const handleSprintStart = async (sprint: Sprint) => {
+    try {
+      await startSprint(
+        sprint.id,
+        tasks.filter((task) => task.sprintId === sprint.id).map((t) => t.id)
+      );
+      setBoardView("sprint");
+      setToast({ message: `${sprint.name} started`, type: "success" });
+    } catch (error) {
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to start sprint",
+        type: "error",
+      });
+    }
+  };
+
+  const handleSprintComplete = async (rolloverTo: string | null) => {
+    if (!completingSprint) return;
+    const { snapshot, rollover } = planSprintCompletion(
+      completingSprint,
+      tasks,
+      columns,
+      rolloverTo
+    );
+
+    try {
+      // Move unfinished work first so a failed close-out leaves the sprint open
+      if (rollover.length > 0) {
+        await batchUpdateTasks(rollover);
+      }
+      await completeSprint(completingSprint.id, snapshot);
+      setToast({
+        message: `${completingSprint.name} completed - ${snapshot.completedTaskIds.length} done, ${rollover.length} rolled over`,
+        type: "success",
+      });
+    } catch (error) {
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to complete sprint",
+        type: "error",
+      });
+      throw error;
+    }
+  };
+
+  // Ask the AI about the focused task and keep the answer on the task
+  const handleAIAnalyze = async (kind: "categorize" | "estimate") => {
+    const task = tasks.find((t) => t.id === focusedTaskId);
+    if (!task) return;
+
+    let aiData: Task["aiData"];
+    let message: string;
+    if (kind === "categorize") {
+      const result = await categorizeTask(task);
+      if (!result) {
+        setToast({ message: "Couldn't categorize the task", type: "error" });
+        return;
+      }
+      aiData = {
+        ...task.aiData,
+        category: result.category,
+        confidence: result.confidence,
+      };
+      message = `"${task.title}" looks like ${result.category}`;
+    } else {
+      const result = await estimateTaskTime(task);
+      if (!result) {
+        setToast({ message: "Couldn't estimate the task", type: "error" });
+        return;
+      }
+      aiData = { ...task.aiData, estimatedHours: result.estimatedHours };
+      message = `"${task.title}" should take about ${result.estimatedHours}h`;
+    }
+
+    try {
+      await updateTask(task.id, { aiData });
+      setToast({ message, type: "info" });
+    } catch (error) {
+      setToast({
+        message:
+          error instanceof Error ? error.message : "Failed to update task",
+        type: "error",
+      });
+    }
+  };
+
+  // Everything the command palette offers; `shortcut` is the default binding
+  const focusedTask = canEdit
+    ? tasks.find((t) => t.id === focusedTaskId) ?? null
+    : null;
+  const commands: Command[] = [
+    {
+      id: "palette.open",
+      title: "Open command palette",
+      group: "General",
+      shortcut: "mod+k",
+      run: () => setIsPaletteOpen(true),
+    },
+    {
+      id: "shortcuts.edit",
+      title: "Edit keyboard shortcuts",
+      group: "General",
+      keywords: ["keys", "bindings"],
+      run: () => setIsShortcutsOpen(true),
+    },
+    {
+      id: "edit.undo",
+      title: nextUndo ? `Undo (${historyTitles[nextUndo.type]})` : "Undo",
+      group: "General",
+      shortcut: "mod+z",
+      disabled: !canUndo,
+      run: handleUndo,
+    },
+    {
+      id: "edit.redo",
+      title: "Redo",
+      group: "General",
+      shortcut: "mod+shift+z",
+      disabled: !canRedo,
+      run: handleRedo,
+    },
+    {
+      id: "theme.toggle",
+      title: isDark ? "Switch to light theme" : "Switch to dark theme",
+      group: "General",
+      keywords: ["theme", "dark mode"],
+      run: toggleTheme,
+    },
+    {
+      id: "task.create",
+      title: "Create task",
+      group: "Tasks",
+      keywords: ["new", "add"],
+      shortcut: "c",
+      disabled: !canEdit,
+      run: () => setIsCreateModalOpen(true),
+    },
+    {
+      id: "task.jump",
+      title: "Jump to task",
+      group: "Tasks",
+      keywords: ["find", "search", "go to"],
+      shortcut: "mod+p",
+      run: () => setIsJumpOpen(true),
+    },
+    {
+      id: "task.edit",
+      title: "Edit focused task",
+      group: "Tasks",
+      shortcut: "e",
+      disabled: !focusedTask,
+      run: () => focusedTask && setEditingTask(focusedTask),
+    },
+    ...(
+      [
+        {
+          direction: "left",
+          title: "Move focused task to previous column",
+          shortcut: "[",
+        },
+        {
+          direction: "right",
+          title: "Move focused task to next column",
+          shortcut: "]",
+        },
+        { direction: "up", title: "Move focused task up", shortcut: "{" },
+        { direction: "down", title: "Move focused task down", shortcut: "}" },
+      ] as const
+    ).map(({ direction, title, shortcut }) => ({
+      id: `task.move.${direction}`,
+      title,
+      group: "Tasks",
+      shortcut,
+      disabled: !getFocusedMove(direction),
+      run: () => moveFocusedTask(direction),
+    })),
+    ...columns.map((column) => ({
+      id: `task.moveTo.${column.id}`,
+      title: `Move focused task to ${column.name}`,
+      group: "Tasks",
+      disabled: !focusedTask || focusedTask.status === column.id,
+      run: () => focusedTask && requestMove(focusedTask, column.id),
+    })),
+    {
+      id: "ai.categorize",
+      title: "Categorize focused task with AI",
+      group: "AI",
+      disabled: !focusedTask || !isAIAvailable || isProcessing,
+      run: () => handleAIAnalyze("categorize"),
+    },
+    {
+      id: "ai.estimate",
+      title: "Estimate focused task with AI",
+      group: "AI",
+      keywords: ["time", "hours"],
+      disabled: !focusedTask || !isAIAvailable || isProcessing,
+      run: () => handleAIAnalyze("estimate"),
+    },
+    ...boardViewOptions.map((view) => ({
+      id: `board.${view.key}`,
+      title: `Show ${view.label}`,
+      group: "Board",
+      run: () => setBoardView(view.key),
+    })),
+    {
+      id: "sidebar.toggle",
+      title: sidebarCollapsed ? "Show sidebar" : "Hide sidebar",
+      group: "Board",
+      run: () => setSidebarCollapsed(!sidebarCollapsed),
+    },
+    ...panelOptions.map((option) => ({
+      id: `panel.${option.key}`,
+      title: `Open ${option.label} panel`,
+      group: "Panels",
+      run: () => {
+        setActivePanel(option.key);
+        setSidebarCollapsed(false);
+      },
+    })),
+    ...views.map((view) => ({
+      id: `savedView.${view.id}`,
+      title: `Open view: ${view.name}`,
+      group: "Views",
+      run: () => applyViewState(view.state),
+    })),
+    {
+      id: "view.copyLink",
+      title: "Copy link to this view",
+      group: "Views",
+      keywords: ["share", "url"],
+      run: handleCopyViewLink,
+    },
+  ];
+  // Shortcuts stay quiet while one is being recorded, a search is open or
+  // any other dialog is
+  useCommandShortcuts(commands, overrides, !isAnyModalOpen);
+  // "Ctrl+K"-style hints for buttons that also have a command
+  const shortcutHint = (id: string) => {
+    const command = commands.find((c) => c.id === id);
+    const shortcut = command && getShortcut(command, overrides);
+    return shortcut ? ` (${formatShortcut(shortcut)})` : "";
+  };
+
+  const handleCommandRun = (command: Command) => {
+    recordUse(command.id);
+    command.run();
+  };
+
+  if (authLoading || boardsLoading || loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
@@ -334,20 +1769,90 @@ export default function BoardPage() {
               <span className="px-3 py-1 bg-gradient-to-r from-blue-500 to-purple-500 text-white text-xs font-medium rounded-full">
                 AI-Powered
               </span>
+
+              {/* Board Switcher */}
+              <BoardSwitcher
+                boards={boards}
+                activeBoard={activeBoard}
+                role={role}
+                onSelect={selectBoard}
+                onCreate={handleBoardCreate}
+              />
+              {role === "owner" && (
+                <button
+                  onClick={() => setIsWorkflowModalOpen(true)}
+                  className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                  title="Edit workflow columns"
+                >
+                  <Columns3 className="w-4 h-4" />
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => setIsLabelModalOpen(true)}
+                  className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                  title="Manage labels"
+                >
+                  <Tag className="w-4 h-4" />
+                </button>
+              )}
             </div>
 
             <div className="flex items-center space-x-4">
+              {/* Offline / Sync Status */}
+              {(!offlineState.isOnline ||
+                offlineState.syncing ||
+                offlineState.queue.length > 0) && (
+                <div
+                  className="flex items-center space-x-2 px-3 py-1.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300"
+                  title={
+                    offlineState.lastSyncTime
+                      ? `Last synced ${new Date(
+                          offlineState.lastSyncTime
+                        ).toLocaleTimeString()}`
+                      : "Not synced yet"
+                  }
+                >
+                  {offlineState.isOnline ? (
+                    <CloudUpload className="w-4 h-4" />
+                  ) : (
+                    <WifiOff className="w-4 h-4" />
+                  )}
+                  <span>
+                    {offlineState.syncing
+                      ? "Syncing..."
+                      : offlineState.isOnline
+                      ? `${offlineState.queue.length} pending`
+                      : `Offline - ${offlineState.queue.length} queued`}
+                  </span>
+                </div>
+              )}
+
+              {/* Command Palette */}
+              <button
+                onClick={() => setIsPaletteOpen(true)}
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                title={`Commands${shortcutHint("palette.open")}`}
+                aria-label="Open command palette"
+              >
+                <CommandIcon className="w-5 h-5" />
+              </button>
+
               {/* Search */}
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                <input
-                  type="text"
-                  placeholder="Search tasks..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                />
-              </div>
+              <button
+                onClick={() => setIsJumpOpen(true)}
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                title={`Jump to task${shortcutHint("task.jump")}`}
+                aria-label="Jump to task"
+              >
+                <Search className="w-5 h-5" />
+              </button>
+              <QuerySearchBox
+                value={searchQuery}
+                onChange={setSearchQuery}
+                context={queryContext}
+                error={parsedQuery.error}
+              />
 
               {/* Priority Filter */}
               <select
@@ -363,10 +1868,65 @@ export default function BoardPage() {
                 <option value="high">High</option>
               </select>
 
+              {/* Assignee Filter */}
+              <select
+                value={assigneeFilter}
+                onChange={(e) =>
+                  setAssigneeFilter(e.target.value as "all" | "me")
+                }
+                className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                <option value="all">Everyone&apos;s tasks</option>
+                <option value="me">Assigned to me</option>
+              </select>
+
+              {/* Label Filter */}
+              <LabelFilter
+                labels={labels}
+                selectedIds={activeLabelFilter}
+                match={labelMatch}
+                onChange={setLabelFilter}
+                onMatchChange={setLabelMatch}
+              />
+
+              {/* Sort */}
+              <select
+                value={`${sortBy}:${sortOrder}`}
+                onChange={(e) => {
+                  const [by, order] = e.target.value.split(":");
+                  setSortBy(by as TaskSortKey);
+                  setSortOrder(order as "asc" | "desc");
+                }}
+                aria-label="Sort cards"
+                className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              >
+                {sortOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+
+              {/* Saved Views */}
+              <SavedViewsMenu
+                views={views}
+                currentViewId={currentView?.id ?? null}
+                defaultViewId={defaultView?.id ?? null}
+                onApply={handleViewApply}
+                onSave={handleViewSave}
+                onDelete={handleViewDelete}
+                onSetDefault={setDefaultView}
+                onCopyLink={handleCopyViewLink}
+              />
+
               {/* Create Task Button */}
               <button
                 onClick={() => setIsCreateModalOpen(true)}
-                className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-200 flex items-center space-x-2 shadow-lg hover:shadow-xl"
+                disabled={!canEdit}
+                title={
+                  canEdit ? undefined : "Viewers can't add tasks to this board"
+                }
+                className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-200 flex items-center space-x-2 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Plus className="w-4 h-4" />
                 <span>Create Task</span>
@@ -498,142 +2058,225 @@ export default function BoardPage() {
 
           {/* Task Board */}
           <div className="p-6 h-full overflow-y-auto">
-            <div className="grid grid-cols-3 gap-6 h-full">
-              {/* Todo Column */}
-              <div
-                className={`bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-xl border border-gray-200/50 dark:border-gray-700/50 shadow-lg ${
-                  dropTarget === "todo"
-                    ? "ring-2 ring-blue-500 bg-blue-50/80 dark:bg-blue-900/20"
-                    : ""
-                }`}
-                onDragOver={(e) => handleDragOver(e, "todo")}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, "todo")}
-              >
-                <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
-                  <div className="flex items-center justify-between">
-                    <h3 className="font-semibold text-gray-900 dark:text-white">
-                      To Do
-                    </h3>
-                    <span className="bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 px-2 py-1 rounded-full text-sm">
-                      {filteredTasks.filter((t) => t.status === "todo").length}
-                    </span>
-                  </div>
-                </div>
-                <div className="p-4 space-y-3 h-[calc(100%-80px)] overflow-y-auto">
-                  {filteredTasks
-                    .filter((task) => task.status === "todo")
-                    .map((task) => (
-                      <TaskCard
-                        key={task.id}
-                        task={task}
-                        onDelete={handleTaskDelete}
-                        onFocus={() => setFocusedTaskId(task.id)}
-                        isFocused={focusedTaskId === task.id}
-                        isDragging={draggedTask?.id === task.id}
-                        onDragStart={() => handleDragStart(task)}
-                      />
-                    ))}
-                </div>
+            {!activeBoard && (
+              <div className="mb-4 px-4 py-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-700 dark:text-blue-300">
+                You aren&apos;t on any boards yet - create one with the + next
+                to the board switcher.
+              </div>
+            )}
+            {activeBoard && !canEdit && (
+              <div className="mb-4 px-4 py-3 rounded-lg bg-gray-100 dark:bg-gray-800 text-sm text-gray-600 dark:text-gray-300">
+                You&apos;re a viewer on {activeBoard.name} - tasks are
+                read-only.
               </div>
+            )}
 
-              {/* In Progress Column */}
-              <div
-                className={`bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-xl border border-gray-200/50 dark:border-gray-700/50 shadow-lg ${
-                  dropTarget === "in-progress"
-                    ? "ring-2 ring-yellow-500 bg-yellow-50/80 dark:bg-yellow-900/20"
-                    : ""
-                }`}
-                onDragOver={(e) => handleDragOver(e, "in-progress")}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, "in-progress")}
-              >
-                <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
-                  <div className="flex items-center justify-between">
-                    <h3 className="font-semibold text-gray-900 dark:text-white">
-                      In Progress
-                    </h3>
-                    <span className="bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400 px-2 py-1 rounded-full text-sm">
-                      {
-                        filteredTasks.filter((t) => t.status === "in-progress")
-                          .length
-                      }
-                    </span>
-                  </div>
-                </div>
-                <div className="p-4 space-y-3 h-[calc(100%-80px)] overflow-y-auto">
-                  {filteredTasks
-                    .filter((task) => task.status === "in-progress")
-                    .map((task) => (
-                      <TaskCard
-                        key={task.id}
-                        task={task}
-                        onDelete={handleTaskDelete}
-                        onFocus={() => setFocusedTaskId(task.id)}
-                        isFocused={focusedTaskId === task.id}
-                        isDragging={draggedTask?.id === task.id}
-                        onDragStart={() => handleDragStart(task)}
-                      />
-                    ))}
-                </div>
+            {/* Board View Tabs */}
+            {activeBoard && (
+              <div className="mb-4 flex items-center gap-1 p-1 w-fit rounded-lg bg-white/60 dark:bg-gray-800/60 border border-gray-200/50 dark:border-gray-700/50">
+                {boardViewOptions.map((view) => (
+                  <button
+                    key={view.key}
+                    onClick={() => setBoardView(view.key)}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      boardView === view.key
+                        ? "bg-blue-100 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400"
+                        : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    {view.label}
+                  </button>
+                ))}
               </div>
+            )}
 
-              {/* Done Column */}
+            {boardView === "sprint" &&
+              activeBoard &&
+              (activeSprint ? (
+                <ActiveSprintBanner
+                  sprint={activeSprint}
+                  tasks={tasks}
+                  columns={columns}
+                  canEdit={canEdit}
+                  onComplete={() => setCompletingSprint(activeSprint)}
+                />
+              ) : (
+                <div className="mb-4 px-4 py-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-700 dark:text-blue-300 flex items-center gap-2">
+                  <Flag className="w-4 h-4" />
+                  No sprint is running - showing every task. Plan and start one
+                  from Backlog &amp; Sprints.
+                </div>
+              ))}
+
+            {boardView === "backlog" ? (
+              <SprintBacklog
+                tasks={filteredTasks}
+                sprints={sprints}
+                columns={columns}
+                canEdit={canEdit}
+                onCreateSprint={handleSprintCreate}
+                onStartSprint={handleSprintStart}
+                onCompleteSprint={setCompletingSprint}
+                onAssignSprint={handleAssignSprint}
+                onViewTask={setViewingTask}
+              />
+            ) : (
               <div
-                className={`bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-xl border border-gray-200/50 dark:border-gray-700/50 shadow-lg ${
-                  dropTarget === "done"
-                    ? "ring-2 ring-green-500 bg-green-50/80 dark:bg-green-900/20"
-                    : ""
-                }`}
-                onDragOver={(e) => handleDragOver(e, "done")}
-                onDragLeave={handleDragLeave}
-                onDrop={(e) => handleDrop(e, "done")}
+                className="grid gap-6 h-full overflow-x-auto"
+                style={{
+                  gridTemplateColumns: `repeat(${columns.length}, minmax(18rem, 1fr))`,
+                }}
               >
-                <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
-                  <div className="flex items-center justify-between">
-                    <h3 className="font-semibold text-gray-900 dark:text-white">
-                      Done
-                    </h3>
-                    <span className="bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 px-2 py-1 rounded-full text-sm">
-                      {filteredTasks.filter((t) => t.status === "done").length}
-                    </span>
-                  </div>
-                </div>
-                <div className="p-4 space-y-3 h-[calc(100%-80px)] overflow-y-auto">
-                  {filteredTasks
-                    .filter((task) => task.status === "done")
-                    .map((task) => (
-                      <TaskCard
-                        key={task.id}
-                        task={task}
-                        onDelete={handleTaskDelete}
-                        onFocus={() => setFocusedTaskId(task.id)}
-                        isFocused={focusedTaskId === task.id}
-                        isDragging={draggedTask?.id === task.id}
-                        onDragStart={() => handleDragStart(task)}
-                      />
-                    ))}
-                </div>
+                {columns.map((column) => {
+                  const color = columnColorConfig[column.color];
+                  const columnTasks = tasksByColumn[column.id] || [];
+                  // WIP counts every task in the column, whatever the filters
+                  const wipCount = tasks.filter(
+                    (t) => t.status === column.id
+                  ).length;
+                  const overLimit =
+                    !!column.wipLimit && wipCount > column.wipLimit;
+                  const dropBlocked =
+                    !!draggedTask && isDropBlocked(draggedTask, column.id);
+                  // Where a dragged card would land in this column
+                  const showDropLine =
+                    canEdit &&
+                    manualOrder &&
+                    !!draggedTask &&
+                    !dropBlocked &&
+                    dropTarget === column.id &&
+                    dropIndex !== null;
+                  const dropBefore =
+                    dropIndex !== null
+                      ? columnTasks.filter((t) => t.id !== draggedTask?.id)[
+                          dropIndex
+                        ]
+                      : undefined;
+                  return (
+                    <div
+                      key={column.id}
+                      className={`bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-xl border border-gray-200/50 dark:border-gray-700/50 shadow-lg ${
+                        dropTarget === column.id
+                          ? dropBlocked
+                            ? "ring-2 ring-red-500 bg-red-50/80 dark:bg-red-900/20"
+                            : color.dropTarget
+                          : ""
+                      }`}
+                      onDragOver={(e) => handleDragOver(e, column.id)}
+                      onDragLeave={handleDragLeave}
+                      onDrop={(e) => handleDrop(e, column.id)}
+                    >
+                      <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50">
+                        <div className="flex items-center justify-between">
+                          <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+                            <span
+                              className={`w-2.5 h-2.5 rounded-full ${color.swatch}`}
+                            />
+                            {column.name}
+                          </h3>
+                          <span
+                            className={`px-2 py-1 rounded-full text-sm ${
+                              overLimit
+                                ? "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 font-semibold"
+                                : color.badge
+                            }`}
+                            title={
+                              column.wipLimit
+                                ? `${wipCount} of ${column.wipLimit} allowed in progress`
+                                : undefined
+                            }
+                          >
+                            {column.wipLimit
+                              ? `${wipCount}/${column.wipLimit}`
+                              : columnTasks.length}
+                          </span>
+                        </div>
+                      </div>
+                      <div
+                        role="list"
+                        aria-label={`${column.name}, ${
+                          columnTasks.length
+                        } task${columnTasks.length !== 1 ? "s" : ""}`}
+                        className="p-4 space-y-3 h-[calc(100%-80px)] overflow-y-auto"
+                      >
+                        {columnTasks.map((task) => (
+                          <div
+                            key={task.id}
+                            role="listitem"
+                            data-task-id={task.id}
+                            onBlur={(e) => {
+                              // Tabbing away from a picked-up card puts it back
+                              if (
+                                isKeyboardDrag &&
+                                draggedTask?.id === task.id &&
+                                e.target === e.currentTarget.firstElementChild
+                              ) {
+                                cancelDrag();
+                              }
+                            }}
+                          >
+                            {showDropLine && dropBefore?.id === task.id && (
+                              <div className="h-1 mb-3 rounded-full bg-blue-500" />
+                            )}
+                            <TaskCard
+                              task={task}
+                              onDelete={canEdit ? handleTaskDelete : undefined}
+                              onView={setViewingTask}
+                              onEdit={canEdit ? setEditingTask : undefined}
+                              readOnly={!canEdit}
+                              assignees={assigneesOf(task)}
+                              labels={getTaskLabels(task, labels)}
+                              commentCount={commentCounts[task.id]}
+                              progress={getTaskProgress(task, tasks, columns)}
+                              highlightTerms={textSearch.highlights[task.id]}
+                              readyToComplete={isReadyToComplete(
+                                task,
+                                tasks,
+                                columns
+                              )}
+                              onFocus={() => setFocusedTaskId(task.id)}
+                              isFocused={focusedTaskId === task.id}
+                              isDragging={draggedTask?.id === task.id}
+                              onDragStart={() => handleDragStart(task)}
+                              tabIndex={task.id === tabbableTaskId ? 0 : -1}
+                              onKeyDown={(e) => handleCardKeyDown(e, task)}
+                              describedBy="board-keyboard-help"
+                              isSelected={selectedTasks.includes(task)}
+                              onSelect={
+                                canEdit
+                                  ? (e) => handleTaskSelect(task, e.shiftKey)
+                                  : undefined
+                              }
+                            />
+                          </div>
+                        ))}
+                        {showDropLine && !dropBefore && (
+                          <div className="h-1 rounded-full bg-blue-500" />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
-            </div>
+            )}
 
             {/* Empty State */}
-            {filteredTasks.length === 0 && (
+            {boardView !== "backlog" && filteredTasks.length === 0 && (
               <div className="text-center py-12">
                 <div className="w-24 h-24 bg-gradient-to-br from-blue-500 to-purple-500 rounded-full mx-auto mb-6 flex items-center justify-center">
                   <Plus className="w-12 h-12 text-white" />
                 </div>
                 <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-                  {searchQuery || priorityFilter !== "all"
+                  {hasActiveFilters
                     ? "No tasks match your filters"
                     : "Ready to boost your productivity?"}
                 </h3>
                 <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">
-                  {searchQuery || priorityFilter !== "all"
+                  {hasActiveFilters
                     ? "Try adjusting your search or filters to find more tasks."
                     : "Create your first task and let our AI-powered features help you stay organized and efficient."}
                 </p>
-                {!searchQuery && priorityFilter === "all" && (
+                {!hasActiveFilters && (
                   <button
                     onClick={() => setIsCreateModalOpen(true)}
                     className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-3 rounded-lg hover:from-blue-700 hover:to-purple-700 transition-all duration-200 shadow-lg hover:shadow-xl"
@@ -653,21 +2296,180 @@ export default function BoardPage() {
           isOpen={isCreateModalOpen}
           onClose={() => setIsCreateModalOpen(false)}
           onCreate={handleTaskCreate}
+          members={members}
+          labels={labels}
+          onCreateLabel={handleLabelCreate}
+        />
+      )}
+
+      {viewedTask && (
+        <ViewTaskModal
+          key={viewedTask.id}
+          task={viewedTask}
+          isOpen={!!viewedTask}
+          onClose={() => setViewingTask(null)}
+          members={members}
+          columns={columns}
+          sprints={sprints}
+          labels={labels}
+          tasks={tasks}
+          onViewTask={setViewingTask}
+          onChecklistChange={
+            canEdit
+              ? (checklist) => handleTaskUpdate(viewedTask.id, { checklist })
+              : undefined
+          }
+          onCreateSubtask={
+            canEdit
+              ? (title) => handleSubtaskCreate(viewedTask, title)
+              : undefined
+          }
+          comments={comments}
+          currentUserId={user?.id}
+          canModerateComments={role === "owner"}
+          onCreateComment={handleCommentCreate}
+          onUpdateComment={handleCommentUpdate}
+          onDeleteComment={handleCommentDelete}
         />
       )}
 
-      {showUndoOverlay && (
+      {isWorkflowModalOpen && activeBoard && (
+        <WorkflowSettingsModal
+          key={activeBoard.id}
+          columns={columns}
+          taskCounts={tasks.reduce((counts, task) => {
+            counts[task.status] = (counts[task.status] || 0) + 1;
+            return counts;
+          }, {} as Record<string, number>)}
+          isOpen={isWorkflowModalOpen}
+          onClose={() => setIsWorkflowModalOpen(false)}
+          onSave={handleColumnsSave}
+        />
+      )}
+
+      {isLabelModalOpen && activeBoard && (
+        <LabelSettingsModal
+          key={activeBoard.id}
+          labels={labels}
+          taskCounts={tasks.reduce((counts, task) => {
+            (task.labelIds || []).forEach((id) => {
+              counts[id] = (counts[id] || 0) + 1;
+            });
+            return counts;
+          }, {} as Record<string, number>)}
+          isOpen={isLabelModalOpen}
+          onClose={() => setIsLabelModalOpen(false)}
+          onSave={handleLabelsSave}
+        />
+      )}
+
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        onClose={() => setIsPaletteOpen(false)}
+        commands={commands}
+        overrides={overrides}
+        recentIds={recentIds}
+        onRun={handleCommandRun}
+      />
+
+      <ShortcutSettingsModal
+        isOpen={isShortcutsOpen}
+        onClose={() => setIsShortcutsOpen(false)}
+        commands={commands}
+        overrides={overrides}
+        onChange={updateShortcuts}
+        onReset={resetShortcuts}
+      />
+
+      <JumpToTaskDialog
+        isOpen={isJumpOpen}
+        onClose={() => setIsJumpOpen(false)}
+        tasks={tasks}
+        columns={columns}
+        search={search}
+        onSelect={handleJumpToTask}
+      />
+
+      {completingSprint && (
+        <CompleteSprintModal
+          key={completingSprint.id}
+          sprint={completingSprint}
+          tasks={tasks}
+          columns={columns}
+          nextSprints={sprints.filter(
+            (sprint) =>
+              sprint.state === "planned" && sprint.id !== completingSprint.id
+          )}
+          isOpen={!!completingSprint}
+          onClose={() => setCompletingSprint(null)}
+          onComplete={handleSprintComplete}
+        />
+      )}
+
+      {editingTask && canEdit && (
+        <EditTaskModal
+          key={editingTask.id}
+          task={editingTask}
+          isOpen={!!editingTask}
+          onClose={() => setEditingTask(null)}
+          members={members}
+          labels={labels}
+          onCreateLabel={handleLabelCreate}
+          parentOptions={tasks.filter(
+            (t) =>
+              t.id !== editingTask.id &&
+              !getDescendantIds(editingTask.id, tasks).includes(t.id)
+          )}
+          onSave={(changes) => handleTaskUpdate(editingTask.id, changes)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictResolutionModal
+          key={`${conflict.taskId}-${conflict.remote.updatedAt}`}
+          conflict={conflict}
+          isOpen={!!conflict}
+          onClose={dismissConflict}
+          onResolve={handleConflictResolve}
+        />
+      )}
+
+      {showUndoOverlay && nextUndo && (
         <UndoOverlay
-          message={undoMessage}
+          title={historyTitles[nextUndo.type]}
+          message={nextUndo.description}
           onUndo={handleUndo}
           onClose={() => setShowUndoOverlay(false)}
         />
       )}
 
+      <p id="board-keyboard-help" className="sr-only">
+        Arrow keys move between tasks, Enter opens a task and Space picks it up
+        to move it. Ctrl+Space selects it for bulk actions.
+      </p>
+      <LiveRegion message={announcement} />
+
+      {canEdit && (
+        <BulkActionBar
+          count={selectedTasks.length}
+          columns={columns}
+          members={members}
+          labels={labels}
+          onMove={handleBulkMove}
+          onSetPriority={handleBulkPriority}
+          onAddLabel={handleBulkAddLabel}
+          onAssign={handleBulkAssign}
+          onDelete={handleBulkDelete}
+          onClear={clearSelection}
+        />
+      )}
+
       {toast && (
         <Toast
+          key={toast.message}
           message={toast.message}
           type={toast.type}
+          action={toast.action}
           onClose={() => setToast(null)}
         />
       )}
@@ -0,0 +1,18 @@
+"use client";
+
+import React from "react";
+
+// Read out to screen readers whenever the message changes, without being
+// shown. Polite, so it waits for the reader to finish what it was saying.
+export function LiveRegion({ message }: { message: string }) {
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+      className="sr-only"
+    >
+      {message}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import React, { useState } from "react";
+import { History, RefreshCw } from "lucide-react";
+import {
+  Task,
+  User,
+  Sprint,
+  WorkflowColumn,
+  Label,
+  ActivityEntry,
+  ActivityAction,
+  FieldChange,
+} from "@/lib/types";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { useActivity } from "@/hooks/useActivity";
+import { UserAvatar } from "./Assignees";
+
+const actionConfig: Record<
+  ActivityAction,
+  { verb: string; className: string }
+> = {
+  create: {
+    verb: "created",
+    className:
+      "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  },
+  update: {
+    verb: "edited",
+    className:
+      "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  },
+  move: {
+    verb: "moved",
+    className:
+      "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300",
+  },
+  delete: {
+    verb: "deleted",
+    className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  },
+  restore: {
+    verb: "restored",
+    className:
+      "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300",
+  },
+};
+
+const fieldLabels: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  rank: "Position",
+  sprintId: "Sprint",
+  parentId: "Parent task",
+  assigneeIds: "Assignees",
+  labelIds: "Labels",
+  checklist: "Checklist",
+  scheduling: "Scheduling",
+  aiData: "AI details",
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+interface ActivityContext {
+  members: User[];
+  columns: WorkflowColumn[];
+  sprints: Sprint[];
+  labels: Label[];
+}
+
+// A readable version of one side of a field change
+function formatValue(
+  change: FieldChange,
+  value: unknown,
+  { members, columns, sprints, labels }: ActivityContext
+): string {
+  if (value === null || value === undefined || value === "") {
+    return change.field === "sprintId" ? "Backlog" : "(empty)";
+  }
+
+  switch (change.field) {
+    case "status":
+      return columns.find((c) => c.id === value)?.name ?? String(value);
+    case "sprintId":
+      return sprints.find((s) => s.id === value)?.name ?? "Unknown sprint";
+    case "assigneeIds":
+      return Array.isArray(value) && value.length > 0
+        ? value
+            .map((id) => members.find((m) => m.id === id)?.fullName ?? id)
+            .join(", ")
+        : "Nobody";
+    case "labelIds":
+      return Array.isArray(value) && value.length > 0
+        ? value
+            .map(
+              (id) => labels.find((l) => l.id === id)?.name ?? "Deleted label"
+            )
+            .join(", ")
+        : "None";
+    case "checklist":
+      return Array.isArray(value)
+        ? `${value.filter((item) => item?.done).length} of ${value.length} done`
+        : String(value);
+  }
+
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH)}…`
+    : text;
+}
+
+interface ActivityTimelineProps extends Partial<ActivityContext> {
+  entries: ActivityEntry[];
+  showTaskTitle?: boolean; // for feeds that span several tasks
+}
+
+// Who changed what, newest first
+export function ActivityTimeline({
+  entries,
+  members = [],
+  columns = [],
+  sprints = [],
+  labels = [],
+  showTaskTitle = false,
+}: ActivityTimelineProps) {
+  const context = { members, columns, sprints, labels };
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No activity recorded yet
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry) => {
+        const actor = members.find((member) => member.id === entry.actorId);
+        const action = actionConfig[entry.action];
+
+        return (
+          <li key={entry.id} className="flex gap-3">
+            {actor ? (
+              <UserAvatar user={actor} />
+            ) : (
+              <span className="inline-flex w-6 h-6 flex-shrink-0 rounded-full bg-gray-300 dark:bg-gray-600" />
+            )}
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="flex flex-wrap items-center gap-x-1.5 text-gray-700 dark:text-gray-300">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {actor?.fullName ?? "Former member"}
+                </span>
+                <span
+                  className={cn(
+                    "px-1.5 py-0.5 rounded text-[10px] font-medium",
+                    action.className
+                  )}
+                >
+                  {action.verb}
+                </span>
+                {showTaskTitle && (
+                  <span className="truncate font-medium">
+                    {entry.taskTitle}
+                  </span>
+                )}
+                <time
+                  dateTime={entry.at}
+                  title={new Date(entry.at).toLocaleString()}
+                  className="text-xs text-gray-500 dark:text-gray-400"
+                >
+                  {formatRelativeTime(entry.at)}
+                </time>
+              </div>
+              {entry.action !== "create" && entry.changes.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+                  {entry.changes.map((change) => (
+                    <li key={change.field} className="break-words">
+                      <span className="font-medium">
+                        {fieldLabels[change.field] ?? change.field}
+                      </span>
+                      {/* Ranks are only meaningful next to other cards */}
+                      {change.field === "rank" ? (
+                        " changed"
+                      ) : (
+                        <>
+                          {": "}
+                          <span className="line-through">
+                            {formatValue(change, change.from, context)}
+                          </span>
+                          {" → "}
+                          {formatValue(change, change.to, context)}
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+// Latest write to the board, so the feed reloads after each change
+export function getActivityVersion(tasks: Task[]): string {
+  const latest = tasks.reduce(
+    (max, task) => (task.updatedAt > max ? task.updatedAt : max),
+    ""
+  );
+  return `${tasks.length}:${latest}`;
+}
+
+interface ActivityFeedPanelProps {
+  boardId: string;
+  tasks: Task[];
+  members: User[];
+  columns: WorkflowColumn[];
+  sprints: Sprint[];
+  labels: Label[];
+}
+
+// Board-wide audit feed, filterable by person and kind of change
+export function ActivityFeedPanel({
+  boardId,
+  tasks,
+  members,
+  columns,
+  sprints,
+  labels,
+}: ActivityFeedPanelProps) {
+  const [actorId, setActorId] = useState("");
+  const [action, setAction] = useState<ActivityAction | "">("");
+  const { entries, loading, error, refresh } = useActivity(
+    boardId,
+    { actorId: actorId || undefined, action: action || undefined },
+    getActivityVersion(tasks)
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-orange-600 dark:text-orange-400" />
+          <h3 className="font-medium text-gray-900 dark:text-white">
+            Activity
+          </h3>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 disabled:opacity-50"
+          title="Refresh"
+          aria-label="Refresh activity"
+        >
+          <RefreshCw className={cn("w-4 h-4", loading && "animate-spin")} />
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={actorId}
+          onChange={(e) => setActorId(e.target.value)}
+          className="text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+          aria-label="Filter by person"
+        >
+          <option value="">Everyone</option>
+          {members.map((member) => (
+            <option key={member.id} value={member.id}>
+              {member.fullName}
+            </option>
+          ))}
+        </select>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as ActivityAction | "")}
+          className="text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+          aria-label="Filter by action"
+        >
+          <option value="">All actions</option>
+          {(Object.keys(actionConfig) as ActivityAction[]).map((key) => (
+            <option key={key} value={key}>
+              {actionConfig[key].verb.charAt(0).toUpperCase() +
+                actionConfig[key].verb.slice(1)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-lg p-4 border border-gray-200/50 dark:border-gray-700/50">
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {error.message || "Failed to load activity"}
+          </p>
+        ) : loading && entries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading…</p>
+        ) : (
+          <ActivityTimeline
+            entries={entries}
+            members={members}
+            columns={columns}
+            sprints={sprints}
+            labels={labels}
+            showTaskTitle
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import React from "react";
+import { Check } from "lucide-react";
+import { User } from "@/lib/types";
+import { cn, getMentionHandle } from "@/lib/utils";
+
+const avatarColors = [
+  "bg-blue-500",
+  "bg-purple-500",
+  "bg-green-500",
+  "bg-orange-500",
+  "bg-pink-500",
+  "bg-teal-500",
+];
+
+// Stable colour per user so avatars are recognisable across the board
+const colorFor = (userId: string) =>
+  avatarColors[
+    userId.split("").reduce((sum, char) => sum + char.charCodeAt(0), 0) %
+      avatarColors.length
+  ];
+
+const initialsFor = (user: User) =>
+  user.fullName
+    .split(" ")
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("") || user.email[0].toUpperCase();
+
+interface UserAvatarProps {
+  user: User;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+export function UserAvatar({ user, size = "sm", className }: UserAvatarProps) {
+  return (
+    <span
+      title={user.fullName}
+      className={cn(
+        "inline-flex items-center justify-center rounded-full text-white font-semibold ring-2 ring-white dark:ring-gray-800",
+        size === "sm" ? "w-6 h-6 text-[10px]" : "w-8 h-8 text-xs",
+        colorFor(user.id),
+        className
+      )}
+    >
+      {initialsFor(user)}
+    </span>
+  );
+}
+
+interface AssigneeAvatarsProps {
+  users: User[];
+  max?: number;
+}
+
+// Overlapping avatar stack, e.g. for TaskCard
+export function AssigneeAvatars({ users, max = 3 }: AssigneeAvatarsProps) {
+  if (users.length === 0) return null;
+
+  const hidden = users.length - max;
+
+  return (
+    <div
+      className="flex -space-x-2"
+      title={`Assigned to ${users.map((user) => user.fullName).join(", ")}`}
+    >
+      {users.slice(0, max).map((user) => (
+        <UserAvatar key={user.id} user={user} />
+      ))}
+      {hidden > 0 && (
+        <span className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-gray-200 dark:bg-gray-600 text-[10px] font-semibold text-gray-600 dark:text-gray-300 ring-2 ring-white dark:ring-gray-800">
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface AssigneePickerProps {
+  users: User[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}
+
+export function AssigneePicker({
+  users,
+  selectedIds,
+  onChange,
+}: AssigneePickerProps) {
+  if (users.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No board members to assign yet
+      </p>
+    );
+  }
+
+  const toggle = (id: string) =>
+    onChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selected) => selected !== id)
+        : [...selectedIds, id]
+    );
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {users.map((user) => {
+        const selected = selectedIds.includes(user.id);
+        return (
+          <button
+            key={user.id}
+            type="button"
+            onClick={() => toggle(user.id)}
+            aria-pressed={selected}
+            className={cn(
+              "flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border text-sm transition-colors",
+              selected
+                ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300"
+                : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500"
+            )}
+            title={`@${getMentionHandle(user)}`}
+          >
+            <UserAvatar user={user} />
+            <span>{user.fullName}</span>
+            {selected && <Check className="w-3.5 h-3.5" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface MentionTextProps {
+  text: string;
+  users: User[];
+}
+
+// Text with @mentions of known users highlighted
+export function MentionText({ text, users }: MentionTextProps) {
+  const parts = text.split(/(@[a-z0-9._-]+)/gi);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        const handle = part.startsWith("@")
+          ? part.slice(1).replace(/\.+$/, "").toLowerCase()
+          : null;
+        const user = handle
+          ? users.find((u) => getMentionHandle(u) === handle)
+          : undefined;
+
+        if (!handle || !user) {
+          return <React.Fragment key={index}>{part}</React.Fragment>;
+        }
+
+        // Keep punctuation the mention pattern swallowed, e.g. "@demo."
+        const trailing = part.slice(handle.length + 1);
+        return (
+          <React.Fragment key={index}>
+            <span
+              className="px-1 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 font-medium"
+              title={user.fullName}
+            >
+              @{handle}
+            </span>
+            {trailing}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, Users, Check, X } from "lucide-react";
+import { Board, BoardRole } from "@/lib/types";
+
+interface BoardSwitcherProps {
+  boards: Board[];
+  activeBoard: Board | null;
+  role: BoardRole | null;
+  onSelect: (boardId: string) => void;
+  onCreate: (name: string) => Promise<void>;
+}
+
+const roleStyles: Record<BoardRole, string> = {
+  owner:
+    "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300",
+  editor: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  viewer: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300",
+};
+
+export function BoardSwitcher({
+  boards,
+  activeBoard,
+  role,
+  onSelect,
+  onCreate,
+}: BoardSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await onCreate(name.trim());
+      setName("");
+      setIsCreating(false);
+    } catch {
+      // The parent reports the error; keep the form open to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (isCreating) {
+    return (
+      <form onSubmit={handleCreate} className="flex items-center space-x-1">
+        <input
+          type="text"
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Board name"
+          disabled={saving}
+          className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        />
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="p-1.5 rounded-lg text-green-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          title="Create board"
+        >
+          <Check className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsCreating(false)}
+          className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          title="Cancel"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Users className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+      <select
+        value={activeBoard?.id ?? ""}
+        onChange={(e) => onSelect(e.target.value)}
+        className="border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1.5 bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+        title="Switch board"
+      >
+        {boards.length === 0 && <option value="">No boards yet</option>}
+        {boards.map((board) => (
+          <option key={board.id} value={board.id}>
+            {board.name} ({board.members.length})
+          </option>
+        ))}
+      </select>
+      {role && (
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${roleStyles[role]}`}
+        >
+          {role}
+        </span>
+      )}
+      <button
+        onClick={() => setIsCreating(true)}
+        className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        title="New board"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import React from "react";
+import { Trash2, X } from "lucide-react";
+import {
+  Label,
+  TaskPriority,
+  TaskStatus,
+  User,
+  WorkflowColumn,
+} from "@/lib/types";
+
+interface BulkActionBarProps {
+  count: number; // selected tasks
+  columns: WorkflowColumn[];
+  members?: User[];
+  labels?: Label[];
+  onMove: (status: TaskStatus) => void;
+  onSetPriority: (priority: TaskPriority) => void;
+  onAddLabel: (labelId: string) => void;
+  onAssign: (userId: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const selectClassName =
+  "border border-gray-300 dark:border-gray-600 rounded-lg px-2 py-1.5 text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none";
+
+// Actions for every selected card at once. Each picker resets after use, so
+// the same choice can be applied again to a different selection.
+export function BulkActionBar({
+  count,
+  columns,
+  members = [],
+  labels = [],
+  onMove,
+  onSetPriority,
+  onAddLabel,
+  onAssign,
+  onDelete,
+  onClear,
+}: BulkActionBarProps) {
+  if (count === 0) return null;
+
+  const picker = (
+    label: string,
+    options: Array<{ value: string; label: string }>,
+    onPick: (value: string) => void
+  ) => (
+    <select
+      value=""
+      onChange={(e) => e.target.value && onPick(e.target.value)}
+      disabled={options.length === 0}
+      aria-label={`${label} for ${count} selected task${
+        count !== 1 ? "s" : ""
+      }`}
+      className={selectClassName}
+    >
+      <option value="">{label}...</option>
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 flex flex-wrap items-center gap-2 px-4 py-3 bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700"
+    >
+      <span className="px-2 text-sm font-medium text-gray-900 dark:text-white">
+        {count} selected
+      </span>
+      {picker(
+        "Move to",
+        columns.map((column) => ({ value: column.id, label: column.name })),
+        onMove
+      )}
+      {picker(
+        "Priority",
+        [
+          { value: "high", label: "High" },
+          { value: "medium", label: "Medium" },
+          { value: "low", label: "Low" },
+        ],
+        (value) => onSetPriority(value as TaskPriority)
+      )}
+      {picker(
+        "Add label",
+        labels.map((label) => ({ value: label.id, label: label.name })),
+        onAddLabel
+      )}
+      {picker(
+        "Assign",
+        members.map((member) => ({ value: member.id, label: member.fullName })),
+        onAssign
+      )}
+      <button
+        onClick={onDelete}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+      >
+        <Trash2 className="w-4 h-4" />
+        Delete
+      </button>
+      <button
+        onClick={onClear}
+        className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        aria-label="Clear selection"
+        title="Clear selection (Esc)"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
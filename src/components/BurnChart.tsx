@@ -0,0 +1,293 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { TrendingDown } from "lucide-react";
+import {
+  Task,
+  Sprint,
+  WorkflowColumn,
+  BurnMetric,
+  BurnChartPoint,
+} from "@/lib/types";
+import { buildBurnChart, getSprintScope, toDateKey } from "@/lib/utils";
+
+type BurnChartType = "burndown" | "burnup";
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const PADDING = { top: 10, right: 8, bottom: 20, left: 28 };
+
+interface BurnChartProps {
+  points: BurnChartPoint[];
+  type: BurnChartType;
+  unit: string;
+}
+
+// Line chart of one burndown or burnup series against the ideal line
+export function BurnChart({ points, type, unit }: BurnChartProps) {
+  if (points.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Pick a range to chart
+      </p>
+    );
+  }
+
+  const max = Math.max(
+    1,
+    ...points.map((point) =>
+      Math.max(point.ideal, point.scope ?? 0, point.remaining ?? 0)
+    )
+  );
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (index: number) =>
+    PADDING.left +
+    (points.length > 1 ? (index / (points.length - 1)) * innerWidth : 0);
+  const y = (value: number) =>
+    PADDING.top + innerHeight - (value / max) * innerHeight;
+
+  // Days still to come have no values, so their lines stop at today
+  const path = (value: (point: BurnChartPoint) => number | null) =>
+    points
+      .map((point, index) => ({ value: value(point), index }))
+      .filter(
+        (entry): entry is { value: number; index: number } =>
+          entry.value !== null
+      )
+      .map(
+        ({ value: v, index }, i) =>
+          `${i === 0 ? "M" : "L"}${x(index).toFixed(1)},${y(v).toFixed(1)}`
+      )
+      .join(" ");
+
+  const series =
+    type === "burndown"
+      ? [
+          {
+            label: `Remaining ${unit}`,
+            d: path((p) => p.remaining),
+            className: "stroke-blue-500",
+            swatch: "bg-blue-500",
+          },
+        ]
+      : [
+          {
+            label: `Scope ${unit}`,
+            d: path((p) => p.scope),
+            className: "stroke-purple-500",
+            swatch: "bg-purple-500",
+          },
+          {
+            label: `Completed ${unit}`,
+            d: path((p) => p.completed),
+            className: "stroke-green-500",
+            swatch: "bg-green-500",
+          },
+        ];
+
+  // Burnup's ideal line climbs towards the starting scope instead
+  const initial = points[0].ideal;
+  const idealPath = path((p) =>
+    type === "burndown" ? p.ideal : initial - p.ideal
+  );
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`${type === "burndown" ? "Burndown" : "Burnup"} chart`}
+      >
+        {[0, 0.5, 1].map((fraction) => (
+          <g key={fraction}>
+            <line
+              x1={PADDING.left}
+              x2={CHART_WIDTH - PADDING.right}
+              y1={y(max * fraction)}
+              y2={y(max * fraction)}
+              className="stroke-gray-200 dark:stroke-gray-700"
+              strokeWidth={1}
+            />
+            <text
+              x={PADDING.left - 4}
+              y={y(max * fraction) + 3}
+              textAnchor="end"
+              className="fill-gray-500 dark:fill-gray-400"
+              fontSize={9}
+            >
+              {Math.round(max * fraction * 10) / 10}
+            </text>
+          </g>
+        ))}
+        <path
+          d={idealPath}
+          fill="none"
+          className="stroke-gray-400"
+          strokeWidth={1.5}
+          strokeDasharray="4 3"
+        />
+        {series.map((line) => (
+          <path
+            key={line.label}
+            d={line.d}
+            fill="none"
+            className={line.className}
+            strokeWidth={2}
+            strokeLinejoin="round"
+          />
+        ))}
+        <text
+          x={PADDING.left}
+          y={CHART_HEIGHT - 4}
+          className="fill-gray-500 dark:fill-gray-400"
+          fontSize={9}
+        >
+          {points[0].date.slice(5)}
+        </text>
+        <text
+          x={CHART_WIDTH - PADDING.right}
+          y={CHART_HEIGHT - 4}
+          textAnchor="end"
+          className="fill-gray-500 dark:fill-gray-400"
+          fontSize={9}
+        >
+          {points[points.length - 1].date.slice(5)}
+        </text>
+      </svg>
+      <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-600 dark:text-gray-400">
+        <span className="flex items-center gap-1">
+          <span className="w-3 border-t-2 border-dashed border-gray-400" />
+          Ideal
+        </span>
+        {series.map((line) => (
+          <span key={line.label} className="flex items-center gap-1">
+            <span className={`w-3 h-0.5 ${line.swatch}`} />
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface SprintProgressPanelProps {
+  tasks: Task[];
+  sprints: Sprint[];
+  columns: WorkflowColumn[];
+}
+
+// Burndown / burnup for a sprint or any date range
+export function SprintProgressPanel({
+  tasks,
+  sprints,
+  columns,
+}: SprintProgressPanelProps) {
+  const defaultSprint =
+    sprints.find((sprint) => sprint.state === "active") ||
+    sprints[sprints.length - 1];
+  const [source, setSource] = useState<string>(defaultSprint?.id ?? "range");
+  const [range, setRange] = useState(() => {
+    const start = new Date();
+    start.setDate(start.getDate() - 13);
+    return { startDate: toDateKey(start), endDate: toDateKey(new Date()) };
+  });
+  const [metric, setMetric] = useState<BurnMetric>("count");
+  const [type, setType] = useState<BurnChartType>("burndown");
+
+  const sprint = sprints.find((s) => s.id === source);
+
+  const points = useMemo(
+    () =>
+      buildBurnChart(
+        sprint ? getSprintScope(sprint, tasks) : tasks,
+        columns,
+        sprint
+          ? { startDate: sprint.startDate, endDate: sprint.endDate }
+          : range,
+        { metric, committedTaskIds: sprint?.committedTaskIds }
+      ),
+    [sprint, tasks, columns, range, metric]
+  );
+
+  const latest = [...points].reverse().find((point) => point.scope !== null);
+  const unit = metric === "hours" ? "hours" : "tasks";
+
+  return (
+    <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-lg p-4 border border-gray-200/50 dark:border-gray-700/50">
+      <h4 className="font-medium text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+        <TrendingDown className="w-4 h-4" />
+        Sprint Progress
+      </h4>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          className="col-span-2 text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+          aria-label="Chart a sprint or a date range"
+        >
+          {sprints.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+              {s.state === "active" ? " (active)" : ""}
+            </option>
+          ))}
+          <option value="range">Custom date range</option>
+        </select>
+        {!sprint && (
+          <>
+            <input
+              type="date"
+              value={range.startDate}
+              max={range.endDate}
+              onChange={(e) =>
+                setRange((prev) => ({ ...prev, startDate: e.target.value }))
+              }
+              className="text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+              aria-label="From"
+            />
+            <input
+              type="date"
+              value={range.endDate}
+              min={range.startDate}
+              onChange={(e) =>
+                setRange((prev) => ({ ...prev, endDate: e.target.value }))
+              }
+              className="text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+              aria-label="To"
+            />
+          </>
+        )}
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as BurnChartType)}
+          className="text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+          aria-label="Chart type"
+        >
+          <option value="burndown">Burndown</option>
+          <option value="burnup">Burnup</option>
+        </select>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as BurnMetric)}
+          className="text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+          aria-label="Measure"
+        >
+          <option value="count">Task count</option>
+          <option value="hours">Estimated hours</option>
+        </select>
+      </div>
+
+      <BurnChart points={points} type={type} unit={unit} />
+
+      {latest && (
+        <div className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+          {latest.completed} of {latest.scope} {unit} done · {latest.remaining}{" "}
+          remaining, ideal {latest.ideal}
+        </div>
+      )}
+    </div>
+  );
+}
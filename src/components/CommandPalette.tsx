@@ -0,0 +1,388 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Command as CommandIcon, Keyboard, X } from "lucide-react";
+import { Command, Shortcut } from "@/lib/types";
+import {
+  eventToShortcut,
+  formatShortcut,
+  getShortcut,
+  rankCommands,
+} from "@/lib/commands";
+import { cn } from "@/lib/utils";
+
+function ShortcutKeys({ shortcut }: { shortcut: Shortcut }) {
+  return (
+    <kbd className="px-1.5 py-0.5 text-xs font-mono text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
+      {formatShortcut(shortcut)}
+    </kbd>
+  );
+}
+
+// A title with the letters a fuzzy search matched in bold
+function MatchedTitle({
+  title,
+  indices,
+}: {
+  title: string;
+  indices: number[];
+}) {
+  if (indices.length === 0) return <>{title}</>;
+  return (
+    <>
+      {Array.from(title).map((char, index) =>
+        indices.includes(index) ? (
+          <strong
+            key={index}
+            className="font-semibold text-blue-600 dark:text-blue-400"
+          >
+            {char}
+          </strong>
+        ) : (
+          char
+        )
+      )}
+    </>
+  );
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: Command[];
+  overrides: Record<string, Shortcut | null>;
+  recentIds: string[];
+  onRun: (command: Command) => void;
+}
+
+// Search every board action by name and run it from the keyboard
+export function CommandPalette(props: CommandPaletteProps) {
+  // Mounted only while open, so every opening starts from a blank search
+  return props.isOpen ? <CommandPalettePanel {...props} /> : null;
+}
+
+function CommandPalettePanel({
+  onClose,
+  commands,
+  overrides,
+  recentIds,
+  onRun,
+}: CommandPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Recent commands lead the list until something is typed
+  const recent = recentIds.flatMap((id) => {
+    const command = commands.find((c) => c.id === id);
+    return command ? [command] : [];
+  });
+  const entries: Array<{
+    command: Command;
+    indices: number[];
+    section?: string; // heading shown above the entry
+  }> = query.trim()
+    ? rankCommands(commands, query)
+    : [
+        ...recent.map((command, index) => ({
+          command,
+          indices: [],
+          section: index === 0 ? "Recent" : undefined,
+        })),
+        ...commands
+          .filter((command) => !recent.includes(command))
+          .map((command, index, rest) => ({
+            command,
+            indices: [],
+            section:
+              index === 0 || rest[index - 1].group !== command.group
+                ? command.group
+                : undefined,
+          })),
+      ];
+  const active = Math.min(activeIndex, entries.length - 1);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${active}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const run = (command: Command) => {
+    if (command.disabled) return;
+    onClose();
+    onRun(command);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (entries.length === 0) {
+      return;
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((active + step + entries.length) % entries.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(entries[active].command);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-24 px-4 bg-black/20 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+          <CommandIcon className="w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command..."
+            role="combobox"
+            aria-expanded={entries.length > 0}
+            aria-controls="command-palette-results"
+            aria-activedescendant={
+              entries.length > 0 ? `command-palette-${active}` : undefined
+            }
+            className="flex-1 py-3 bg-transparent text-gray-900 dark:text-white outline-none"
+          />
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No commands match &quot;{query.trim()}&quot;
+          </p>
+        ) : (
+          <ul
+            ref={listRef}
+            id="command-palette-results"
+            role="listbox"
+            className="max-h-96 overflow-y-auto py-2"
+          >
+            {entries.map(({ command, indices, section }, index) => {
+              const shortcut = getShortcut(command, overrides);
+              return (
+                <React.Fragment key={`${section ?? ""}${command.id}`}>
+                  {section && (
+                    <li
+                      role="presentation"
+                      className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-400"
+                    >
+                      {section}
+                    </li>
+                  )}
+                  <li
+                    id={`command-palette-${index}`}
+                    data-index={index}
+                    role="option"
+                    aria-selected={index === active}
+                    aria-disabled={command.disabled}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      run(command);
+                    }}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={cn(
+                      "flex items-center justify-between gap-3 px-4 py-2 text-sm",
+                      command.disabled
+                        ? "text-gray-400 dark:text-gray-500 cursor-default"
+                        : "text-gray-900 dark:text-white cursor-pointer",
+                      index === active && "bg-blue-50 dark:bg-blue-900/30"
+                    )}
+                  >
+                    <span className="truncate">
+                      <MatchedTitle title={command.title} indices={indices} />
+                      {query.trim() && (
+                        <span className="ml-2 text-xs text-gray-400">
+                          {command.group}
+                        </span>
+                      )}
+                    </span>
+                    {shortcut && <ShortcutKeys shortcut={shortcut} />}
+                  </li>
+                </React.Fragment>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ShortcutSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: Command[];
+  overrides: Record<string, Shortcut | null>;
+  onChange: (changes: Record<string, Shortcut | null>) => void;
+  onReset: () => void;
+}
+
+// Rebind any command's shortcut by pressing the new keys
+export function ShortcutSettingsModal({
+  isOpen,
+  onClose,
+  commands,
+  overrides,
+  onChange,
+  onReset,
+}: ShortcutSettingsModalProps) {
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Capture the next key press before anything else on the page sees it
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === "Escape") {
+        setRecordingId(null);
+        return;
+      }
+
+      const shortcut = eventToShortcut(event);
+      if (!shortcut) return;
+
+      // A shortcut runs one command, so it moves from wherever it was
+      const taken = commands.find(
+        (c) => c.id !== recordingId && getShortcut(c, overrides) === shortcut
+      );
+      onChange({
+        [recordingId]: shortcut,
+        ...(taken ? { [taken.id]: null } : {}),
+      });
+      setNotice(
+        taken
+          ? `${formatShortcut(shortcut)} was removed from "${taken.title}"`
+          : null
+      );
+      setRecordingId(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recordingId, commands, overrides, onChange]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-settings-title"
+        className="w-full max-w-lg max-h-[80vh] flex flex-col bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2
+            id="shortcut-settings-title"
+            className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white"
+          >
+            <Keyboard className="w-5 h-5" />
+            Keyboard Shortcuts
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {notice && (
+          <p className="mx-6 mt-4 px-3 py-2 text-sm rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300">
+            {notice}
+          </p>
+        )}
+
+        <ul className="flex-1 overflow-y-auto px-6 py-4 space-y-1">
+          {commands.map((command) => {
+            const shortcut = getShortcut(command, overrides);
+            const isRecording = recordingId === command.id;
+            return (
+              <li
+                key={command.id}
+                className="flex items-center justify-between gap-3 py-1"
+              >
+                <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                  {command.title}
+                </span>
+                <span className="flex items-center gap-2 flex-shrink-0">
+                  {isRecording ? (
+                    <span className="text-xs text-blue-600 dark:text-blue-400">
+                      Press keys... (Esc to cancel)
+                    </span>
+                  ) : shortcut ? (
+                    <ShortcutKeys shortcut={shortcut} />
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setNotice(null);
+                      setRecordingId(isRecording ? null : command.id);
+                    }}
+                    className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                  >
+                    {shortcut ? "Change" : "Set"}
+                  </button>
+                  {shortcut && !isRecording && (
+                    <button
+                      type="button"
+                      onClick={() => onChange({ [command.id]: null })}
+                      className="p-1 text-gray-400 hover:text-red-500 rounded"
+                      aria-label={`Remove shortcut for ${command.title}`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-between px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            type="button"
+            onClick={() => {
+              onReset();
+              setNotice(null);
+            }}
+            className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Reset to defaults
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useState } from "react";
+import { MessageSquare, Reply, Edit3, Trash2 } from "lucide-react";
+import { Comment, CreateCommentInput, User } from "@/lib/types";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { UserAvatar } from "./Assignees";
+import { MarkdownText } from "./Markdown";
+
+// Deeper replies still nest, they just stop indenting
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentFormProps {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+function CommentForm({
+  initialBody = "",
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: CommentFormProps) {
+  const [body, setBody] = useState(initialBody);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim() || saving) return;
+
+    setSaving(true);
+    try {
+      await onSubmit(body);
+      setBody("");
+      onCancel?.();
+    } catch {
+      // The parent reports the error; keep the text to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            handleSubmit(e);
+          }
+        }}
+        placeholder={placeholder}
+        rows={3}
+        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        aria-label={placeholder}
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400">
+          Markdown and @mentions supported
+        </span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!body.trim() || saving}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50"
+          >
+            {saving ? "Saving..." : submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+interface TaskCommentsProps {
+  taskId: string;
+  comments: Comment[]; // may include other tasks' comments
+  members: User[];
+  currentUserId?: string;
+  canModerate?: boolean; // board owners can remove anyone's comment
+  onCreate: (input: CreateCommentInput) => Promise<Comment>;
+  onUpdate: (id: string, body: string) => Promise<Comment>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+// A task's discussion, threaded by reply
+export function TaskComments({
+  taskId,
+  comments,
+  members,
+  currentUserId,
+  canModerate = false,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: TaskCommentsProps) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const taskComments = comments.filter((comment) => comment.taskId === taskId);
+  const repliesTo = (parentId: string | null) =>
+    taskComments.filter((comment) => comment.parentId === parentId);
+  const count = taskComments.filter((comment) => !comment.deletedAt).length;
+
+  const renderComment = (comment: Comment, depth: number): React.ReactNode => {
+    const author = members.find((member) => member.id === comment.authorId);
+    const isAuthor = comment.authorId === currentUserId;
+
+    return (
+      <li key={comment.id}>
+        <div className="flex gap-3">
+          {author ? (
+            <UserAvatar user={author} size="md" />
+          ) : (
+            <span className="inline-flex w-8 h-8 flex-shrink-0 rounded-full bg-gray-300 dark:bg-gray-600" />
+          )}
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+              <span className="font-medium text-gray-900 dark:text-white">
+                {author?.fullName ?? "Former member"}
+              </span>
+              <time
+                dateTime={comment.createdAt}
+                title={new Date(comment.createdAt).toLocaleString()}
+                className="text-xs text-gray-500 dark:text-gray-400"
+              >
+                {formatRelativeTime(comment.createdAt)}
+              </time>
+              {comment.editedAt && !comment.deletedAt && (
+                <span
+                  className="text-xs text-gray-400"
+                  title={`Edited ${new Date(
+                    comment.editedAt
+                  ).toLocaleString()}`}
+                >
+                  (edited)
+                </span>
+              )}
+            </div>
+
+            {comment.deletedAt ? (
+              <p className="mt-1 text-sm italic text-gray-400">
+                This comment was deleted
+              </p>
+            ) : editingId === comment.id ? (
+              <div className="mt-1">
+                <CommentForm
+                  initialBody={comment.body}
+                  placeholder="Edit comment"
+                  submitLabel="Save"
+                  onSubmit={(body) => onUpdate(comment.id, body)}
+                  onCancel={() => setEditingId(null)}
+                />
+              </div>
+            ) : (
+              <div className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                <MarkdownText text={comment.body} users={members} />
+              </div>
+            )}
+
+            {!comment.deletedAt && editingId !== comment.id && (
+              <div className="mt-1 flex gap-3 text-xs text-gray-500 dark:text-gray-400">
+                <button
+                  onClick={() => setReplyingTo(comment.id)}
+                  className="flex items-center gap-1 hover:text-blue-600"
+                >
+                  <Reply className="w-3 h-3" />
+                  Reply
+                </button>
+                {isAuthor && (
+                  <button
+                    onClick={() => setEditingId(comment.id)}
+                    className="flex items-center gap-1 hover:text-blue-600"
+                  >
+                    <Edit3 className="w-3 h-3" />
+                    Edit
+                  </button>
+                )}
+                {(isAuthor || canModerate) && (
+                  <button
+                    onClick={() => {
+                      if (window.confirm("Delete this comment?")) {
+                        onDelete(comment.id).catch(() => {
+                          // Reported by the parent
+                        });
+                      }
+                    }}
+                    className="flex items-center gap-1 hover:text-red-600"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
+
+            {replyingTo === comment.id && (
+              <div className="mt-2">
+                <CommentForm
+                  placeholder={`Reply to ${author?.fullName ?? "comment"}`}
+                  submitLabel="Reply"
+                  onSubmit={(body) =>
+                    onCreate({ taskId, body, parentId: comment.id })
+                  }
+                  onCancel={() => setReplyingTo(null)}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {repliesTo(comment.id).length > 0 && (
+          <ul
+            className={cn(
+              "mt-3 space-y-3",
+              depth < MAX_INDENT_DEPTH &&
+                "ml-4 pl-4 border-l border-gray-200 dark:border-gray-700"
+            )}
+          >
+            {repliesTo(comment.id).map((reply) =>
+              renderComment(reply, depth + 1)
+            )}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3 flex items-center gap-2">
+        <MessageSquare className="w-4 h-4" />
+        Comments {count > 0 && `(${count})`}
+      </label>
+      {taskComments.length > 0 && (
+        <ul className="space-y-4 mb-4">
+          {repliesTo(null).map((comment) => renderComment(comment, 0))}
+        </ul>
+      )}
+      <CommentForm
+        placeholder="Add a comment"
+        submitLabel="Comment"
+        onSubmit={(body) => onCreate({ taskId, body })}
+      />
+    </div>
+  );
+}
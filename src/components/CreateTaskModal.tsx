@@ -1,28 +1,48 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { X, Plus, AlertCircle, CheckCircle } from "lucide-react";
-import { CreateTaskInput, TaskPriority } from "@/lib/types";
+import {
+  ColumnColor,
+  CreateTaskInput,
+  Label,
+  TaskPriority,
+  User,
+} from "@/lib/types";
+import { parseMentions } from "@/lib/utils";
+import { AssigneePicker } from "./Assignees";
+import { LabelPicker } from "./Labels";
+import { useFocusTrap } from "@/hooks/useFocusTrap";
 
 interface CreateTaskModalProps {
   isOpen: boolean;
   onClose: () => void;
   onCreate: (task: CreateTaskInput) => void;
+  members?: User[]; // people the task can be assigned to
+  labels?: Label[]; // the board's labels
+  onCreateLabel?: (name: string, color: ColumnColor) => Promise<Label>;
 }
 
 export function CreateTaskModal({
   isOpen,
   onClose,
   onCreate,
+  members = [],
+  labels = [],
+  onCreateLabel,
 }: CreateTaskModalProps) {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [priority, setPriority] = useState<TaskPriority>("medium");
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
   const [isAnimating, setIsAnimating] = useState(false);
   const [errors, setErrors] = useState<{
     title?: string;
     description?: string;
   }>({});
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, isOpen);
 
   // Handle modal animations
   useEffect(() => {
@@ -64,16 +84,23 @@ export function CreateTaskModal({
     }
 
     if (title.trim()) {
+      // Anyone @mentioned in the description is assigned too
+      const mentionedIds = parseMentions(description, members);
+
       onCreate({
         title: title.trim(),
         description: description.trim(),
         priority,
+        assigneeIds: Array.from(new Set([...assigneeIds, ...mentionedIds])),
+        labelIds,
       });
 
       // Reset form
       setTitle("");
       setDescription("");
       setPriority("medium");
+      setAssigneeIds([]);
+      setLabelIds([]);
       setErrors({});
 
       // Close modal with animation
@@ -92,6 +119,8 @@ export function CreateTaskModal({
       setTitle("");
       setDescription("");
       setPriority("medium");
+      setAssigneeIds([]);
+      setLabelIds([]);
       setErrors({});
     }, 200);
   };
@@ -144,8 +173,13 @@ export function CreateTaskModal({
       onClick={(e) => e.target === e.currentTarget && handleClose()}
     >
       <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="create-task-title"
+        tabIndex={-1}
         className={`
-          bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-lg w-full
+          bg-white dark:bg-gray-800 rounded-2xl shadow-2xl max-w-lg w-full outline-none
           border border-gray-200/50 dark:border-gray-700/50
           transform transition-all duration-300 ease-out
           ${
@@ -162,7 +196,10 @@ export function CreateTaskModal({
               <Plus className="w-5 h-5 text-white" />
             </div>
             <div>
-              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              <h2
+                id="create-task-title"
+                className="text-xl font-bold text-gray-900 dark:text-white"
+              >
                 Create New Task
               </h2>
               <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -172,6 +209,7 @@ export function CreateTaskModal({
           </div>
           <button
             onClick={handleClose}
+            aria-label="Close"
             className="p-2 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
           >
             <X className="w-5 h-5" />
@@ -267,7 +305,7 @@ export function CreateTaskModal({
                   }
                 `}
                 rows={4}
-                placeholder="Describe your task (optional)..."
+                placeholder="Describe your task (optional) - @mention teammates to assign them..."
                 maxLength={500}
               />
               {errors.description && (
@@ -350,6 +388,31 @@ export function CreateTaskModal({
             </div>
           </div>
 
+          {/* Assignees Field */}
+          <div>
+            <label className="block text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+              Assignees
+            </label>
+            <AssigneePicker
+              users={members}
+              selectedIds={assigneeIds}
+              onChange={setAssigneeIds}
+            />
+          </div>
+
+          {/* Labels Field */}
+          <div>
+            <label className="block text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+              Labels
+            </label>
+            <LabelPicker
+              labels={labels}
+              selectedIds={labelIds}
+              onChange={setLabelIds}
+              onCreate={onCreateLabel}
+            />
+          </div>
+
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4">
             <button
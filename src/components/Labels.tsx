@@ -0,0 +1,571 @@
+"use client";
+
+import React, { useState } from "react";
+import { createPortal } from "react-dom";
+import { X, Save, Plus, Trash2, Tag, Check, ChevronDown } from "lucide-react";
+import { ColumnColor, Label } from "@/lib/types";
+import { cn, columnColorConfig, generateId } from "@/lib/utils";
+
+const labelColors = Object.keys(columnColorConfig) as ColumnColor[];
+
+// New labels take the colours in turn so neighbours differ
+const nextLabelColor = (labels: Label[]): ColumnColor =>
+  labelColors[labels.length % labelColors.length];
+
+const findByName = (labels: Label[], name: string) =>
+  labels.find(
+    (label) => label.name.trim().toLowerCase() === name.trim().toLowerCase()
+  );
+
+interface LabelChipsProps {
+  labels: Label[];
+  max?: number; // the rest collapse into a "+n" chip
+  className?: string;
+}
+
+export function LabelChips({ labels, max, className }: LabelChipsProps) {
+  if (labels.length === 0) return null;
+
+  const shown = max ? labels.slice(0, max) : labels;
+  const hidden = labels.slice(shown.length);
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {shown.map((label) => (
+        <span
+          key={label.id}
+          className={cn(
+            "px-2 py-0.5 text-xs font-medium rounded-full",
+            columnColorConfig[label.color].badge
+          )}
+        >
+          {label.name}
+        </span>
+      ))}
+      {hidden.length > 0 && (
+        <span
+          className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
+          title={hidden.map((label) => label.name).join(", ")}
+        >
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface LabelPickerProps {
+  labels: Label[]; // the board's labels
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  // Adds a label to the board; omitted when the user can't
+  onCreate?: (name: string, color: ColumnColor) => Promise<Label>;
+}
+
+export function LabelPicker({
+  labels,
+  selectedIds,
+  onChange,
+  onCreate,
+}: LabelPickerProps) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<ColumnColor>(nextLabelColor(labels));
+  const [saving, setSaving] = useState(false);
+
+  const toggle = (id: string) =>
+    onChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selected) => selected !== id)
+        : [...selectedIds, id]
+    );
+
+  const addLabel = async () => {
+    if (!name.trim() || !onCreate || saving) return;
+
+    // Typing an existing name just picks that label
+    const existing = findByName(labels, name);
+    if (existing) {
+      if (!selectedIds.includes(existing.id)) {
+        onChange([...selectedIds, existing.id]);
+      }
+      setName("");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const label = await onCreate(name.trim(), color);
+      onChange([...selectedIds, label.id]);
+      setName("");
+      setColor(nextLabelColor([...labels, label]));
+    } catch {
+      // The parent reports the error; keep the name to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {labels.length === 0 && !onCreate && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          This board has no labels yet
+        </p>
+      )}
+      {labels.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {labels.map((label) => {
+            const selected = selectedIds.includes(label.id);
+            return (
+              <button
+                key={label.id}
+                type="button"
+                onClick={() => toggle(label.id)}
+                aria-pressed={selected}
+                className={cn(
+                  "flex items-center gap-1.5 px-3 py-1 rounded-full border text-sm transition-colors",
+                  selected
+                    ? cn(
+                        "border-transparent",
+                        columnColorConfig[label.color].badge
+                      )
+                    : "border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500"
+                )}
+              >
+                <span
+                  className={cn(
+                    "w-2 h-2 rounded-full",
+                    columnColorConfig[label.color].swatch
+                  )}
+                />
+                {label.name}
+                {selected && <Check className="w-3.5 h-3.5" />}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {onCreate && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter adds the label instead of submitting the surrounding form
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addLabel();
+              }
+            }}
+            placeholder="New label"
+            maxLength={30}
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+            aria-label="New label name"
+          />
+          <select
+            value={color}
+            onChange={(e) => setColor(e.target.value as ColumnColor)}
+            className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white capitalize outline-none"
+            aria-label="New label colour"
+          >
+            {labelColors.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addLabel}
+            disabled={!name.trim() || saving}
+            className="px-2 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg disabled:opacity-50"
+            aria-label="Add label"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface LabelFilterProps {
+  labels: Label[];
+  selectedIds: string[];
+  match: "any" | "all";
+  onChange: (ids: string[]) => void;
+  onMatchChange: (match: "any" | "all") => void;
+}
+
+// Board filter for tasks with any, or all, of the chosen labels
+export function LabelFilter({
+  labels,
+  selectedIds,
+  match,
+  onChange,
+  onMatchChange,
+}: LabelFilterProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = (id: string) =>
+    onChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selected) => selected !== id)
+        : [...selectedIds, id]
+    );
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={labels.length === 0}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:opacity-50"
+        title={labels.length === 0 ? "This board has no labels yet" : undefined}
+      >
+        <Tag className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        {selectedIds.length > 0
+          ? `Labels (${selectedIds.length})`
+          : "All labels"}
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="absolute right-0 z-50 mt-2 w-56 p-3 space-y-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+            <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-0.5 text-xs">
+              {(["any", "all"] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => onMatchChange(option)}
+                  aria-pressed={match === option}
+                  className={cn(
+                    "flex-1 px-2 py-1 rounded-md transition-colors",
+                    match === option
+                      ? "bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm"
+                      : "text-gray-500 dark:text-gray-400"
+                  )}
+                >
+                  {option === "any" ? "Any of" : "All of"}
+                </button>
+              ))}
+            </div>
+            {labels.map((label) => (
+              <label
+                key={label.id}
+                className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(label.id)}
+                  onChange={() => toggle(label.id)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span
+                  className={cn(
+                    "w-2 h-2 rounded-full",
+                    columnColorConfig[label.color].swatch
+                  )}
+                />
+                {label.name}
+              </label>
+            ))}
+            {selectedIds.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onChange([])}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface LabelSettingsModalProps {
+  labels: Label[];
+  taskCounts: Record<string, number>; // tasks per label
+  isOpen: boolean;
+  onClose: () => void;
+  // The new label list, and which removed labels were merged into which
+  onSave: (labels: Label[], merges: Record<string, string>) => Promise<void>;
+}
+
+export function LabelSettingsModal({
+  labels,
+  taskCounts,
+  isOpen,
+  onClose,
+  onSave,
+}: LabelSettingsModalProps) {
+  const [draft, setDraft] = useState<Label[]>(labels);
+  const [merges, setMerges] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  // Tasks a label will have once pending merges are applied
+  const countFor = (id: string) =>
+    (taskCounts[id] || 0) +
+    Object.entries(merges)
+      .filter(([, target]) => target === id)
+      .reduce((sum, [source]) => sum + (taskCounts[source] || 0), 0);
+
+  const updateLabel = (id: string, changes: Partial<Label>) => {
+    setDraft((prev) =>
+      prev.map((label) => (label.id === id ? { ...label, ...changes } : label))
+    );
+    setError(null);
+  };
+
+  const removeLabel = (id: string) => {
+    setDraft((prev) => prev.filter((label) => label.id !== id));
+    // Anything merged into it goes with it
+    setMerges((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([, target]) => target !== id)
+      )
+    );
+  };
+
+  const mergeLabel = (sourceId: string, targetId: string) => {
+    setDraft((prev) => prev.filter((label) => label.id !== sourceId));
+    setMerges((prev) => ({
+      ...Object.fromEntries(
+        Object.entries(prev).map(([source, target]) => [
+          source,
+          target === sourceId ? targetId : target,
+        ])
+      ),
+      [sourceId]: targetId,
+    }));
+  };
+
+  const addLabel = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    if (findByName(draft, name)) {
+      setError(`There's already a label called "${name}"`);
+      return;
+    }
+
+    setDraft((prev) => [
+      ...prev,
+      { id: generateId(), name, color: nextLabelColor(prev) },
+    ]);
+    setNewName("");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const names = draft.map((label) => label.name.trim().toLowerCase());
+    if (names.some((name) => !name)) {
+      setError("Every label needs a name");
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      setError("Label names must be unique");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(
+        draft.map((label) => ({ ...label, name: label.name.trim() })),
+        merges
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save labels");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Only labels already on the board can take over another's tasks
+  const mergeTargets = draft.filter((label) =>
+    labels.some((saved) => saved.id === label.id)
+  );
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[9999] overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <Tag className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Labels
+              </h2>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-3">
+            {draft.length === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No labels yet - add one below.
+              </p>
+            )}
+            {draft.map((label) => {
+              const taskCount = countFor(label.id);
+              const targets = mergeTargets.filter(
+                (target) => target.id !== label.id
+              );
+              return (
+                <div
+                  key={label.id}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                >
+                  <span
+                    className={cn(
+                      "w-3 h-3 rounded-full flex-shrink-0",
+                      columnColorConfig[label.color].swatch
+                    )}
+                  />
+                  <input
+                    type="text"
+                    value={label.name}
+                    onChange={(e) =>
+                      updateLabel(label.id, { name: e.target.value })
+                    }
+                    maxLength={30}
+                    className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    aria-label="Label name"
+                  />
+                  <select
+                    value={label.color}
+                    onChange={(e) =>
+                      updateLabel(label.id, {
+                        color: e.target.value as ColumnColor,
+                      })
+                    }
+                    className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white capitalize outline-none"
+                    aria-label="Label colour"
+                  >
+                    {labelColors.map((color) => (
+                      <option key={color} value={color}>
+                        {color}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="w-16 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {taskCount} task{taskCount !== 1 ? "s" : ""}
+                  </span>
+                  <select
+                    value=""
+                    onChange={(e) =>
+                      e.target.value && mergeLabel(label.id, e.target.value)
+                    }
+                    disabled={targets.length === 0}
+                    className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white outline-none disabled:opacity-50"
+                    aria-label={`Merge ${label.name} into another label`}
+                  >
+                    <option value="">Merge into...</option>
+                    {targets.map((target) => (
+                      <option key={target.id} value={target.id}>
+                        {target.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => removeLabel(label.id)}
+                    className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                    title={
+                      taskCount > 0
+                        ? `Delete and remove from ${taskCount} task${
+                            taskCount !== 1 ? "s" : ""
+                          }`
+                        : "Delete label"
+                    }
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+
+            <form onSubmit={addLabel} className="flex items-center gap-2 pt-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New label, e.g. Bug"
+                maxLength={30}
+                className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm transition-colors flex items-center gap-1 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </form>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Renaming or recolouring a label changes it on every task. Merging
+              moves a label&apos;s tasks onto another label, and deleting one
+              takes it off its tasks. Nothing changes until you save.
+            </p>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? "Saving..." : "Save Labels"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import React from "react";
+import { User } from "@/lib/types";
+import { MentionText } from "./Assignees";
+
+/**
+ * The small subset of markdown people use in comments: paragraphs, headings,
+ * lists, quotes, code, bold, italics and links. Everything is rendered as
+ * React elements, never as HTML, so comment text can't inject markup.
+ */
+
+type Block =
+  | { type: "paragraph" | "quote"; lines: string[] }
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; text: string };
+
+const LIST_ITEM = /^\s*(?:[-*]|(\d+)\.)\s+(.*)$/;
+const INLINE =
+  /(`[^`]+`|\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\((?:https?:\/\/|mailto:)[^\s)]+\))/;
+
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim().startsWith("```")) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith("```")) {
+        code.push(lines[index++]);
+      }
+      index++; // closing fence
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        text: heading[2],
+      });
+      index++;
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = !!item[1];
+      const items: string[] = [];
+      let next = lines[index]?.match(LIST_ITEM);
+      while (next && !!next[1] === ordered) {
+        items.push(next[2]);
+        next = lines[++index]?.match(LIST_ITEM);
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    const type = line.startsWith(">") ? "quote" : "paragraph";
+    const text: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      (type === "quote") === lines[index].startsWith(">") &&
+      !LIST_ITEM.test(lines[index]) &&
+      !lines[index].trim().startsWith("```")
+    ) {
+      text.push(
+        type === "quote" ? lines[index].replace(/^>\s?/, "") : lines[index]
+      );
+      index++;
+    }
+    blocks.push({ type, lines: text });
+  }
+
+  return blocks;
+}
+
+function renderInline(text: string, users: User[]): React.ReactNode[] {
+  return text
+    .split(INLINE)
+    .filter(Boolean)
+    .map((part, index) => {
+      if (/^`[^`]+`$/.test(part)) {
+        return (
+          <code
+            key={index}
+            className="px-1 rounded bg-gray-100 dark:bg-gray-700 text-[0.9em] font-mono"
+          >
+            {part.slice(1, -1)}
+          </code>
+        );
+      }
+      if (/^(\*\*|__).+\1$/.test(part)) {
+        return (
+          <strong key={index}>{renderInline(part.slice(2, -2), users)}</strong>
+        );
+      }
+      if (/^([*_]).+\1$/.test(part)) {
+        return <em key={index}>{renderInline(part.slice(1, -1), users)}</em>;
+      }
+
+      const link = part.match(/^\[([^\]]+)\]\(([^\s)]+)\)$/);
+      if (link) {
+        return (
+          <a
+            key={index}
+            href={link[2]}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 dark:text-blue-400 underline"
+          >
+            {link[1]}
+          </a>
+        );
+      }
+
+      return <MentionText key={index} text={part} users={users} />;
+    });
+}
+
+interface MarkdownTextProps {
+  text: string;
+  users?: User[]; // resolves @mentions
+}
+
+export function MarkdownText({ text, users = [] }: MarkdownTextProps) {
+  return (
+    <div className="space-y-2 break-words">
+      {parseBlocks(text).map((block, index) => {
+        switch (block.type) {
+          case "code":
+            return (
+              <pre
+                key={index}
+                className="p-2 rounded bg-gray-100 dark:bg-gray-900 text-xs font-mono overflow-x-auto"
+              >
+                {block.text}
+              </pre>
+            );
+          case "heading":
+            return (
+              <p
+                key={index}
+                className={
+                  block.level === 1
+                    ? "text-base font-bold"
+                    : "text-sm font-semibold"
+                }
+              >
+                {renderInline(block.text, users)}
+              </p>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List
+                key={index}
+                className={`pl-5 space-y-0.5 ${
+                  block.ordered ? "list-decimal" : "list-disc"
+                }`}
+              >
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item, users)}</li>
+                ))}
+              </List>
+            );
+          }
+          case "quote":
+          case "paragraph": {
+            const content = block.lines.map((line, lineIndex) => (
+              <React.Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line, users)}
+              </React.Fragment>
+            ));
+            return block.type === "quote" ? (
+              <blockquote
+                key={index}
+                className="pl-3 border-l-2 border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400"
+              >
+                {content}
+              </blockquote>
+            ) : (
+              <p key={index}>{content}</p>
+            );
+          }
+        }
+      })}
+    </div>
+  );
+}
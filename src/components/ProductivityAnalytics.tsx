@@ -10,8 +10,40 @@ import {
   Coffee,
   Moon,
   Calendar,
+  Timer,
 } from "lucide-react";
-import { Task, DeveloperTaskType } from "@/lib/types";
+import {
+  Task,
+  TaskPriority,
+  DeveloperTaskType,
+  WorkflowColumn,
+  ColumnColor,
+  CumulativeFlowPoint,
+  Sprint,
+} from "@/lib/types";
+import {
+  DEFAULT_COLUMNS,
+  isDoneStatus,
+  columnColorConfig,
+  getCompletedAt,
+  getFlowTimes,
+  getPercentile,
+  getAgingWip,
+  buildCumulativeFlow,
+  toDateKey,
+} from "@/lib/utils";
+import { SprintProgressPanel } from "./BurnChart";
+
+const TASK_TYPES: DeveloperTaskType[] = [
+  "coding",
+  "debugging",
+  "research",
+  "documentation",
+  "testing",
+  "review",
+  "meeting",
+  "planning",
+];
 
 export interface ProductivityMetrics {
   dailyStats: {
@@ -37,18 +69,30 @@ export interface ProductivityMetrics {
 }
 
 export class ProductivityAnalyzer {
-  static analyzeProductivity(tasks: Task[]): ProductivityMetrics {
-    const completedTasks = tasks.filter((task) => task.status === "done");
+  static analyzeProductivity(
+    tasks: Task[],
+    columns: WorkflowColumn[] = DEFAULT_COLUMNS
+  ): ProductivityMetrics {
+    const completedTasks = tasks.filter((task) =>
+      isDoneStatus(task.status, columns)
+    );
     const now = new Date();
 
     return {
-      dailyStats: this.calculateDailyStats(completedTasks, now),
+      dailyStats: this.calculateDailyStats(completedTasks, now, columns),
       weeklyTrends: this.calculateWeeklyTrends(completedTasks, now),
-      taskTypeEfficiency: this.calculateTaskTypeEfficiency(completedTasks),
+      taskTypeEfficiency: this.calculateTaskTypeEfficiency(
+        completedTasks,
+        columns
+      ),
     };
   }
 
-  private static calculateDailyStats(tasks: Task[], now: Date) {
+  private static calculateDailyStats(
+    tasks: Task[],
+    now: Date,
+    columns: WorkflowColumn[]
+  ) {
     const today = now.toDateString();
     const todayTasks = tasks.filter(
       (task) => new Date(task.updatedAt).toDateString() === today
@@ -65,7 +109,7 @@ export class ProductivityAnalyzer {
 
     return {
       tasksCompleted: todayTasks.length,
-      averageTaskTime: this.calculateAverageTaskTime(todayTasks),
+      averageTaskTime: this.calculateAverageTaskTime(todayTasks, columns),
       peakProductivityHour: peakHour,
       energyPattern: this.determineEnergyPattern(peakHour),
     };
@@ -106,27 +150,20 @@ export class ProductivityAnalyzer {
     };
   }
 
-  private static calculateTaskTypeEfficiency(tasks: Task[]) {
-    const taskTypes: DeveloperTaskType[] = [
-      "coding",
-      "debugging",
-      "research",
-      "documentation",
-      "testing",
-      "review",
-      "meeting",
-      "planning",
-    ];
+  private static calculateTaskTypeEfficiency(
+    tasks: Task[],
+    columns: WorkflowColumn[]
+  ) {
     const efficiency: any = {};
 
-    taskTypes.forEach((type) => {
+    TASK_TYPES.forEach((type) => {
       const typeTasks = tasks.filter(
         (task) => task.scheduling?.developerContext?.taskType === type
       );
 
       if (typeTasks.length > 0) {
         efficiency[type] = {
-          averageTime: this.calculateAverageTaskTime(typeTasks),
+          averageTime: this.calculateAverageTaskTime(typeTasks, columns),
           successRate: 0.85 + Math.random() * 0.15, // Simulate success rate
           difficulty: this.calculateDifficulty(typeTasks),
         };
@@ -142,11 +179,22 @@ export class ProductivityAnalyzer {
     return efficiency;
   }
 
-  private static calculateAverageTaskTime(tasks: Task[]): number {
+  // Measured cycle time in minutes, from the status history. Tasks that were
+  // never seen in a started column fall back to their estimate.
+  private static calculateAverageTaskTime(
+    tasks: Task[],
+    columns: WorkflowColumn[]
+  ): number {
     if (tasks.length === 0) return 0;
 
     const totalTime = tasks.reduce((sum, task) => {
-      return sum + (task.scheduling?.estimatedDuration || 60);
+      const { cycleTimeHours } = getFlowTimes(task, columns);
+      return (
+        sum +
+        (cycleTimeHours !== null
+          ? cycleTimeHours * 60
+          : task.scheduling?.estimatedDuration || 60)
+      );
     }, 0);
 
     return Math.round(totalTime / tasks.length);
@@ -160,9 +208,8 @@ export class ProductivityAnalyzer {
     return "evening";
   }
 
-  private static calculateStreak(tasks: Task[]): number {
+  private static calculateStreak(completedTasks: Task[]): number {
     // Simplified streak calculation
-    const completedTasks = tasks.filter((task) => task.status === "done");
     const recentTasks = completedTasks.slice(-7); // Last 7 days
     return Math.min(recentTasks.length, 7);
   }
@@ -193,15 +240,316 @@ export class ProductivityAnalyzer {
   }
 }
 
+// Cumulative flow fills, spelled out so Tailwind keeps them
+const flowFill: Record<ColumnColor, string> = {
+  gray: "fill-gray-400",
+  blue: "fill-blue-500",
+  yellow: "fill-yellow-500",
+  orange: "fill-orange-500",
+  red: "fill-red-500",
+  purple: "fill-purple-500",
+  teal: "fill-teal-500",
+  green: "fill-green-500",
+};
+
+const FLOW_CHART_WIDTH = 320;
+const FLOW_CHART_HEIGHT = 140;
+
+const formatHours = (hours: number) =>
+  hours >= 24
+    ? `${Math.round((hours / 24) * 10) / 10}d`
+    : `${Math.round(hours * 10) / 10}h`;
+
+// Lead time, cycle time, time in column, aging WIP and cumulative flow, all
+// read from the tasks' status history
+export function FlowAnalyticsPanel({
+  tasks,
+  columns = DEFAULT_COLUMNS,
+}: {
+  tasks: Task[];
+  columns?: WorkflowColumn[];
+}) {
+  const [priority, setPriority] = useState<TaskPriority | "all">("all");
+  const [taskType, setTaskType] = useState<DeveloperTaskType | "all">("all");
+  const [days, setDays] = useState(30);
+
+  const now = new Date();
+  const start = new Date(now);
+  start.setDate(start.getDate() - (days - 1));
+  const range = { startDate: toDateKey(start), endDate: toDateKey(now) };
+
+  const filtered = tasks.filter(
+    (task) =>
+      (priority === "all" || task.priority === priority) &&
+      (taskType === "all" ||
+        task.scheduling?.developerContext?.taskType === taskType)
+  );
+
+  // Lead and cycle times of the work finished in the range
+  const rangeStart = new Date(`${range.startDate}T00:00:00`).getTime();
+  const flowTimes = filtered
+    .filter((task) => {
+      const completedAt = getCompletedAt(task, columns);
+      return !!completedAt && new Date(completedAt).getTime() >= rangeStart;
+    })
+    .map((task) => getFlowTimes(task, columns, now));
+  const leadTimes = flowTimes
+    .map((times) => times.leadTimeHours)
+    .filter((hours): hours is number => hours !== null);
+  const cycleTimes = flowTimes
+    .map((times) => times.cycleTimeHours)
+    .filter((hours): hours is number => hours !== null);
+
+  // Average hours in each unfinished column, over the tasks that were there
+  const columnTimes = columns
+    .filter((column) => !column.countsAsDone)
+    .map((column) => {
+      const visits = filtered
+        .map((task) => getFlowTimes(task, columns, now).timeInColumn[column.id])
+        .filter((hours): hours is number => hours !== undefined);
+      return {
+        column,
+        hours: visits.length
+          ? visits.reduce((sum, hours) => sum + hours, 0) / visits.length
+          : 0,
+      };
+    });
+  const maxColumnHours = Math.max(1, ...columnTimes.map((c) => c.hours));
+
+  const aging = getAgingWip(filtered, columns, now);
+  const cycleP85 = getPercentile(cycleTimes, 85);
+
+  const flow = buildCumulativeFlow(filtered, columns, range, now);
+  const maxTotal = Math.max(
+    1,
+    ...flow.map((point) =>
+      Object.values(point.counts).reduce((sum, count) => sum + count, 0)
+    )
+  );
+  const x = (index: number) =>
+    flow.length > 1 ? (index / (flow.length - 1)) * FLOW_CHART_WIDTH : 0;
+  const y = (count: number) =>
+    FLOW_CHART_HEIGHT - (count / maxTotal) * FLOW_CHART_HEIGHT;
+
+  // Done at the bottom, the first column on top
+  const stacked = [...columns].reverse();
+  const bands = stacked.map((column, layer) => {
+    const below = (point: CumulativeFlowPoint) =>
+      stacked
+        .slice(0, layer)
+        .reduce((sum, c) => sum + (point.counts[c.id] || 0), 0);
+    const top = flow.map(
+      (point, index) =>
+        `${x(index).toFixed(1)},${y(
+          below(point) + (point.counts[column.id] || 0)
+        ).toFixed(1)}`
+    );
+    const bottom = flow
+      .map(
+        (point, index) => `${x(index).toFixed(1)},${y(below(point)).toFixed(1)}`
+      )
+      .reverse();
+    return { column, points: [...top, ...bottom].join(" ") };
+  });
+
+  const selectClass =
+    "text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700";
+
+  return (
+    <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-lg p-4 border border-gray-200/50 dark:border-gray-700/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <Timer className="w-4 h-4" />
+          Flow
+        </h4>
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value, 10))}
+          className={selectClass}
+          aria-label="Period"
+        >
+          <option value={14}>Last 14 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as TaskPriority | "all")}
+          className={selectClass}
+          aria-label="Priority"
+        >
+          <option value="all">All priorities</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+        </select>
+        <select
+          value={taskType}
+          onChange={(e) =>
+            setTaskType(e.target.value as DeveloperTaskType | "all")
+          }
+          className={`${selectClass} capitalize`}
+          aria-label="Task type"
+        >
+          <option value="all">All task types</option>
+          {TASK_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Lead & Cycle Time */}
+      <div className="grid grid-cols-2 gap-3">
+        {[
+          { label: "Lead time", values: leadTimes },
+          { label: "Cycle time", values: cycleTimes },
+        ].map(({ label, values }) => (
+          <div key={label}>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {label}
+            </div>
+            <div className="font-medium text-gray-900 dark:text-white">
+              {values.length ? formatHours(getPercentile(values, 50)) : "-"}
+            </div>
+            <div className="text-xs text-gray-500">
+              {values.length
+                ? `85% within ${formatHours(getPercentile(values, 85))} · ${
+                    values.length
+                  } tasks`
+                : "nothing finished yet"}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Time in Column */}
+      <div>
+        <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          Average time in column
+        </div>
+        <div className="space-y-1.5">
+          {columnTimes.map(({ column, hours }) => (
+            <div key={column.id} className="flex items-center gap-2 text-xs">
+              <span className="w-20 truncate text-gray-700 dark:text-gray-300">
+                {column.name}
+              </span>
+              <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-600 rounded-full">
+                <div
+                  className={`h-full rounded-full ${
+                    columnColorConfig[column.color].swatch
+                  }`}
+                  style={{ width: `${(hours / maxColumnHours) * 100}%` }}
+                />
+              </div>
+              <span className="w-10 text-right text-gray-500">
+                {formatHours(hours)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Aging Work in Progress */}
+      <div>
+        <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          Aging work in progress
+        </div>
+        {aging.length === 0 ? (
+          <p className="text-xs text-gray-500">Nothing in progress</p>
+        ) : (
+          <ul className="space-y-1">
+            {aging.slice(0, 5).map(({ task, ageHours }) => {
+              const overdue = cycleTimes.length > 0 && ageHours > cycleP85;
+              return (
+                <li
+                  key={task.id}
+                  className="flex items-center justify-between gap-2 text-xs"
+                  title={
+                    overdue
+                      ? "Older than 85% of recently finished work"
+                      : undefined
+                  }
+                >
+                  <span className="truncate text-gray-700 dark:text-gray-300">
+                    {task.title}
+                  </span>
+                  <span
+                    className={
+                      overdue
+                        ? "text-red-500 font-medium"
+                        : "text-gray-500 dark:text-gray-400"
+                    }
+                  >
+                    {formatHours(ageHours)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Cumulative Flow */}
+      <div>
+        <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+          Cumulative flow
+        </div>
+        <svg
+          viewBox={`0 0 ${FLOW_CHART_WIDTH} ${FLOW_CHART_HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label="Cumulative flow diagram"
+          preserveAspectRatio="none"
+        >
+          {bands.map(({ column, points }) => (
+            <polygon
+              key={column.id}
+              points={points}
+              className={`${flowFill[column.color]} opacity-80`}
+            >
+              <title>{column.name}</title>
+            </polygon>
+          ))}
+        </svg>
+        <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1 text-xs text-gray-600 dark:text-gray-400">
+          {columns.map((column) => (
+            <span key={column.id} className="flex items-center gap-1">
+              <span
+                className={`w-2 h-2 rounded-full ${
+                  columnColorConfig[column.color].swatch
+                }`}
+              />
+              {column.name}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Productivity Dashboard Component
-export function ProductivityDashboard({ tasks }: { tasks: Task[] }) {
+export function ProductivityDashboard({
+  tasks,
+  columns = DEFAULT_COLUMNS,
+  sprints = [],
+}: {
+  tasks: Task[];
+  columns?: WorkflowColumn[];
+  sprints?: Sprint[];
+}) {
   const [metrics, setMetrics] = useState<ProductivityMetrics | null>(null);
   const [timeframe, setTimeframe] = useState<"day" | "week" | "month">("week");
 
   useEffect(() => {
-    const newMetrics = ProductivityAnalyzer.analyzeProductivity(tasks);
+    const newMetrics = ProductivityAnalyzer.analyzeProductivity(tasks, columns);
     setMetrics(newMetrics);
-  }, [tasks]);
+  }, [tasks, columns]);
 
   if (!metrics) {
     return <div className="animate-pulse">Loading analytics...</div>;
@@ -313,6 +661,17 @@ export function ProductivityDashboard({ tasks }: { tasks: Task[] }) {
         </div>
       </div>
 
+      {/* Burndown / Burnup */}
+      <SprintProgressPanel
+        key={sprints.map((sprint) => sprint.id).join()}
+        tasks={tasks}
+        sprints={sprints}
+        columns={columns}
+      />
+
+      {/* Lead Time, Cycle Time & Flow */}
+      <FlowAnalyticsPanel tasks={tasks} columns={columns} />
+
       {/* Weekly Overview */}
       <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-lg p-4 border border-gray-200/50 dark:border-gray-700/50">
         <h4 className="font-medium text-gray-900 dark:text-white mb-3 flex items-center gap-2">
@@ -0,0 +1,173 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Search, AlertCircle } from "lucide-react";
+import { QueryContext, QueryError, QuerySuggestion } from "@/lib/types";
+import { getQuerySuggestions } from "@/lib/query";
+import { cn } from "@/lib/utils";
+
+interface QuerySearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  context: QueryContext; // names to complete and check against
+  error?: QueryError | null; // from parsing `value`
+}
+
+// Board search with field:value completion, e.g. priority:high -label:bug
+export function QuerySearchBox({
+  value,
+  onChange,
+  context,
+  error,
+}: QuerySearchBoxProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = isOpen ? getQuerySuggestions(value, cursor, context) : [];
+  const active = Math.min(activeIndex, suggestions.length - 1);
+  // Out of focus the red border and tooltip are enough
+  const showError = !!error && isOpen && suggestions.length === 0;
+
+  const trackCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length);
+  };
+
+  const accept = (suggestion: QuerySuggestion) => {
+    // Field names stay open for their value; finished terms get a space
+    const insert = suggestion.value.endsWith(":")
+      ? suggestion.value
+      : `${suggestion.value} `;
+    const rest = value.slice(suggestion.end).replace(/^ /, "");
+    const next = `${value.slice(0, suggestion.start)}${insert}${rest}`;
+    const position = suggestion.start + insert.length;
+
+    onChange(next);
+    setCursor(position);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setIsOpen(false);
+      return;
+    }
+    if (suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((active + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      accept(suggestions[active]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search, e.g. priority:high -label:bug"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => {
+          trackCursor();
+          setIsOpen(true);
+        }}
+        onBlur={() => setIsOpen(false)}
+        onClick={trackCursor}
+        onKeyUp={(e) => {
+          if (e.key === "ArrowLeft" || e.key === "ArrowRight") trackCursor();
+        }}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-controls="board-search-suggestions"
+        aria-activedescendant={
+          suggestions.length > 0 ? `board-search-option-${active}` : undefined
+        }
+        aria-invalid={!!error}
+        aria-describedby={showError ? "board-search-error" : undefined}
+        title={error?.message}
+        className={cn(
+          "w-72 pl-10 pr-4 py-2 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:border-transparent outline-none transition-all",
+          error
+            ? "border-red-400 dark:border-red-500 focus:ring-red-500"
+            : "border-gray-300 dark:border-gray-600 focus:ring-blue-500"
+        )}
+      />
+
+      {suggestions.length > 0 && (
+        <ul
+          id="board-search-suggestions"
+          role="listbox"
+          className="absolute left-0 z-50 mt-1 w-full py-1 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              id={`board-search-option-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // Keep focus in the input while picking with the mouse
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex items-baseline justify-between gap-3 px-3 py-1.5 text-sm cursor-pointer",
+                index === active
+                  ? "bg-blue-50 dark:bg-blue-900/30"
+                  : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+              )}
+            >
+              <span className="font-mono text-gray-900 dark:text-white truncate">
+                {suggestion.value}
+              </span>
+              {suggestion.description && (
+                <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {suggestion.description}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && showError && (
+        <p
+          id="board-search-error"
+          role="alert"
+          className="absolute left-0 z-50 mt-1 w-full flex items-start gap-1.5 px-3 py-2 text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-800"
+        >
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0 mt-px" />
+          <span>
+            {error.message}
+            {value.slice(error.start, error.end).trim() && (
+              <>
+                {" "}
+                at{" "}
+                <code className="font-mono">
+                  {value.slice(error.start, error.end)}
+                </code>
+              </>
+            )}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useState } from "react";
+import { Bookmark, ChevronDown, Link2, Star, Trash2 } from "lucide-react";
+import { SavedView } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  currentViewId: string | null; // the view matching what's on screen
+  defaultViewId: string | null;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void; // saves what's on screen
+  onDelete: (id: string) => void;
+  onSetDefault: (id: string | null) => void;
+  onCopyLink: () => void;
+}
+
+// Named filter, sort and panel combinations, and a link to the current one
+export function SavedViewsMenu({
+  views,
+  currentViewId,
+  defaultViewId,
+  onApply,
+  onSave,
+  onDelete,
+  onSetDefault,
+  onCopyLink,
+}: SavedViewsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const current = views.find((view) => view.id === currentViewId);
+  const nameTaken = views.some(
+    (view) => view.name.toLowerCase() === name.trim().toLowerCase()
+  );
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || nameTaken) return;
+    onSave(name);
+    setName("");
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+      >
+        <Bookmark className="w-4 h-4 text-gray-500 dark:text-gray-400" />
+        <span className="max-w-[8rem] truncate">
+          {current ? current.name : "Views"}
+        </span>
+        <ChevronDown className="w-4 h-4 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="absolute right-0 z-50 mt-2 w-72 p-3 space-y-3 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+            {views.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No saved views for this board yet.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {views.map((view) => {
+                  const isDefault = view.id === defaultViewId;
+                  return (
+                    <li key={view.id} className="flex items-center gap-1 group">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          onApply(view);
+                          setIsOpen(false);
+                        }}
+                        className={cn(
+                          "flex-1 min-w-0 px-2 py-1.5 rounded-md text-left text-sm truncate",
+                          view.id === currentViewId
+                            ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                            : "text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                        )}
+                      >
+                        {view.name}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onSetDefault(isDefault ? null : view.id)}
+                        aria-pressed={isDefault}
+                        title={
+                          isDefault
+                            ? "Opens by default - click to unset"
+                            : "Open this board on this view"
+                        }
+                        className={cn(
+                          "p-1 rounded",
+                          isDefault
+                            ? "text-yellow-500"
+                            : "text-gray-400 hover:text-yellow-500"
+                        )}
+                      >
+                        <Star
+                          className={cn("w-4 h-4", isDefault && "fill-current")}
+                        />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDelete(view.id)}
+                        className="p-1 rounded text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        aria-label={`Delete ${view.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <form
+              onSubmit={handleSave}
+              className="flex gap-2 pt-3 border-t border-gray-200 dark:border-gray-700"
+            >
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Save current view as..."
+                aria-invalid={nameTaken}
+                title={nameTaken ? "A view with this name exists" : undefined}
+                className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              />
+              <button
+                type="submit"
+                disabled={!name.trim() || nameTaken}
+                className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+
+            <button
+              type="button"
+              onClick={() => {
+                onCopyLink();
+                setIsOpen(false);
+              }}
+              className="flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Link2 className="w-4 h-4" />
+              Copy link to this view
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
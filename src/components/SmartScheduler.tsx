@@ -18,19 +18,23 @@ import {
   EnergyLevel,
   DeveloperTaskType,
   ComplexityLevel,
+  WorkflowColumn,
 } from "@/lib/types";
+import { DEFAULT_COLUMNS, isDoneStatus } from "@/lib/utils";
 import { SmartScheduler } from "@/lib/smart-scheduler";
 import { GitIntegrationService } from "@/lib/git-integration";
 
 interface SmartSchedulerPanelProps {
   tasks: Task[];
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => void;
+  columns?: WorkflowColumn[]; // decides which tasks are already done
   className?: string;
 }
 
 export function SmartSchedulerPanel({
   tasks,
   onTaskUpdate,
+  columns = DEFAULT_COLUMNS,
   className = "",
 }: SmartSchedulerPanelProps) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -45,7 +49,7 @@ export function SmartSchedulerPanel({
     gitRepositories: [],
   });
 
-  const scheduler = new SmartScheduler(developerProfile);
+  const scheduler = new SmartScheduler(developerProfile, columns);
   const gitService = GitIntegrationService.getInstance();
 
   useEffect(() => {
@@ -53,7 +57,7 @@ export function SmartSchedulerPanel({
       const newSchedule = scheduler.scheduleTasks(tasks);
       setSchedule(newSchedule);
     }
-  }, [tasks, developerProfile]);
+  }, [tasks, developerProfile, columns]);
 
   const handleScheduleTask = (task: Task) => {
     const estimatedDuration = SmartScheduler.estimateTaskDuration(task);
@@ -160,7 +164,7 @@ export function SmartSchedulerPanel({
         <div className="text-center">
           <div className="text-lg font-bold text-purple-600 dark:text-purple-400">
             {Math.round(
-              (tasks.filter((t) => t.status === "done").length /
+              (tasks.filter((t) => isDoneStatus(t.status, columns)).length /
                 Math.max(tasks.length, 1)) *
                 100
             )}
@@ -247,7 +251,8 @@ export function SmartSchedulerPanel({
               {tasks
                 .filter(
                   (task) =>
-                    task.status !== "done" && !task.scheduling?.scheduledFor
+                    !isDoneStatus(task.status, columns) &&
+                    !task.scheduling?.scheduledFor
                 )
                 .slice(0, 3)
                 .map((task) => {
@@ -0,0 +1,600 @@
+"use client";
+
+import React, { useState } from "react";
+import { createPortal } from "react-dom";
+import {
+  Flag,
+  Play,
+  CheckCircle,
+  Calendar,
+  Plus,
+  X,
+  Inbox,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
+import { Sprint, Task, WorkflowColumn } from "@/lib/types";
+import {
+  cn,
+  isDoneStatus,
+  getSprintDaysLeft,
+  getBacklogTasks,
+  priorityConfig,
+  formatDate,
+  toDateKey,
+} from "@/lib/utils";
+
+const formatSprintDates = (sprint: Sprint) =>
+  `${new Date(sprint.startDate).toLocaleDateString()} - ${new Date(
+    sprint.endDate
+  ).toLocaleDateString()}`;
+
+interface ActiveSprintBannerProps {
+  sprint: Sprint;
+  tasks: Task[];
+  columns: WorkflowColumn[];
+  canEdit: boolean;
+  onComplete: () => void;
+}
+
+// Summary strip above the board while a sprint is running
+export function ActiveSprintBanner({
+  sprint,
+  tasks,
+  columns,
+  canEdit,
+  onComplete,
+}: ActiveSprintBannerProps) {
+  const sprintTasks = tasks.filter((task) => task.sprintId === sprint.id);
+  const done = sprintTasks.filter((task) =>
+    isDoneStatus(task.status, columns)
+  ).length;
+  const daysLeft = getSprintDaysLeft(sprint);
+  const progress = sprintTasks.length
+    ? Math.round((done / sprintTasks.length) * 100)
+    : 0;
+
+  return (
+    <div className="mb-4 px-4 py-3 rounded-lg bg-white/60 dark:bg-gray-800/60 border border-gray-200/50 dark:border-gray-700/50 flex items-center gap-4">
+      <Flag className="w-5 h-5 text-purple-600 dark:text-purple-400 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-gray-900 dark:text-white">
+            {sprint.name}
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {formatSprintDates(sprint)} ·{" "}
+            {daysLeft > 0
+              ? `${daysLeft} day${daysLeft !== 1 ? "s" : ""} left`
+              : "ends today or overdue"}
+          </span>
+        </div>
+        {sprint.goal && (
+          <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+            {sprint.goal}
+          </p>
+        )}
+      </div>
+      <div className="w-40">
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+          <span>
+            {done}/{sprintTasks.length} done
+          </span>
+          <span>{progress}%</span>
+        </div>
+        <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-blue-500 to-purple-500"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </div>
+      {canEdit && (
+        <button
+          onClick={onComplete}
+          className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm flex items-center gap-1.5 transition-colors"
+        >
+          <CheckCircle className="w-4 h-4" />
+          Complete sprint
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface SprintBacklogProps {
+  tasks: Task[];
+  sprints: Sprint[];
+  columns: WorkflowColumn[];
+  canEdit: boolean;
+  onCreateSprint: (input: {
+    name: string;
+    goal: string;
+    startDate: string;
+    endDate: string;
+  }) => Promise<void>;
+  onStartSprint: (sprint: Sprint) => void;
+  onCompleteSprint: (sprint: Sprint) => void;
+  onAssignSprint: (taskId: string, sprintId: string | null) => void;
+  onViewTask: (task: Task) => void;
+}
+
+// Planning view: the backlog plus every open sprint and its tasks
+export function SprintBacklog({
+  tasks,
+  sprints,
+  columns,
+  canEdit,
+  onCreateSprint,
+  onStartSprint,
+  onCompleteSprint,
+  onAssignSprint,
+  onViewTask,
+}: SprintBacklogProps) {
+  const [showCompleted, setShowCompleted] = useState(false);
+  const openSprints = sprints.filter((sprint) => sprint.state !== "completed");
+  const completedSprints = sprints.filter(
+    (sprint) => sprint.state === "completed"
+  );
+  const hasActiveSprint = sprints.some((sprint) => sprint.state === "active");
+  const sprintIds = new Set(openSprints.map((sprint) => sprint.id));
+
+  // Unplanned work, including tasks whose sprint no longer exists
+  const backlog = getBacklogTasks(tasks, sprints, columns);
+
+  const renderTask = (task: Task) => {
+    const column = columns.find((c) => c.id === task.status);
+    return (
+      <li
+        key={task.id}
+        className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50"
+      >
+        <button
+          onClick={() => onViewTask(task)}
+          className="flex-1 min-w-0 text-left text-sm text-gray-900 dark:text-white truncate"
+        >
+          {task.title}
+        </button>
+        <span
+          className={cn(
+            "px-2 py-0.5 rounded-full text-xs",
+            priorityConfig[task.priority].className
+          )}
+        >
+          {task.priority}
+        </span>
+        <span className="w-24 text-xs text-gray-500 dark:text-gray-400 truncate">
+          {column?.name ?? task.status}
+        </span>
+        {canEdit && (
+          <select
+            value={
+              task.sprintId && sprintIds.has(task.sprintId) ? task.sprintId : ""
+            }
+            onChange={(e) => onAssignSprint(task.id, e.target.value || null)}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-xs text-gray-900 dark:text-white outline-none"
+            aria-label={`Sprint for ${task.title}`}
+          >
+            <option value="">Backlog</option>
+            {openSprints.map((sprint) => (
+              <option key={sprint.id} value={sprint.id}>
+                {sprint.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {openSprints.map((sprint) => {
+        const sprintTasks = tasks.filter((task) => task.sprintId === sprint.id);
+        return (
+          <section
+            key={sprint.id}
+            className="bg-white/60 dark:bg-gray-800/60 rounded-xl border border-gray-200/50 dark:border-gray-700/50 shadow-lg"
+          >
+            <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50 flex items-center gap-3">
+              <Flag
+                className={cn(
+                  "w-4 h-4",
+                  sprint.state === "active"
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-gray-400"
+                )}
+              />
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-gray-900 dark:text-white">
+                  {sprint.name}
+                  {sprint.state === "active" && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                      Active
+                    </span>
+                  )}
+                </h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatSprintDates(sprint)} · {sprintTasks.length} task
+                  {sprintTasks.length !== 1 ? "s" : ""}
+                  {sprint.goal && ` · ${sprint.goal}`}
+                </p>
+              </div>
+              {canEdit && sprint.state === "planned" && (
+                <button
+                  onClick={() => onStartSprint(sprint)}
+                  disabled={hasActiveSprint}
+                  title={
+                    hasActiveSprint
+                      ? "Complete the active sprint first"
+                      : "Start sprint"
+                  }
+                  className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm flex items-center gap-1.5 disabled:opacity-50 transition-colors"
+                >
+                  <Play className="w-4 h-4" />
+                  Start
+                </button>
+              )}
+              {canEdit && sprint.state === "active" && (
+                <button
+                  onClick={() => onCompleteSprint(sprint)}
+                  className="px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm flex items-center gap-1.5 transition-colors"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Complete
+                </button>
+              )}
+            </div>
+            <ul className="p-2">
+              {sprintTasks.length > 0 ? (
+                sprintTasks.map(renderTask)
+              ) : (
+                <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                  Plan tasks into this sprint from the backlog below
+                </li>
+              )}
+            </ul>
+          </section>
+        );
+      })}
+
+      {canEdit && <NewSprintForm onCreate={onCreateSprint} />}
+
+      <section className="bg-white/60 dark:bg-gray-800/60 rounded-xl border border-gray-200/50 dark:border-gray-700/50 shadow-lg">
+        <div className="p-4 border-b border-gray-200/50 dark:border-gray-700/50 flex items-center gap-3">
+          <Inbox className="w-4 h-4 text-gray-500" />
+          <h3 className="font-semibold text-gray-900 dark:text-white">
+            Backlog
+          </h3>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {backlog.length} unplanned task{backlog.length !== 1 ? "s" : ""}
+          </span>
+        </div>
+        <ul className="p-2">
+          {backlog.length > 0 ? (
+            backlog.map(renderTask)
+          ) : (
+            <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+              Everything open is planned into a sprint
+            </li>
+          )}
+        </ul>
+      </section>
+
+      {completedSprints.length > 0 && (
+        <section>
+          <button
+            onClick={() => setShowCompleted(!showCompleted)}
+            className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-400 mb-2"
+          >
+            {showCompleted ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+            Completed sprints ({completedSprints.length})
+          </button>
+          {showCompleted && (
+            <ul className="space-y-2">
+              {completedSprints.map((sprint) => {
+                const snapshot = sprint.snapshot;
+                const committedDone = snapshot
+                  ? snapshot.committedTaskIds.filter((id) =>
+                      snapshot.completedTaskIds.includes(id)
+                    ).length
+                  : 0;
+                return (
+                  <li
+                    key={sprint.id}
+                    className="px-4 py-3 rounded-lg bg-white/60 dark:bg-gray-800/60 border border-gray-200/50 dark:border-gray-700/50 text-sm"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {sprint.name}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {snapshot
+                          ? `Closed ${formatDate(snapshot.completedAt)}`
+                          : formatSprintDates(sprint)}
+                      </span>
+                    </div>
+                    {snapshot && (
+                      <p className="text-gray-600 dark:text-gray-400">
+                        {committedDone} of {snapshot.committedTaskIds.length}{" "}
+                        committed done ·{" "}
+                        {snapshot.completedTaskIds.length - committedDone} added
+                        and done · {snapshot.rolledOverTaskIds.length} rolled
+                        over
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
+
+interface NewSprintFormProps {
+  onCreate: SprintBacklogProps["onCreateSprint"];
+}
+
+function NewSprintForm({ onCreate }: NewSprintFormProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [goal, setGoal] = useState("");
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [endDate, setEndDate] = useState(() => {
+    const end = new Date();
+    end.setDate(end.getDate() + 13);
+    return toDateKey(end);
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      await onCreate({
+        name: name.trim(),
+        goal: goal.trim(),
+        startDate,
+        endDate,
+      });
+      setName("");
+      setGoal("");
+      setIsOpen(false);
+    } catch {
+      // The parent reports the error; keep the form open to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="w-full py-3 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-400 hover:border-blue-400 hover:text-blue-600 flex items-center justify-center gap-2 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Plan a sprint
+      </button>
+    );
+  }
+
+  const inputClass =
+    "px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-white/60 dark:bg-gray-800/60 grid grid-cols-2 gap-3"
+    >
+      <input
+        type="text"
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Sprint name"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={goal}
+        onChange={(e) => setGoal(e.target.value)}
+        placeholder="Sprint goal (optional)"
+        className={inputClass}
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <Calendar className="w-4 h-4" />
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className={cn(inputClass, "flex-1")}
+          aria-label="Start date"
+        />
+      </label>
+      <input
+        type="date"
+        value={endDate}
+        min={startDate}
+        onChange={(e) => setEndDate(e.target.value)}
+        className={inputClass}
+        aria-label="End date"
+      />
+      <div className="col-span-2 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-3 py-1.5 rounded-lg bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-sm text-gray-700 dark:text-gray-300 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !name.trim() || endDate < startDate}
+          className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Create sprint"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface CompleteSprintModalProps {
+  sprint: Sprint;
+  tasks: Task[];
+  columns: WorkflowColumn[];
+  nextSprints: Sprint[]; // planned sprints unfinished work can move to
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete: (rolloverTo: string | null) => Promise<void>;
+}
+
+export function CompleteSprintModal({
+  sprint,
+  tasks,
+  columns,
+  nextSprints,
+  isOpen,
+  onClose,
+  onComplete,
+}: CompleteSprintModalProps) {
+  const [rolloverTo, setRolloverTo] = useState<string>(
+    nextSprints[0]?.id ?? ""
+  );
+  const [saving, setSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const sprintTasks = tasks.filter((task) => task.sprintId === sprint.id);
+  const done = sprintTasks.filter((task) => isDoneStatus(task.status, columns));
+  const unfinished = sprintTasks.length - done.length;
+  const committedDone = done.filter((task) =>
+    sprint.committedTaskIds.includes(task.id)
+  ).length;
+
+  const handleComplete = async () => {
+    setSaving(true);
+    try {
+      await onComplete(rolloverTo || null);
+      onClose();
+    } catch {
+      // The parent reports the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[9999] overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative w-full max-w-lg bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Complete {sprint.name}
+              </h2>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                <div className="text-lg font-bold text-gray-900 dark:text-white">
+                  {sprint.committedTaskIds.length}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  Committed
+                </div>
+              </div>
+              <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20">
+                <div className="text-lg font-bold text-green-600 dark:text-green-400">
+                  {committedDone}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  Committed & done
+                </div>
+              </div>
+              <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20">
+                <div className="text-lg font-bold text-yellow-600 dark:text-yellow-400">
+                  {unfinished}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  Unfinished
+                </div>
+              </div>
+            </div>
+
+            {unfinished > 0 && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+                  Move unfinished tasks to
+                </label>
+                <select
+                  value={rolloverTo}
+                  onChange={(e) => setRolloverTo(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  {nextSprints.map((next) => (
+                    <option key={next.id} value={next.id}>
+                      {next.name}
+                    </option>
+                  ))}
+                  <option value="">Backlog</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleComplete}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <CheckCircle className="w-4 h-4" />
+              {saving ? "Completing..." : "Complete sprint"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+}
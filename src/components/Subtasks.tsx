@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Task, ChecklistItem, TaskProgress, WorkflowColumn } from "@/lib/types";
+import {
+  cn,
+  generateId,
+  getSubtasks,
+  columnColorConfig,
+  DEFAULT_COLUMNS,
+} from "@/lib/utils";
+
+interface TaskProgressBarProps {
+  progress: TaskProgress;
+  className?: string;
+}
+
+// Thin bar of done subtasks and checklist items, e.g. for TaskCard
+export function TaskProgressBar({ progress, className }: TaskProgressBarProps) {
+  if (progress.total === 0) return null;
+
+  const percent = Math.round((progress.completed / progress.total) * 100);
+  const complete = progress.completed === progress.total;
+
+  return (
+    <div
+      className={cn("flex items-center gap-2", className)}
+      title={`${progress.completed} of ${progress.total} subtasks and checklist items done`}
+    >
+      <div
+        className="flex-1 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={progress.completed}
+        aria-label="Subtask progress"
+      >
+        <div
+          className={cn(
+            "h-full rounded-full transition-all",
+            complete ? "bg-green-500" : "bg-blue-500"
+          )}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        {progress.completed}/{progress.total}
+      </span>
+    </div>
+  );
+}
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  readOnly?: boolean; // tick boxes only, no adding or removing
+  disabled?: boolean;
+}
+
+export function ChecklistEditor({
+  items,
+  onChange,
+  readOnly = false,
+  disabled = false,
+}: ChecklistEditorProps) {
+  const [text, setText] = useState("");
+
+  const addItem = () => {
+    if (!text.trim()) return;
+    onChange([...items, { id: generateId(), text: text.trim(), done: false }]);
+    setText("");
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {items.map((item) => (
+        <div key={item.id} className="flex items-center gap-2 group">
+          <input
+            type="checkbox"
+            checked={item.done}
+            disabled={disabled}
+            onChange={() =>
+              onChange(
+                items.map((entry) =>
+                  entry.id === item.id ? { ...entry, done: !entry.done } : entry
+                )
+              )
+            }
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            aria-label={item.text}
+          />
+          <span
+            className={cn(
+              "flex-1 text-sm",
+              item.done
+                ? "line-through text-gray-400"
+                : "text-gray-700 dark:text-gray-300"
+            )}
+          >
+            {item.text}
+          </span>
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={() =>
+                onChange(items.filter((entry) => entry.id !== item.id))
+              }
+              className="p-0.5 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              aria-label={`Remove ${item.text}`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      ))}
+      {!readOnly && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter adds an item instead of submitting the surrounding form
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addItem();
+              }
+            }}
+            placeholder="Add a checklist item"
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            type="button"
+            onClick={addItem}
+            disabled={!text.trim()}
+            className="px-2 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg disabled:opacity-50"
+            aria-label="Add checklist item"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SubtaskListProps {
+  task: Task;
+  tasks: Task[];
+  columns?: WorkflowColumn[];
+  onView?: (task: Task) => void;
+  onCreate?: (title: string) => Promise<void>; // omitted for viewers
+}
+
+// The task's direct subtasks with their columns, and a quick way to add one
+export function SubtaskList({
+  task,
+  tasks,
+  columns = DEFAULT_COLUMNS,
+  onView,
+  onCreate,
+}: SubtaskListProps) {
+  const [title, setTitle] = useState("");
+  const [saving, setSaving] = useState(false);
+  const subtasks = getSubtasks(task.id, tasks);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !onCreate || saving) return;
+
+    setSaving(true);
+    try {
+      await onCreate(title.trim());
+      setTitle("");
+    } catch {
+      // The parent reports the error; keep the title to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {subtasks.map((subtask) => {
+        const column = columns.find((c) => c.id === subtask.status);
+        return (
+          <button
+            key={subtask.id}
+            type="button"
+            onClick={() => onView?.(subtask)}
+            disabled={!onView}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:hover:bg-transparent"
+          >
+            <span
+              className={cn(
+                "flex-1 truncate text-sm",
+                column?.countsAsDone
+                  ? "line-through text-gray-400"
+                  : "text-gray-700 dark:text-gray-300"
+              )}
+            >
+              {subtask.title}
+            </span>
+            <span
+              className={cn(
+                "px-2 py-0.5 text-xs rounded-full",
+                columnColorConfig[column?.color ?? "blue"].badge
+              )}
+            >
+              {column?.name ?? subtask.status}
+            </span>
+          </button>
+        );
+      })}
+      {onCreate && (
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Add a subtask"
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            type="submit"
+            disabled={!title.trim() || saving}
+            className="px-2 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg disabled:opacity-50"
+            aria-label="Add subtask"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState } from "react";
-import { Task } from "@/lib/types";
+import { Label, Task, TaskProgress, User } from "@/lib/types";
 import { priorityConfig } from "@/lib/utils";
 import {
   GripVertical,
@@ -10,8 +10,14 @@ import {
   Clock,
   Eye,
   Edit3,
+  MessageSquare,
+  CheckCircle,
 } from "lucide-react";
 import { AITaskEnhancement } from "./AIComponents";
+import { AssigneeAvatars } from "./Assignees";
+import { TaskProgressBar } from "./Subtasks";
+import { LabelChips } from "./Labels";
+import { HighlightedText } from "./TaskSearch";
 
 interface TaskCardProps {
   task: Task;
@@ -26,6 +32,18 @@ interface TaskCardProps {
   onTouchMove?: (e: React.TouchEvent) => void;
   onTouchEnd?: (e: React.TouchEvent) => void;
   showAIFeatures?: boolean;
+  readOnly?: boolean; // viewers can open the task but not move, edit or delete it
+  assignees?: User[];
+  labels?: Label[]; // the task's labels, resolved from its board
+  commentCount?: number;
+  progress?: TaskProgress; // subtasks and checklist
+  readyToComplete?: boolean; // every subtask is done but this isn't
+  highlightTerms?: string[]; // words the board search matched
+  tabIndex?: number; // -1 keeps the card and its buttons out of the tab order
+  onKeyDown?: (e: React.KeyboardEvent<HTMLDivElement>) => void;
+  describedBy?: string; // id of the board's keyboard instructions
+  isSelected?: boolean; // part of a bulk selection
+  onSelect?: (e: React.MouseEvent<HTMLDivElement>) => void; // shift/ctrl-click
 }
 
 export function TaskCard({
@@ -41,6 +59,18 @@ export function TaskCard({
   onTouchMove,
   onTouchEnd,
   showAIFeatures = true,
+  readOnly = false,
+  assignees = [],
+  labels = [],
+  commentCount = 0,
+  progress,
+  readyToComplete = false,
+  highlightTerms,
+  tabIndex = 0,
+  onKeyDown,
+  describedBy,
+  isSelected = false,
+  onSelect,
 }: TaskCardProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const priority = priorityConfig[task.priority];
@@ -57,6 +87,25 @@ export function TaskCard({
     }
   };
 
+  // What a screen reader says on reaching the card
+  const cardLabel = [
+    task.title,
+    `${task.priority} priority`,
+    assignees.length > 0 &&
+      `assigned to ${assignees.map((user) => user.fullName).join(", ")}`,
+    labels.length > 0 &&
+      `labelled ${labels.map((label) => label.name).join(", ")}`,
+    progress &&
+      progress.total > 0 &&
+      `${progress.completed} of ${progress.total} done`,
+    commentCount > 0 &&
+      `${commentCount} comment${commentCount !== 1 ? "s" : ""}`,
+    readOnly && "read only",
+    isSelected && "selected",
+  ]
+    .filter(Boolean)
+    .join(", ");
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString("en-US", {
@@ -69,8 +118,13 @@ export function TaskCard({
 
   return (
     <div
-      tabIndex={0}
-      draggable={true}
+      id={`task-card-${task.id}`}
+      role="group"
+      aria-roledescription="task card"
+      aria-label={cardLabel}
+      aria-describedby={describedBy}
+      tabIndex={tabIndex}
+      draggable={!readOnly}
       onDragStart={(e) => {
         e.dataTransfer.effectAllowed = "move";
         e.dataTransfer.setData("text/plain", task.id);
@@ -79,14 +133,25 @@ export function TaskCard({
       onDragEnd={() => {
         // Reset any visual states after drag ends
       }}
-      onClick={onFocus}
+      onClick={(e) => {
+        if (onSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+          onSelect(e);
+        } else {
+          onFocus?.();
+        }
+      }}
+      onFocus={(e) => e.target === e.currentTarget && onFocus?.()}
+      onKeyDown={onKeyDown}
       onTouchStart={onTouchStart}
       onTouchMove={onTouchMove}
       onTouchEnd={onTouchEnd}
       className={`
         group relative p-5 bg-white dark:bg-gray-800 rounded-xl shadow-sm
-        border transition-all duration-300 cursor-grab active:cursor-grabbing
+        border transition-all duration-300 ${
+          readOnly ? "cursor-pointer" : "cursor-grab active:cursor-grabbing"
+        }
         select-none touch-none overflow-hidden
+        outline-none focus-visible:ring-4 focus-visible:ring-blue-300 dark:focus-visible:ring-blue-700
         ${
           isDragging
             ? "opacity-30 transform scale-95 rotate-1 shadow-2xl border-blue-400 dark:border-blue-500 bg-blue-50 dark:bg-blue-900/20"
@@ -95,6 +160,8 @@ export function TaskCard({
         ${
           isFocused
             ? "border-blue-500 ring-4 ring-blue-100 dark:ring-blue-900/30 shadow-lg"
+            : isSelected
+            ? "border-blue-400 dark:border-blue-500 ring-2 ring-blue-200 dark:ring-blue-800"
             : "border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600"
         }
         before:absolute before:top-0 before:left-0 before:w-full before:h-1 before:bg-gradient-to-r
@@ -119,33 +186,43 @@ export function TaskCard({
       />
 
       <div className="flex items-start justify-between mb-3">
+        {isSelected && (
+          <CheckCircle className="w-4 h-4 mt-0.5 mr-2 flex-shrink-0 text-blue-500" />
+        )}
         <h3 className="font-semibold text-gray-900 dark:text-white flex-1 pr-2 text-sm leading-relaxed">
-          {task.title}
+          <HighlightedText text={task.title} terms={highlightTerms} />
         </h3>
-        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all duration-200">
+        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-all duration-200">
           <button
             onClick={(e) => {
               e.stopPropagation();
               onView?.(task);
             }}
+            tabIndex={tabIndex}
             className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-blue-500 dark:text-gray-500 dark:hover:text-blue-400 transition-all duration-200 flex-shrink-0"
             title="View task details"
+            aria-label={`View ${task.title}`}
           >
             <Eye className="w-3.5 h-3.5" />
           </button>
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onEdit?.(task);
-            }}
-            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-green-500 dark:text-gray-500 dark:hover:text-green-400 transition-all duration-200 flex-shrink-0"
-            title="Edit task"
-          >
-            <Edit3 className="w-3.5 h-3.5" />
-          </button>
-          <button
-            onClick={handleDeleteClick}
-            className={`
+          {!readOnly && (
+            <>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onEdit?.(task);
+                }}
+                tabIndex={tabIndex}
+                className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-green-500 dark:text-gray-500 dark:hover:text-green-400 transition-all duration-200 flex-shrink-0"
+                title="Edit task"
+                aria-label={`Edit ${task.title}`}
+              >
+                <Edit3 className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={handleDeleteClick}
+                tabIndex={tabIndex}
+                className={`
               p-1.5 rounded-lg transition-all duration-200 flex-shrink-0
               ${
                 showDeleteConfirm
@@ -153,26 +230,43 @@ export function TaskCard({
                   : "hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-red-500 dark:text-gray-500 dark:hover:text-red-400"
               }
             `}
-            title={
-              showDeleteConfirm
-                ? "Click again to confirm delete"
-                : "Delete task"
-            }
-          >
-            <Trash2 className="w-3.5 h-3.5" />
-          </button>
-          <div className="p-1 opacity-60">
-            <GripVertical className="w-3.5 h-3.5 text-gray-400 dark:text-gray-500" />
-          </div>
+                title={
+                  showDeleteConfirm
+                    ? "Click again to confirm delete"
+                    : "Delete task"
+                }
+                aria-label={
+                  showDeleteConfirm
+                    ? `Confirm deleting ${task.title}`
+                    : `Delete ${task.title}`
+                }
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+              <div className="p-1 opacity-60" aria-hidden="true">
+                <GripVertical className="w-3.5 h-3.5 text-gray-400 dark:text-gray-500" />
+              </div>
+            </>
+          )}
         </div>
       </div>
 
       {task.description && (
         <p className="text-sm text-gray-600 dark:text-gray-400 mb-4 line-clamp-2 leading-relaxed">
-          {task.description}
+          <HighlightedText text={task.description} terms={highlightTerms} />
         </p>
       )}
 
+      <LabelChips labels={labels} max={3} className="mb-3" />
+
+      {progress && <TaskProgressBar progress={progress} className="mb-3" />}
+      {readyToComplete && (
+        <div className="mb-3 flex items-center gap-1.5 text-xs text-green-700 dark:text-green-400">
+          <CheckCircle className="w-3.5 h-3.5" />
+          All subtasks done
+        </div>
+      )}
+
       <div className="flex items-center justify-between">
         <span
           className={`inline-flex items-center px-2.5 py-1 text-xs font-medium rounded-full ${priority.className}`}
@@ -186,11 +280,25 @@ export function TaskCard({
                 : "bg-gray-500"
             }`}
           />
+          <span className="sr-only">Priority: </span>
           {task.priority}
         </span>
 
         {/* Task metadata */}
         <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <AssigneeAvatars users={assignees} />
+          {commentCount > 0 && (
+            <div
+              className="flex items-center gap-1"
+              title={`${commentCount} comment${commentCount !== 1 ? "s" : ""}`}
+            >
+              <MessageSquare className="w-3 h-3" />
+              <span>{commentCount}</span>
+              <span className="sr-only">
+                {commentCount !== 1 ? " comments" : " comment"}
+              </span>
+            </div>
+          )}
           <div
             className="flex items-center gap-1"
             title={`Created: ${formatDate(task.createdAt)}`}
@@ -241,6 +349,7 @@ export function TaskCard({
             <div className="flex gap-2 justify-center">
               <button
                 onClick={handleDeleteClick}
+                tabIndex={tabIndex}
                 className="px-3 py-1 bg-red-500 text-white text-xs rounded-lg hover:bg-red-600 transition-colors"
               >
                 Delete
@@ -250,6 +359,7 @@ export function TaskCard({
                   e.stopPropagation();
                   setShowDeleteConfirm(false);
                 }}
+                tabIndex={tabIndex}
                 className="px-3 py-1 bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 text-xs rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
               >
                 Cancel
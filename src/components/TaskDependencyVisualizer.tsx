@@ -33,10 +33,13 @@ export interface TaskNode {
 export interface TaskEdge {
   source: string;
   target: string;
-  type: "blocks" | "enables" | "related" | "parallel";
+  type: "blocks" | "enables" | "related" | "parallel" | "parent";
   strength: number;
 }
 
+// Parent/child edges describe how work is broken down, not what waits on what
+const isDependencyEdge = (edge: TaskEdge) => edge.type !== "parent";
+
 export interface DependencyAnalysis {
   criticalPath: string[];
   bottlenecks: string[];
@@ -91,6 +94,7 @@ export class IntelligentDependencyAnalyzer {
 
     // Add parent relationships
     edges.forEach((edge) => {
+      if (!isDependencyEdge(edge)) return;
       const targetNode = nodes.find((n) => n.id === edge.target);
       const sourceNode = nodes.find((n) => n.id === edge.source);
       if (targetNode && sourceNode) {
@@ -98,6 +102,18 @@ export class IntelligentDependencyAnalyzer {
       }
     });
 
+    // Subtasks hang off their parent task
+    tasks.forEach((task) => {
+      if (task.parentId && tasks.some((t) => t.id === task.parentId)) {
+        edges.push({
+          source: task.parentId,
+          target: task.id,
+          type: "parent",
+          strength: 2,
+        });
+      }
+    });
+
     return edges;
   }
 
@@ -142,10 +158,13 @@ export class IntelligentDependencyAnalyzer {
     nodes: TaskNode[],
     edges: TaskEdge[]
   ): DependencyAnalysis {
-    const criticalPath = this.findCriticalPath(nodes, edges);
-    const bottlenecks = this.identifyBottlenecks(nodes, edges);
+    // A parent and its subtasks are never parallel work, but the breakdown
+    // doesn't order them or make the parent a bottleneck
+    const dependencyEdges = edges.filter(isDependencyEdge);
+    const criticalPath = this.findCriticalPath(nodes, dependencyEdges);
+    const bottlenecks = this.identifyBottlenecks(nodes, dependencyEdges);
     const parallelizable = this.findParallelizableTasks(nodes, edges);
-    const cyclicDependencies = this.detectCycles(nodes, edges);
+    const cyclicDependencies = this.detectCycles(nodes, dependencyEdges);
     const complexity = this.calculateComplexity(nodes, edges);
     const estimatedDuration = this.estimateDuration(nodes, criticalPath);
 
@@ -555,10 +574,19 @@ export function TaskDependencyVisualizer({ tasks }: { tasks: Task[] }) {
                           y1={sourceNode.y}
                           x2={targetNode.x}
                           y2={targetNode.y}
-                          stroke="#6B7280"
+                          stroke={
+                            edge.type === "parent" ? "#10B981" : "#6B7280"
+                          }
                           strokeWidth={Math.max(1, edge.strength / 5)}
+                          strokeDasharray={
+                            edge.type === "parent" ? "4 3" : undefined
+                          }
                           opacity={0.6}
-                          markerEnd="url(#arrowhead)"
+                          markerEnd={
+                            edge.type === "parent"
+                              ? undefined
+                              : "url(#arrowhead)"
+                          }
                         />
                       </g>
                     );
@@ -626,6 +654,10 @@ export function TaskDependencyVisualizer({ tasks }: { tasks: Task[] }) {
                       <div className="w-3 h-3 rounded-full bg-purple-500"></div>
                       <span>Cyclic Dependencies</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 border-t-2 border-dashed border-emerald-500"></div>
+                      <span>Subtask</span>
+                    </div>
                   </div>
                 </div>
               </div>
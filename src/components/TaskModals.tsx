@@ -1,19 +1,115 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { createPortal } from "react-dom";
-import { X, Calendar, Clock, Edit3, Save } from "lucide-react";
-import { Task, TaskPriority } from "@/lib/types";
-import { priorityConfig } from "@/lib/utils";
+import {
+  X,
+  Calendar,
+  Clock,
+  Edit3,
+  Save,
+  GitMerge,
+  AlertTriangle,
+  History,
+  FileText,
+  ListTree,
+} from "lucide-react";
+import {
+  Task,
+  TaskPriority,
+  TaskConflict,
+  TaskField,
+  ConflictResolution,
+  User,
+  Sprint,
+  WorkflowColumn,
+  Comment,
+  CreateCommentInput,
+  ChecklistItem,
+  Label,
+  ColumnColor,
+  UpdateTaskInput,
+} from "@/lib/types";
+import {
+  priorityConfig,
+  parseMentions,
+  DEFAULT_COLUMNS,
+  columnColorConfig,
+  cn,
+  getTaskProgress,
+  isReadyToComplete,
+  getTaskLabels,
+  deepEqual,
+} from "@/lib/utils";
+import { useActivity } from "@/hooks/useActivity";
+import { useFocusTrap } from "@/hooks/useFocusTrap";
+import { AssigneePicker, MentionText, UserAvatar } from "./Assignees";
+import { ActivityTimeline } from "./ActivityLog";
+import { TaskComments } from "./Comments";
+import { ChecklistEditor, SubtaskList, TaskProgressBar } from "./Subtasks";
+import { LabelChips, LabelPicker } from "./Labels";
 
 interface ViewTaskModalProps {
   task: Task;
   isOpen: boolean;
   onClose: () => void;
+  members?: User[]; // resolves assignees and @mentions
+  columns?: WorkflowColumn[];
+  sprints?: Sprint[]; // names the sprints in the activity tab
+  labels?: Label[]; // the board's labels
+  tasks?: Task[]; // the board's tasks, for subtasks and the parent
+  onViewTask?: (task: Task) => void;
+  // Subtasks and checklist; read-only without the handlers
+  onChecklistChange?: (checklist: ChecklistItem[]) => void;
+  onCreateSubtask?: (title: string) => Promise<void>;
+  // Discussion; the section is hidden without the handlers
+  comments?: Comment[];
+  currentUserId?: string;
+  canModerateComments?: boolean;
+  onCreateComment?: (input: CreateCommentInput) => Promise<Comment>;
+  onUpdateComment?: (id: string, body: string) => Promise<Comment>;
+  onDeleteComment?: (id: string) => Promise<void>;
 }
 
-export function ViewTaskModal({ task, isOpen, onClose }: ViewTaskModalProps) {
+type ViewTaskTab = "details" | "activity";
+
+export function ViewTaskModal({
+  task,
+  isOpen,
+  onClose,
+  members = [],
+  columns = DEFAULT_COLUMNS,
+  sprints = [],
+  labels = [],
+  tasks = [],
+  onViewTask,
+  onChecklistChange,
+  onCreateSubtask,
+  comments = [],
+  currentUserId,
+  canModerateComments = false,
+  onCreateComment,
+  onUpdateComment,
+  onDeleteComment,
+}: ViewTaskModalProps) {
+  const [tab, setTab] = useState<ViewTaskTab>("details");
+  // Only fetched once the tab is opened, and again after each change
+  const activity = useActivity(
+    isOpen && tab === "activity" ? task.boardId : null,
+    { taskId: task.id },
+    task.updatedAt
+  );
   const priority = priorityConfig[task.priority];
+  const column = columns.find((c) => c.id === task.status);
+  const assignees = members.filter((member) =>
+    task.assigneeIds?.includes(member.id)
+  );
+  const taskLabels = getTaskLabels(task, labels);
+  const parent = task.parentId
+    ? tasks.find((other) => other.id === task.parentId)
+    : undefined;
+  const progress = getTaskProgress(task, tasks, columns);
+  const hasSubtasks = tasks.some((other) => other.parentId === task.id);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -26,6 +122,10 @@ export function ViewTaskModal({ task, isOpen, onClose }: ViewTaskModalProps) {
     });
   };
 
+  // Tab stays in the dialog and Escape closes it
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, isOpen, onClose);
+
   if (!isOpen) return null;
 
   const modalContent = (
@@ -38,7 +138,14 @@ export function ViewTaskModal({ task, isOpen, onClose }: ViewTaskModalProps) {
         />
 
         {/* Modal */}
-        <div className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700">
+        <div
+          ref={dialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="view-task-title"
+          tabIndex={-1}
+          className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 outline-none"
+        >
           {/* Header */}
           <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
             <div className="flex items-center gap-3">
@@ -51,20 +158,73 @@ export function ViewTaskModal({ task, isOpen, onClose }: ViewTaskModalProps) {
                     : "bg-gray-500"
                 }`}
               />
-              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              <h2
+                id="view-task-title"
+                className="text-xl font-bold text-gray-900 dark:text-white"
+              >
                 Task Details
               </h2>
             </div>
             <button
               onClick={onClose}
+              aria-label="Close"
               className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
             >
               <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
             </button>
           </div>
 
+          {/* Tabs - the activity log lives with the board */}
+          {task.boardId && (
+            <div className="flex gap-1 px-6 pt-4">
+              {(
+                [
+                  { key: "details", label: "Details", icon: FileText },
+                  { key: "activity", label: "Activity", icon: History },
+                ] as const
+              ).map((option) => (
+                <button
+                  key={option.key}
+                  onClick={() => setTab(option.key)}
+                  className={cn(
+                    "flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+                    tab === option.key
+                      ? "bg-blue-100 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400"
+                      : "text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  )}
+                >
+                  <option.icon className="w-4 h-4" />
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Activity */}
+          {tab === "activity" && (
+            <div className="p-6 max-h-[60vh] overflow-y-auto">
+              {activity.error ? (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {activity.error.message || "Failed to load activity"}
+                </p>
+              ) : activity.loading && activity.entries.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Loading…
+                </p>
+              ) : (
+                <ActivityTimeline
+                  entries={activity.entries}
+                  members={members}
+                  columns={columns}
+                  sprints={sprints}
+                  labels={labels}
+                />
+              )}
+            </div>
+          )}
+
           {/* Content */}
-          <div className="p-6 space-y-6">
+          <div className={cn("p-6 space-y-6", tab !== "details" && "hidden")}>
             {/* Title */}
             <div>
               <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
@@ -82,11 +242,41 @@ export function ViewTaskModal({ task, isOpen, onClose }: ViewTaskModalProps) {
                   Description
                 </label>
                 <p className="text-gray-600 dark:text-gray-400 leading-relaxed whitespace-pre-wrap">
-                  {task.description}
+                  <MentionText text={task.description} users={members} />
                 </p>
               </div>
             )}
 
+            {/* Assignees */}
+            {assignees.length > 0 && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+                  Assignees
+                </label>
+                <div className="flex flex-wrap gap-3">
+                  {assignees.map((assignee) => (
+                    <span
+                      key={assignee.id}
+                      className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                    >
+                      <UserAvatar user={assignee} size="md" />
+                      {assignee.fullName}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Labels */}
+            {taskLabels.length > 0 && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+                  Labels
+                </label>
+                <LabelChips labels={taskLabels} />
+              </div>
+            )}
+
             {/* Priority */}
             <div>
               <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
@@ -113,13 +303,63 @@ export function ViewTaskModal({ task, isOpen, onClose }: ViewTaskModalProps) {
               <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
                 Status
               </label>
-              <span className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400">
-                {task.status === "todo" && "To Do"}
-                {task.status === "in-progress" && "In Progress"}
-                {task.status === "done" && "Done"}
+              <span
+                className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-full ${
+                  columnColorConfig[column?.color ?? "blue"].badge
+                }`}
+              >
+                {column?.name ?? task.status}
               </span>
             </div>
 
+            {/* Subtasks & Checklist */}
+            {(parent ||
+              hasSubtasks ||
+              onCreateSubtask ||
+              (task.checklist?.length ?? 0) > 0) && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-2">
+                  <ListTree className="w-4 h-4" />
+                  Subtasks & Checklist
+                </label>
+                {parent && (
+                  <p className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+                    Subtask of{" "}
+                    <button
+                      type="button"
+                      onClick={() => onViewTask?.(parent)}
+                      className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {parent.title}
+                    </button>
+                  </p>
+                )}
+                <TaskProgressBar progress={progress} className="mb-3" />
+                {isReadyToComplete(task, tasks, columns) && (
+                  <p className="mb-3 px-3 py-2 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">
+                    Every subtask is done - this task can be completed too.
+                  </p>
+                )}
+                <SubtaskList
+                  task={task}
+                  tasks={tasks}
+                  columns={columns}
+                  onView={onViewTask}
+                  onCreate={onCreateSubtask}
+                />
+                {(onChecklistChange || (task.checklist?.length ?? 0) > 0) && (
+                  <div className="mt-3">
+                    <ChecklistEditor
+                      items={task.checklist || []}
+                      onChange={(items) => onChecklistChange?.(items)}
+                      disabled={!onChecklistChange}
+                      readOnly={!onChecklistChange}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Timestamps */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -141,6 +381,22 @@ export function ViewTaskModal({ task, isOpen, onClose }: ViewTaskModalProps) {
                 </p>
               </div>
             </div>
+
+            {/* Comments */}
+            {onCreateComment && onUpdateComment && onDeleteComment && (
+              <div className="pt-6 border-t border-gray-200 dark:border-gray-700">
+                <TaskComments
+                  taskId={task.id}
+                  comments={comments}
+                  members={members}
+                  currentUserId={currentUserId}
+                  canModerate={canModerateComments}
+                  onCreate={onCreateComment}
+                  onUpdate={onUpdateComment}
+                  onDelete={onDeleteComment}
+                />
+              </div>
+            )}
           </div>
 
           {/* Footer */}
@@ -164,7 +420,11 @@ interface EditTaskModalProps {
   task: Task;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (updatedTask: Partial<Task>) => void;
+  onSave: (changes: UpdateTaskInput) => void; // only the fields that changed
+  members?: User[]; // people the task can be assigned to
+  parentOptions?: Task[]; // tasks it can become a subtask of
+  labels?: Label[]; // the board's labels
+  onCreateLabel?: (name: string, color: ColumnColor) => Promise<Label>;
 }
 
 export function EditTaskModal({
@@ -172,12 +432,24 @@ export function EditTaskModal({
   isOpen,
   onClose,
   onSave,
+  members = [],
+  parentOptions = [],
+  labels = [],
+  onCreateLabel,
 }: EditTaskModalProps) {
   const [formData, setFormData] = useState({
     title: task.title,
     description: task.description || "",
     priority: task.priority,
   });
+  const [assigneeIds, setAssigneeIds] = useState<string[]>(
+    task.assigneeIds ?? []
+  );
+  const [labelIds, setLabelIds] = useState<string[]>(task.labelIds ?? []);
+  const [parentId, setParentId] = useState(task.parentId ?? "");
+  const [checklist, setChecklist] = useState<ChecklistItem[]>(
+    task.checklist ?? []
+  );
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -195,13 +467,40 @@ export function EditTaskModal({
       return;
     }
 
-    onSave({
+    // Anyone @mentioned in the description is assigned too
+    const mentionedIds = parseMentions(formData.description, members);
+
+    const edited: UpdateTaskInput = {
       title: formData.title.trim(),
       description: formData.description.trim(),
       priority: formData.priority,
-      updatedAt: new Date().toISOString(),
-    });
-
+      assigneeIds: Array.from(new Set([...assigneeIds, ...mentionedIds])),
+      labelIds,
+      parentId: parentId || null,
+      checklist,
+    };
+    const original: UpdateTaskInput = {
+      title: task.title,
+      description: task.description || "",
+      priority: task.priority,
+      assigneeIds: task.assigneeIds ?? [],
+      labelIds: task.labelIds ?? [],
+      parentId: task.parentId ?? null,
+      checklist: task.checklist ?? [],
+    };
+
+    // Send only what was edited here, so someone else's concurrent change to
+    // another field merges instead of conflicting
+    const changes = Object.fromEntries(
+      Object.entries(edited).filter(
+        ([field, value]) =>
+          !deepEqual(value, original[field as keyof UpdateTaskInput])
+      )
+    ) as UpdateTaskInput;
+
+    if (Object.keys(changes).length > 0) {
+      onSave(changes);
+    }
     onClose();
   };
 
@@ -212,6 +511,10 @@ export function EditTaskModal({
     }
   };
 
+  // Tab stays in the dialog and Escape closes it
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, isOpen, onClose);
+
   if (!isOpen) return null;
 
   const modalContent = (
@@ -224,19 +527,30 @@ export function EditTaskModal({
         />
 
         {/* Modal */}
-        <div className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700">
+        <div
+          ref={dialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="edit-task-title"
+          tabIndex={-1}
+          className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 outline-none"
+        >
           <form onSubmit={handleSubmit}>
             {/* Header */}
             <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
               <div className="flex items-center gap-3">
                 <Edit3 className="w-5 h-5 text-blue-600 dark:text-blue-400" />
-                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                <h2
+                  id="edit-task-title"
+                  className="text-xl font-bold text-gray-900 dark:text-white"
+                >
                   Edit Task
                 </h2>
               </div>
               <button
                 type="button"
                 onClick={onClose}
+                aria-label="Close"
                 className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
               >
                 <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
@@ -278,7 +592,7 @@ export function EditTaskModal({
                   }
                   rows={4}
                   className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors resize-none"
-                  placeholder="Enter task description (optional)"
+                  placeholder="Enter task description (optional) - @mention teammates to assign them"
                 />
               </div>
 
@@ -302,6 +616,58 @@ export function EditTaskModal({
                   <option value="high">High Priority</option>
                 </select>
               </div>
+
+              {/* Assignees */}
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+                  Assignees
+                </label>
+                <AssigneePicker
+                  users={members}
+                  selectedIds={assigneeIds}
+                  onChange={setAssigneeIds}
+                />
+              </div>
+
+              {/* Labels */}
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+                  Labels
+                </label>
+                <LabelPicker
+                  labels={labels}
+                  selectedIds={labelIds}
+                  onChange={setLabelIds}
+                  onCreate={onCreateLabel}
+                />
+              </div>
+
+              {/* Parent Task */}
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+                  Subtask of
+                </label>
+                <select
+                  value={parentId}
+                  onChange={(e) => setParentId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors"
+                >
+                  <option value="">No parent task</option>
+                  {parentOptions.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.title}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Checklist */}
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 block">
+                  Checklist
+                </label>
+                <ChecklistEditor items={checklist} onChange={setChecklist} />
+              </div>
             </div>
 
             {/* Footer */}
@@ -330,3 +696,177 @@ export function EditTaskModal({
 
   return createPortal(modalContent, document.body);
 }
+
+interface ConflictResolutionModalProps {
+  conflict: TaskConflict;
+  isOpen: boolean;
+  onClose: () => void;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+const conflictFieldLabels: Record<TaskField, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  priority: "Priority",
+  rank: "Position",
+  sprintId: "Sprint",
+  parentId: "Parent task",
+  assigneeIds: "Assignees",
+  labelIds: "Labels",
+  checklist: "Checklist",
+  scheduling: "Scheduling",
+  aiData: "AI details",
+};
+
+const formatConflictValue = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value, null, 2);
+};
+
+export function ConflictResolutionModal({
+  conflict,
+  isOpen,
+  onClose,
+  onResolve,
+}: ConflictResolutionModalProps) {
+  const [choices, setChoices] = useState<ConflictResolution>(() =>
+    Object.fromEntries(
+      conflict.conflictingFields.map((field) => [field, "local"])
+    )
+  );
+
+  const mergedFields = Object.keys(conflict.mergedChanges) as TaskField[];
+
+  const keepTheirs = () => {
+    onResolve(
+      Object.fromEntries(
+        conflict.conflictingFields.map((field) => [field, "remote"])
+      )
+    );
+  };
+
+  // Tab stays in the dialog and Escape closes it
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, isOpen, onClose);
+
+  if (!isOpen) return null;
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[9999] overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div
+          ref={dialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="conflict-title"
+          tabIndex={-1}
+          className="relative w-full max-w-2xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 outline-none"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <GitMerge className="w-5 h-5 text-orange-600 dark:text-orange-400" />
+              <div>
+                <h2
+                  id="conflict-title"
+                  className="text-xl font-bold text-gray-900 dark:text-white"
+                >
+                  Resolve Conflict
+                </h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  &quot;{conflict.remote.title}&quot; was changed while you were
+                  editing it
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-6">
+            {mergedFields.length > 0 && (
+              <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-800 dark:text-green-300">
+                Merged automatically:{" "}
+                {mergedFields
+                  .map((field) => conflictFieldLabels[field])
+                  .join(", ")}
+              </div>
+            )}
+
+            {conflict.conflictingFields.map((field) => (
+              <div key={field}>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-orange-500" />
+                  {conflictFieldLabels[field]}
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {(["local", "remote"] as const).map((side) => (
+                    <button
+                      key={side}
+                      type="button"
+                      onClick={() =>
+                        setChoices((prev) => ({ ...prev, [field]: side }))
+                      }
+                      className={`text-left p-3 rounded-lg border-2 transition-colors ${
+                        choices[field] === side
+                          ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                          : "border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600"
+                      }`}
+                    >
+                      <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                        {side === "local" ? "Your version" : "Their version"}
+                      </div>
+                      <p className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-words">
+                        {formatConflictValue(
+                          side === "local"
+                            ? conflict.local[field]
+                            : conflict.remote[field]
+                        )}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={keepTheirs}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors"
+            >
+              Keep Theirs
+            </button>
+            <button
+              type="button"
+              onClick={() => onResolve(choices)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              Save Resolution
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import { SearchOptions, SearchResult, Task, WorkflowColumn } from "@/lib/types";
+import { getHighlightRanges } from "@/lib/search";
+import { cn, columnColorConfig, DEFAULT_COLUMNS } from "@/lib/utils";
+
+const MAX_RESULTS = 20;
+const SNIPPET_CONTEXT = 40; // characters either side of a match
+
+interface HighlightedTextProps {
+  text: string;
+  terms?: string[]; // matched words, as returned by the search index
+}
+
+// Text with the words a search matched marked up
+export function HighlightedText({ text, terms = [] }: HighlightedTextProps) {
+  const ranges = getHighlightRanges(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    parts.push(text.slice(last, start));
+    parts.push(
+      <mark
+        key={start}
+        className="bg-yellow-200 dark:bg-yellow-500/30 text-inherit rounded-sm"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(text.slice(last));
+
+  return <>{parts}</>;
+}
+
+// The stretch of `text` around its first match, or null if nothing matched
+function getSnippet(text: string, terms: string[]): string | null {
+  const [first] = getHighlightRanges(text, terms);
+  if (!first) return null;
+
+  const start = Math.max(0, first[0] - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first[1] + SNIPPET_CONTEXT);
+  return `${start > 0 ? "..." : ""}${text.slice(start, end)}${
+    end < text.length ? "..." : ""
+  }`;
+}
+
+interface JumpToTaskDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tasks: Task[];
+  columns?: WorkflowColumn[];
+  search: (text: string, options?: SearchOptions) => SearchResult[];
+  onSelect: (task: Task) => void;
+}
+
+// Find any task on the board by its words and go straight to it
+export function JumpToTaskDialog(props: JumpToTaskDialogProps) {
+  // Mounted only while open, so every opening starts from a blank search
+  return props.isOpen ? <JumpToTaskPanel {...props} /> : null;
+}
+
+function JumpToTaskPanel({
+  onClose,
+  tasks,
+  columns = DEFAULT_COLUMNS,
+  search,
+  onSelect,
+}: JumpToTaskDialogProps) {
+  const [text, setText] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Best matches, or the most recently touched tasks before anything is typed
+  const results = text.trim()
+    ? search(text, { limit: MAX_RESULTS }).flatMap((result) => {
+        const task = tasks.find((t) => t.id === result.id);
+        return task ? [{ task, terms: result.terms }] : [];
+      })
+    : [...tasks]
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, 8)
+        .map((task) => ({ task, terms: [] as string[] }));
+  const active = Math.min(activeIndex, results.length - 1);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${active}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [active]);
+
+  const choose = (task: Task) => {
+    onSelect(task);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (results.length === 0) {
+      return;
+    } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((active + step + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(results[active].task);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center pt-24 px-4 bg-black/20 backdrop-blur-sm"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Jump to task"
+        className="w-full max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            autoFocus
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Jump to a task..."
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="jump-to-task-results"
+            aria-activedescendant={
+              results.length > 0 ? `jump-to-task-${active}` : undefined
+            }
+            className="flex-1 py-3 bg-transparent text-gray-900 dark:text-white outline-none"
+          />
+        </div>
+
+        {results.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No tasks match &quot;{text.trim()}&quot;
+          </p>
+        ) : (
+          <ul
+            ref={listRef}
+            id="jump-to-task-results"
+            role="listbox"
+            className="max-h-96 overflow-y-auto py-2"
+          >
+            {results.map(({ task, terms }, index) => {
+              const column = columns.find((c) => c.id === task.status);
+              const snippet =
+                getHighlightRanges(task.title, terms).length === 0
+                  ? getSnippet(task.description, terms) ??
+                    getSnippet(task.aiData?.enhancedDescription || "", terms)
+                  : null;
+
+              return (
+                <li
+                  key={task.id}
+                  id={`jump-to-task-${index}`}
+                  data-index={index}
+                  role="option"
+                  aria-selected={index === active}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    choose(task);
+                  }}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={cn(
+                    "px-4 py-2 cursor-pointer",
+                    index === active
+                      ? "bg-blue-50 dark:bg-blue-900/30"
+                      : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      <HighlightedText text={task.title} terms={terms} />
+                    </span>
+                    <span
+                      className={cn(
+                        "flex-shrink-0 px-2 py-0.5 text-xs rounded-full",
+                        columnColorConfig[column?.color ?? "blue"].badge
+                      )}
+                    >
+                      {column?.name ?? task.status}
+                    </span>
+                  </div>
+                  {snippet && (
+                    <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 truncate">
+                      <HighlightedText text={snippet} terms={terms} />
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="px-4 py-2 text-xs text-gray-400 border-t border-gray-200 dark:border-gray-700">
+          Arrow keys to choose, Enter to open, Esc to close
+        </div>
+      </div>
+    </div>
+  );
+}
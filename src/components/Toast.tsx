@@ -73,6 +73,7 @@ export function Toast({
   return (
     <div className="fixed top-4 right-4 z-40">
       <div
+        role={type === "error" ? "alert" : "status"}
         className={`
           flex items-center gap-3 p-4 rounded-lg border shadow-lg min-w-[320px] max-w-[480px]
           transform transition-all duration-300 ease-out
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { Undo, X } from "lucide-react";
 
 interface UndoOverlayProps {
+  title?: string;
   message: string;
   duration?: number;
   onUndo: () => void;
@@ -11,6 +12,7 @@ interface UndoOverlayProps {
 }
 
 export function UndoOverlay({
+  title = "Task Moved",
   message,
   duration = 5000,
   onUndo,
@@ -76,7 +78,7 @@ export function UndoOverlay({
           </div>
           <div className="flex-1">
             <h3 className="font-medium text-gray-900 dark:text-white mb-1">
-              Task Moved
+              {title}
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-300">
               {message}
@@ -0,0 +1,316 @@
+"use client";
+
+import React from "react";
+import { Gauge, CheckCircle, Users } from "lucide-react";
+import {
+  Task,
+  Sprint,
+  User,
+  WorkflowColumn,
+  DeveloperProfile,
+  VelocityPeriod,
+} from "@/lib/types";
+import {
+  cn,
+  getBacklogTasks,
+  calculateSprintVelocity,
+  calculateWeeklyVelocity,
+  getRollingAverage,
+  getWorkingDays,
+  getDailyCapacityHours,
+  forecastCapacity,
+  getTaskEffortHours,
+  toDateKey,
+} from "@/lib/utils";
+import { useLocalStorage } from "@/hooks/useTasks";
+
+const DEFAULT_WORKING_HOURS: DeveloperProfile["workingHours"] = {
+  start: "09:00",
+  end: "17:00",
+};
+const SPRINT_LENGTH_DAYS = 14;
+
+interface TeamCapacitySettings {
+  period: VelocityPeriod;
+  focusPercent: number; // share of the working day left for task work
+  workingHours: Record<string, DeveloperProfile["workingHours"]>;
+}
+
+// Dates of the iteration being planned: the next planned sprint, otherwise a
+// fresh sprint or week starting next Monday
+function getNextIteration(period: VelocityPeriod, sprints: Sprint[]) {
+  const planned = sprints.find((sprint) => sprint.state === "planned");
+  if (period === "sprint" && planned) {
+    return {
+      label: planned.name,
+      startDate: planned.startDate,
+      endDate: planned.endDate,
+    };
+  }
+
+  const start = new Date();
+  start.setDate(start.getDate() + ((8 - start.getDay()) % 7 || 7));
+  const end = new Date(start);
+  end.setDate(
+    end.getDate() + (period === "sprint" ? SPRINT_LENGTH_DAYS : 7) - 1
+  );
+  return {
+    label: period === "sprint" ? "Next sprint" : "Next week",
+    startDate: toDateKey(start),
+    endDate: toDateKey(end),
+  };
+}
+
+interface VelocityForecastPanelProps {
+  boardId: string;
+  tasks: Task[];
+  sprints: Sprint[];
+  columns: WorkflowColumn[];
+  members: User[];
+}
+
+export function VelocityForecastPanel({
+  boardId,
+  tasks,
+  sprints,
+  columns,
+  members,
+}: VelocityForecastPanelProps) {
+  // Team settings are kept per board, in this browser
+  const [settings, setSettings] = useLocalStorage<TeamCapacitySettings>(
+    `team-capacity-${boardId}`,
+    { period: "sprint", focusPercent: 70, workingHours: {} }
+  );
+
+  const hoursFor = (userId: string) =>
+    settings.workingHours[userId] || DEFAULT_WORKING_HOURS;
+
+  const entries =
+    settings.period === "sprint"
+      ? calculateSprintVelocity(sprints, tasks)
+      : calculateWeeklyVelocity(tasks, columns);
+  const rollingHours = getRollingAverage(
+    entries.map((entry) => entry.completedHours)
+  );
+  const rollingCount = getRollingAverage(
+    entries.map((entry) => entry.completedCount)
+  );
+  const velocityHours = rollingHours[rollingHours.length - 1];
+  const maxHours = Math.max(1, ...entries.map((e) => e.completedHours));
+
+  const iteration = getNextIteration(settings.period, sprints);
+  const workingDays = getWorkingDays(iteration.startDate, iteration.endDate);
+  const backlog = getBacklogTasks(tasks, sprints, columns);
+  const forecast = forecastCapacity(backlog, {
+    workingHours: members.map((member) => hoursFor(member.id)),
+    workingDays,
+    focusFactor: settings.focusPercent / 100,
+    velocityHours,
+  });
+
+  const updateHours = (
+    userId: string,
+    changes: Partial<DeveloperProfile["workingHours"]>
+  ) =>
+    setSettings({
+      ...settings,
+      workingHours: {
+        ...settings.workingHours,
+        [userId]: { ...hoursFor(userId), ...changes },
+      },
+    });
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-teal-600 dark:text-teal-400" />
+          <h3 className="font-medium text-gray-900 dark:text-white">
+            Velocity & Forecast
+          </h3>
+        </div>
+        <select
+          value={settings.period}
+          onChange={(e) =>
+            setSettings({
+              ...settings,
+              period: e.target.value as VelocityPeriod,
+            })
+          }
+          className="text-xs border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700"
+          aria-label="Measure velocity per"
+        >
+          <option value="sprint">Per sprint</option>
+          <option value="week">Per week</option>
+        </select>
+      </div>
+
+      {/* Velocity */}
+      <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-lg p-4 border border-gray-200/50 dark:border-gray-700/50">
+        <h4 className="font-medium text-gray-900 dark:text-white mb-3">
+          Velocity
+        </h4>
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Complete a sprint to start tracking velocity, or measure it per week
+            instead.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-end gap-1 h-24">
+              {entries.map((entry, index) => (
+                <div
+                  key={entry.startDate}
+                  className="flex-1 flex flex-col items-center justify-end h-full"
+                  title={`${entry.label}: ${entry.completedCount} tasks, ${entry.completedHours}h (rolling ${rollingHours[index]}h)`}
+                >
+                  <div
+                    className="w-full rounded-t bg-teal-500"
+                    style={{
+                      height: `${(entry.completedHours / maxHours) * 100}%`,
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 mt-1">
+              {entries.map((entry) => (
+                <span
+                  key={entry.startDate}
+                  className="flex-1 text-center text-[10px] text-gray-500 dark:text-gray-400 truncate"
+                >
+                  {entry.label}
+                </span>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4 mt-3">
+              <div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Rolling average
+                </div>
+                <div className="font-medium text-gray-900 dark:text-white">
+                  {velocityHours}h
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Tasks per {settings.period}
+                </div>
+                <div className="font-medium text-gray-900 dark:text-white">
+                  {rollingCount[rollingCount.length - 1]}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Team Capacity */}
+      <div className="bg-white/60 dark:bg-gray-800/60 backdrop-blur-sm rounded-lg p-4 border border-gray-200/50 dark:border-gray-700/50">
+        <h4 className="font-medium text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          Team Capacity
+        </h4>
+        <div className="space-y-2">
+          {members.map((member) => {
+            const hours = hoursFor(member.id);
+            return (
+              <div key={member.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">
+                  {member.fullName}
+                </span>
+                <input
+                  type="time"
+                  value={hours.start}
+                  onChange={(e) =>
+                    updateHours(member.id, { start: e.target.value })
+                  }
+                  className="text-xs border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700"
+                  aria-label={`${member.fullName} starts`}
+                />
+                <input
+                  type="time"
+                  value={hours.end}
+                  onChange={(e) =>
+                    updateHours(member.id, { end: e.target.value })
+                  }
+                  className="text-xs border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700"
+                  aria-label={`${member.fullName} finishes`}
+                />
+                <span className="w-8 text-right text-xs text-gray-500">
+                  {getDailyCapacityHours(hours)}h
+                </span>
+              </div>
+            );
+          })}
+          <label className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400 pt-1">
+            Focus time
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={10}
+                max={100}
+                value={settings.focusPercent}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    focusPercent: Math.min(
+                      100,
+                      Math.max(10, parseInt(e.target.value, 10) || 70)
+                    ),
+                  })
+                }
+                className="w-14 text-xs border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700"
+              />
+              %
+            </span>
+          </label>
+        </div>
+      </div>
+
+      {/* Forecast */}
+      <div className="bg-gradient-to-r from-teal-50 to-blue-50 dark:from-teal-900/20 dark:to-blue-900/20 rounded-lg p-4 border border-teal-200/50 dark:border-teal-800/50">
+        <h4 className="font-medium text-gray-900 dark:text-white mb-1">
+          {iteration.label} forecast
+        </h4>
+        <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+          {workingDays} working days · {forecast.capacityHours}h capacity
+          {forecast.budgetHours < forecast.capacityHours &&
+            `, capped at ${forecast.budgetHours}h by velocity`}
+        </p>
+        <div className="text-sm text-gray-800 dark:text-gray-200 mb-2">
+          <span className="font-semibold">
+            {forecast.fittingTaskIds.length} of {backlog.length}
+          </span>{" "}
+          backlog tasks likely fit ({forecast.fittingHours}h)
+        </div>
+        <ul className="space-y-1">
+          {backlog.slice(0, forecast.fittingTaskIds.length + 3).map((task) => {
+            const fits = forecast.fittingTaskIds.includes(task.id);
+            return (
+              <li
+                key={task.id}
+                className={cn(
+                  "flex items-center gap-2 text-xs",
+                  fits
+                    ? "text-gray-800 dark:text-gray-200"
+                    : "text-gray-400 dark:text-gray-500"
+                )}
+              >
+                <CheckCircle
+                  className={cn(
+                    "w-3.5 h-3.5 flex-shrink-0",
+                    fits ? "text-teal-600" : "text-gray-300 dark:text-gray-600"
+                  )}
+                />
+                <span className="flex-1 truncate">{task.title}</span>
+                <span>{Math.round(getTaskEffortHours(task) * 10) / 10}h</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
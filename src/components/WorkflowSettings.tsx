@@ -0,0 +1,348 @@
+"use client";
+
+import React, { useState } from "react";
+import { createPortal } from "react-dom";
+import {
+  X,
+  Save,
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Columns3,
+} from "lucide-react";
+import { ColumnColor, WipLimitMode, WorkflowColumn } from "@/lib/types";
+import { cn, columnColorConfig } from "@/lib/utils";
+
+const columnColors = Object.keys(columnColorConfig) as ColumnColor[];
+
+// Column ids double as task statuses, so keep them readable and unique
+function toColumnId(name: string, taken: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "column";
+
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+interface WorkflowSettingsModalProps {
+  columns: WorkflowColumn[];
+  taskCounts: Record<string, number>; // tasks per column, all filters off
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (columns: WorkflowColumn[]) => Promise<void>;
+}
+
+export function WorkflowSettingsModal({
+  columns,
+  taskCounts,
+  isOpen,
+  onClose,
+  onSave,
+}: WorkflowSettingsModalProps) {
+  const [draft, setDraft] = useState<WorkflowColumn[]>(columns);
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const updateColumn = (id: string, changes: Partial<WorkflowColumn>) => {
+    setDraft((prev) =>
+      prev.map((column) =>
+        column.id === id ? { ...column, ...changes } : column
+      )
+    );
+    setError(null);
+  };
+
+  const moveColumn = (index: number, offset: -1 | 1) => {
+    setDraft((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeColumn = (id: string) => {
+    setDraft((prev) => prev.filter((column) => column.id !== id));
+  };
+
+  const addColumn = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: toColumnId(
+          name,
+          prev.map((column) => column.id)
+        ),
+        name,
+        color: "blue",
+        order: prev.length,
+        countsAsDone: false,
+      },
+    ]);
+    setNewName("");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (draft.length === 0) {
+      setError("A board needs at least one column");
+      return;
+    }
+    if (draft.some((column) => !column.name.trim())) {
+      setError("Every column needs a name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(
+        draft.map((column, index) => ({
+          ...column,
+          name: column.name.trim(),
+          order: index,
+        }))
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save columns");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const modalContent = (
+    <div className="fixed inset-0 z-[9999] overflow-y-auto">
+      <div className="flex min-h-screen items-center justify-center p-4">
+        {/* Backdrop */}
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative w-full max-w-3xl bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700">
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <Columns3 className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Workflow Columns
+              </h2>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-6 space-y-3">
+            {draft.map((column, index) => {
+              const taskCount = taskCounts[column.id] || 0;
+              return (
+                <div
+                  key={column.id}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                >
+                  <span
+                    className={cn(
+                      "w-3 h-3 rounded-full flex-shrink-0",
+                      columnColorConfig[column.color].swatch
+                    )}
+                  />
+                  <input
+                    type="text"
+                    value={column.name}
+                    onChange={(e) =>
+                      updateColumn(column.id, { name: e.target.value })
+                    }
+                    className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    aria-label="Column name"
+                  />
+                  <select
+                    value={column.color}
+                    onChange={(e) =>
+                      updateColumn(column.id, {
+                        color: e.target.value as ColumnColor,
+                      })
+                    }
+                    className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white capitalize outline-none"
+                    aria-label="Column colour"
+                  >
+                    {columnColors.map((color) => (
+                      <option key={color} value={color}>
+                        {color}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={column.countsAsDone}
+                      onChange={(e) =>
+                        updateColumn(column.id, {
+                          countsAsDone: e.target.checked,
+                        })
+                      }
+                    />
+                    Done
+                  </label>
+                  <label
+                    className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap"
+                    title="Cycle time starts when a task first reaches a started column"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!!column.countsAsStarted && !column.countsAsDone}
+                      disabled={column.countsAsDone}
+                      onChange={(e) =>
+                        updateColumn(column.id, {
+                          countsAsStarted: e.target.checked || undefined,
+                        })
+                      }
+                    />
+                    Started
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={column.wipLimit ?? ""}
+                    onChange={(e) =>
+                      updateColumn(column.id, {
+                        wipLimit:
+                          parseInt(e.target.value, 10) > 0
+                            ? parseInt(e.target.value, 10)
+                            : undefined,
+                      })
+                    }
+                    placeholder="WIP"
+                    className="w-16 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white outline-none"
+                    aria-label="WIP limit"
+                    title="Work-in-progress limit (empty for none)"
+                  />
+                  {column.wipLimit && (
+                    <select
+                      value={column.wipLimitMode ?? "warn"}
+                      onChange={(e) =>
+                        updateColumn(column.id, {
+                          wipLimitMode: e.target.value as WipLimitMode,
+                        })
+                      }
+                      className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white outline-none"
+                      aria-label="When the limit is reached"
+                    >
+                      <option value="warn">Warn</option>
+                      <option value="block">Block</option>
+                    </select>
+                  )}
+                  <div className="flex items-center">
+                    <button
+                      type="button"
+                      onClick={() => moveColumn(index, -1)}
+                      disabled={index === 0}
+                      className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+                      title="Move earlier"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveColumn(index, 1)}
+                      disabled={index === draft.length - 1}
+                      className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+                      title="Move later"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => removeColumn(column.id)}
+                      disabled={taskCount > 0}
+                      className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 transition-colors"
+                      title={
+                        taskCount > 0
+                          ? `Move its ${taskCount} task${
+                              taskCount !== 1 ? "s" : ""
+                            } out first`
+                          : "Delete column"
+                      }
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+
+            <form onSubmit={addColumn} className="flex items-center gap-2 pt-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New column, e.g. Review"
+                className="flex-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg text-sm transition-colors flex items-center gap-1 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </form>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Tasks in columns marked Done count as completed in analytics and
+              scheduling. Cycle time starts when a task reaches a Started column
+              - with none marked, every column after the first counts. A WIP
+              limit either warns before a column goes over it or blocks the
+              move.
+            </p>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? "Saving..." : "Save Columns"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return createPortal(modalContent, document.body);
+}
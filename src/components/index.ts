@@ -2,15 +2,51 @@ export { TaskCard } from "./TaskCard";
 export { CreateTaskModal } from "./CreateTaskModal";
 export { Toast } from "./Toast";
 export { UndoOverlay } from "./UndoOverlay";
+export { BoardSwitcher } from "./BoardSwitcher";
+export { WorkflowSettingsModal } from "./WorkflowSettings";
+export {
+  ActiveSprintBanner,
+  SprintBacklog,
+  CompleteSprintModal,
+} from "./Sprints";
+export {
+  UserAvatar,
+  AssigneeAvatars,
+  AssigneePicker,
+  MentionText,
+} from "./Assignees";
 export { AITaskEnhancement, AIInsightsPanel } from "./AIComponents";
 export { AISettingsPanel } from "./AISettings";
-export { ViewTaskModal, EditTaskModal } from "./TaskModals";
+export {
+  ViewTaskModal,
+  EditTaskModal,
+  ConflictResolutionModal,
+} from "./TaskModals";
 export { SmartSchedulerPanel, SchedulingTaskCard } from "./SmartScheduler";
 export { CodeContextAnalyzer, CodeInsightsPanel } from "./CodeInsights";
 export {
   ProductivityAnalyzer,
   ProductivityDashboard,
+  FlowAnalyticsPanel,
 } from "./ProductivityAnalytics";
+export { BurnChart, SprintProgressPanel } from "./BurnChart";
+export { VelocityForecastPanel } from "./VelocityForecast";
+export { ActivityTimeline, ActivityFeedPanel } from "./ActivityLog";
+export { TaskComments } from "./Comments";
+export { MarkdownText } from "./Markdown";
+export { TaskProgressBar, ChecklistEditor, SubtaskList } from "./Subtasks";
+export { QuerySearchBox } from "./QuerySearch";
+export { SavedViewsMenu } from "./SavedViews";
+export { HighlightedText, JumpToTaskDialog } from "./TaskSearch";
+export { CommandPalette, ShortcutSettingsModal } from "./CommandPalette";
+export { LiveRegion } from "./Accessibility";
+export { BulkActionBar } from "./BulkActions";
+export {
+  LabelChips,
+  LabelPicker,
+  LabelFilter,
+  LabelSettingsModal,
+} from "./Labels";
 export {
   SmartCodeReviewAssistant,
   SmartCodeReviewPanel,
@@ -0,0 +1,102 @@
+import { applyQueuedActions, getSyncRetryDelay } from "@/hooks/useTasks";
+import { QueuedAction, Task } from "@/lib/types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "t1",
+  userId: "u1",
+  boardId: "b1",
+  title: "Task",
+  description: "",
+  status: "todo",
+  priority: "medium",
+  createdAt: "2026-10-01T09:00:00Z",
+  updatedAt: "2026-10-01T09:00:00Z",
+  ...overrides,
+});
+
+const newTask = { title: "New", description: "", priority: "medium" as const };
+
+const queued = (
+  action: Pick<QueuedAction, "type" | "payload">,
+  retryCount = 0
+) =>
+  ({
+    id: `q-${action.type}`,
+    timestamp: Date.UTC(2026, 9, 2, 12),
+    retryCount,
+    maxRetries: 3,
+    ...action,
+  } as QueuedAction);
+
+describe("applyQueuedActions", () => {
+  const tasks = [makeTask({ id: "t1" }), makeTask({ id: "t2" })];
+
+  it("shows queued changes on top of what the server sent", () => {
+    const result = applyQueuedActions(
+      tasks,
+      [
+        queued({
+          type: "create",
+          payload: { tempId: "temp-1", input: { ...newTask, boardId: "b1" } },
+        }),
+        queued({
+          type: "update",
+          payload: { id: "t1", changes: { title: "Renamed" } },
+        }),
+        queued({ type: "delete", payload: { id: "t2" } }),
+      ],
+      "b1"
+    );
+
+    expect(result.map((task) => [task.id, task.title])).toEqual([
+      ["t1", "Renamed"],
+      ["temp-1", "New"],
+    ]);
+    expect(result[0].updatedAt).toBe("2026-10-02T12:00:00.000Z");
+  });
+
+  it("leaves out tasks created offline on another board", () => {
+    const result = applyQueuedActions(
+      tasks,
+      [
+        queued({
+          type: "create",
+          payload: { tempId: "temp-1", input: { ...newTask, boardId: "b2" } },
+        }),
+      ],
+      "b1"
+    );
+    expect(result).toEqual(tasks);
+  });
+
+  it("brings back a deleted task that is waiting to be restored", () => {
+    const restore = makeTask({ id: "t3", title: "Restored" });
+    const result = applyQueuedActions(
+      tasks,
+      [
+        queued({
+          type: "create",
+          payload: {
+            tempId: "t3",
+            input: { ...newTask, title: "Restored" },
+            restore,
+          },
+        }),
+      ],
+      "b1"
+    );
+    expect(result[2]).toBe(restore);
+  });
+});
+
+describe("getSyncRetryDelay", () => {
+  it("doubles the wait with every failed attempt", () => {
+    const update = {
+      type: "update" as const,
+      payload: { id: "t1", changes: {} },
+    };
+    expect([0, 1, 2].map((n) => getSyncRetryDelay(queued(update, n)))).toEqual([
+      1000, 2000, 4000,
+    ]);
+  });
+});
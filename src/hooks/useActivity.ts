@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  ActivityEntry,
+  ActivityFilters,
+  ApiError,
+  UseActivityReturn,
+} from "@/lib/types";
+import api from "@/lib/api";
+
+/**
+ * Activity log of a board, newest first. The log is written by the server,
+ * so it is fetched again whenever `version` changes - pass something that
+ * moves with the tasks, like their latest `updatedAt`.
+ */
+export function useActivity(
+  boardId: string | null | undefined,
+  filters: ActivityFilters = {},
+  version?: string
+): UseActivityReturn {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [reloads, setReloads] = useState(0);
+  const { taskId, actorId, action } = filters;
+
+  useEffect(() => {
+    if (!boardId) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadActivity = async () => {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.activity.getActivity(boardId, {
+        taskId,
+        actorId,
+        action,
+      });
+      if (cancelled) return;
+
+      if (result.success) {
+        setEntries(result.data || []);
+      } else {
+        setError(result.error || null);
+      }
+      setLoading(false);
+    };
+
+    loadActivity();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, taskId, actorId, action, version, reloads]);
+
+  const refresh = useCallback(() => setReloads((count) => count + 1), []);
+
+  return { entries, loading, error, refresh };
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  Board,
+  User,
+  ApiError,
+  CreateBoardInput,
+  UpdateBoardInput,
+  UseBoardsReturn,
+} from "@/lib/types";
+import api from "@/lib/api";
+import { getBoardRole, getBoardColumns } from "@/lib/utils";
+import { useLocalStorage } from "./useTasks";
+
+// Boards the user belongs to, and which one the board page is showing
+export function useBoards(userId?: string): UseBoardsReturn {
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [members, setMembers] = useState<User[]>([]);
+  const [activeBoardId, setActiveBoardId] = useLocalStorage<string | null>(
+    "activeBoardId",
+    null
+  );
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadBoards = async () => {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.board.getBoards();
+
+      if (result.success) {
+        setBoards(result.data || []);
+      } else {
+        setError(result.error || null);
+      }
+
+      setLoading(false);
+    };
+
+    loadBoards();
+  }, [userId]);
+
+  // Fall back to the first board when the remembered one is gone
+  const activeBoard =
+    boards.find((board) => board.id === activeBoardId) || boards[0] || null;
+  const columns = useMemo(() => getBoardColumns(activeBoard), [activeBoard]);
+  const labels = useMemo(() => activeBoard?.labels ?? [], [activeBoard]);
+  const memberKey = activeBoard
+    ? activeBoard.members.map((member) => member.userId).join(",")
+    : "";
+
+  // Load member profiles for assignee pickers and avatars
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadMembers = async () => {
+      const result = await api.user.getUsers(
+        memberKey ? memberKey.split(",") : []
+      );
+      if (!cancelled) {
+        setMembers(result.success ? result.data || [] : []);
+      }
+    };
+
+    loadMembers();
+    return () => {
+      cancelled = true;
+    };
+  }, [memberKey]);
+
+  const createBoard = async (input: CreateBoardInput) => {
+    const result = await api.board.createBoard(input);
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || "Failed to create board");
+    }
+
+    const board = result.data;
+    setBoards((prev) => [...prev, board]);
+    setActiveBoardId(board.id);
+    return board;
+  };
+
+  const updateBoard = async (id: string, input: UpdateBoardInput) => {
+    const result = await api.board.updateBoard(id, input);
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || "Failed to update board");
+    }
+
+    const board = result.data;
+    // Dropping yourself from the members removes the board from your list
+    setBoards((prev) =>
+      userId && getBoardRole(board, userId)
+        ? prev.map((b) => (b.id === id ? board : b))
+        : prev.filter((b) => b.id !== id)
+    );
+    return board;
+  };
+
+  return {
+    boards,
+    activeBoard,
+    role: activeBoard && userId ? getBoardRole(activeBoard, userId) : null,
+    loading,
+    error,
+    selectBoard: setActiveBoardId,
+    createBoard,
+    updateBoard,
+    members,
+    columns,
+    labels,
+  };
+}
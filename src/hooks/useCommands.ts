@@ -0,0 +1,101 @@
+import { useEffect, useRef } from "react";
+import { Command, Shortcut, UseCommandSettingsReturn } from "@/lib/types";
+import { eventToShortcut, getShortcut } from "@/lib/commands";
+import { useLocalStorage } from "./useTasks";
+
+const MAX_RECENT = 5;
+
+interface StoredCommandSettings {
+  recentIds: string[];
+  overrides: Record<string, Shortcut | null>;
+}
+
+const emptySettings: StoredCommandSettings = { recentIds: [], overrides: {} };
+
+// Recently run commands and rebound shortcuts, kept in this browser per user
+export function useCommandSettings(userId?: string): UseCommandSettingsReturn {
+  const [store, setStore] = useLocalStorage<
+    Record<string, StoredCommandSettings>
+  >("commandSettings", {});
+  const own = (userId && store[userId]) || emptySettings;
+
+  const update = (
+    change: (current: StoredCommandSettings) => StoredCommandSettings
+  ) => {
+    if (!userId) return;
+    setStore((current) => ({
+      ...current,
+      [userId]: change(current[userId] || emptySettings),
+    }));
+  };
+
+  const recordUse = (id: string) => {
+    update((current) => ({
+      ...current,
+      recentIds: [
+        id,
+        ...current.recentIds.filter((recent) => recent !== id),
+      ].slice(0, MAX_RECENT),
+    }));
+  };
+
+  // Several at once, e.g. taking a shortcut from one command for another
+  const updateShortcuts = (changes: Record<string, Shortcut | null>) => {
+    update((current) => ({
+      ...current,
+      overrides: { ...current.overrides, ...changes },
+    }));
+  };
+
+  const resetShortcuts = () => {
+    update((current) => ({ ...current, overrides: {} }));
+  };
+
+  return {
+    recentIds: own.recentIds,
+    overrides: own.overrides,
+    recordUse,
+    updateShortcuts,
+    resetShortcuts,
+  };
+}
+
+// Run commands from their shortcuts. Typing in a text field is left alone.
+export function useCommandShortcuts(
+  commands: Command[],
+  overrides: Record<string, Shortcut | null>,
+  enabled = true
+) {
+  // The latest commands, without re-attaching the listener every render
+  const latest = useRef({ commands, overrides });
+  latest.current = { commands, overrides };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      const shortcut = eventToShortcut(event);
+      if (!shortcut) return;
+
+      const command = latest.current.commands.find(
+        (c) => getShortcut(c, latest.current.overrides) === shortcut
+      );
+      if (command && !command.disabled) {
+        event.preventDefault();
+        command.run();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
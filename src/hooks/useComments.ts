@@ -0,0 +1,100 @@
+import { useState, useEffect } from "react";
+import {
+  Comment,
+  ApiError,
+  CreateCommentInput,
+  UseCommentsReturn,
+} from "@/lib/types";
+import api from "@/lib/api";
+
+const byCreatedAt = (a: Comment, b: Comment) =>
+  a.createdAt.localeCompare(b.createdAt);
+
+// Comments on the active board's tasks, oldest first
+export function useComments(boardId: string | null): UseCommentsReturn {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    setComments([]);
+    if (!boardId) return;
+
+    let cancelled = false;
+
+    const loadComments = async () => {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.comment.getComments(boardId);
+      if (cancelled) return;
+
+      if (result.success) {
+        setComments([...(result.data || [])].sort(byCreatedAt));
+      } else {
+        setError(result.error || null);
+      }
+      setLoading(false);
+    };
+
+    loadComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  const saveComment = (comment: Comment) =>
+    setComments((prev) =>
+      (prev.some((c) => c.id === comment.id)
+        ? prev.map((c) => (c.id === comment.id ? comment : c))
+        : [...prev, comment]
+      ).sort(byCreatedAt)
+    );
+
+  const createComment = async (input: CreateCommentInput) => {
+    const result = await api.comment.createComment(input);
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || "Failed to add comment");
+    }
+
+    saveComment(result.data);
+    return result.data;
+  };
+
+  const updateComment = async (id: string, body: string) => {
+    const result = await api.comment.updateComment(id, body);
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || "Failed to edit comment");
+    }
+
+    saveComment(result.data);
+    return result.data;
+  };
+
+  // Comments with replies are cleared instead, so the thread keeps its shape
+  const deleteComment = async (id: string) => {
+    if (comments.some((comment) => comment.parentId === id)) {
+      const result = await api.comment.clearComment(id);
+      if (!result.success || !result.data) {
+        throw new Error(result.error?.message || "Failed to delete comment");
+      }
+      saveComment(result.data);
+      return;
+    }
+
+    const result = await api.comment.deleteComment(id);
+    if (!result.success) {
+      throw new Error(result.error?.message || "Failed to delete comment");
+    }
+    setComments((prev) => prev.filter((comment) => comment.id !== id));
+  };
+
+  return {
+    comments,
+    loading,
+    error,
+    createComment,
+    updateComment,
+    deleteComment,
+  };
+}
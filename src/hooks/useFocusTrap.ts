@@ -0,0 +1,75 @@
+import { RefObject, useEffect, useRef } from "react";
+
+const FOCUSABLE = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  '[tabindex]:not([tabindex="-1"])',
+].join(", ");
+
+// Open traps, innermost last; only the innermost one handles keys
+const openTraps: HTMLElement[] = [];
+
+// Keep Tab and Shift+Tab inside an open dialog, and give focus back to
+// whatever had it once the dialog closes. The dialog itself takes focus
+// when it opens (give it tabIndex={-1}) so its label is announced first.
+export function useFocusTrap(
+  ref: RefObject<HTMLElement | null>,
+  active: boolean,
+  onEscape?: () => void
+) {
+  // The latest handler, without re-trapping every render
+  const escape = useRef(onEscape);
+  escape.current = onEscape;
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return undefined;
+
+    const previous = document.activeElement as HTMLElement | null;
+    openTraps.push(container);
+    if (!container.contains(document.activeElement)) container.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (openTraps[openTraps.length - 1] !== container) return;
+
+      // A menu or field inside that handles Escape itself comes first
+      if (e.key === "Escape" && escape.current && !e.defaultPrevented) {
+        e.preventDefault();
+        escape.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+
+      // Hidden controls, e.g. in a collapsed section, are skipped
+      const focusable = Array.from(
+        container.querySelectorAll<HTMLElement>(FOCUSABLE)
+      ).filter((element) => element.getClientRects().length > 0);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const current = document.activeElement;
+      const outside = !focusable.includes(current as HTMLElement);
+      if (e.shiftKey && (current === first || outside)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (current === last || outside)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      openTraps.splice(openTraps.indexOf(container), 1);
+      if (previous && document.contains(previous)) previous.focus();
+    };
+  }, [ref, active]);
+}
@@ -0,0 +1,77 @@
+import { BoardViewState, SavedView, UseSavedViewsReturn } from "@/lib/types";
+import { generateId } from "@/lib/utils";
+import { useLocalStorage } from "./useTasks";
+
+interface StoredViews {
+  views: SavedView[];
+  defaultViewIds: Record<string, string>; // board id -> view id
+}
+
+const emptyViews: StoredViews = { views: [], defaultViewIds: {} };
+
+// A user's named board views, kept in this browser per user so people
+// sharing a machine don't see each other's
+export function useSavedViews(
+  userId?: string,
+  boardId?: string | null
+): UseSavedViewsReturn {
+  const [store, setStore] = useLocalStorage<Record<string, StoredViews>>(
+    "savedViews",
+    {}
+  );
+  const own = (userId && store[userId]) || emptyViews;
+
+  const views = own.views.filter((view) => view.boardId === boardId);
+  const defaultViewId = boardId ? own.defaultViewIds[boardId] : undefined;
+  const defaultView = views.find((view) => view.id === defaultViewId) || null;
+
+  const update = (change: (current: StoredViews) => StoredViews) => {
+    if (!userId) return;
+    setStore((current) => ({
+      ...current,
+      [userId]: change(current[userId] || emptyViews),
+    }));
+  };
+
+  const saveView = (name: string, state: BoardViewState) => {
+    if (!userId || !boardId) {
+      throw new Error("Select a board before saving a view");
+    }
+
+    const view: SavedView = {
+      id: generateId(),
+      name: name.trim(),
+      boardId,
+      state,
+      createdAt: new Date().toISOString(),
+    };
+    update((current) => ({ ...current, views: [...current.views, view] }));
+    return view;
+  };
+
+  const deleteView = (id: string) => {
+    update((current) => ({
+      views: current.views.filter((view) => view.id !== id),
+      defaultViewIds: Object.fromEntries(
+        Object.entries(current.defaultViewIds).filter(
+          ([, viewId]) => viewId !== id
+        )
+      ),
+    }));
+  };
+
+  const setDefaultView = (id: string | null) => {
+    if (!boardId) return;
+    update((current) => {
+      const defaultViewIds = { ...current.defaultViewIds };
+      if (id) {
+        defaultViewIds[boardId] = id;
+      } else {
+        delete defaultViewIds[boardId];
+      }
+      return { ...current, defaultViewIds };
+    });
+  };
+
+  return { views, defaultView, saveView, deleteView, setDefaultView };
+}
@@ -0,0 +1,68 @@
+import { useMemo, useRef, useState } from "react";
+import {
+  Comment,
+  Label,
+  SearchOptions,
+  Task,
+  UseSearchIndexReturn,
+} from "@/lib/types";
+import { arraysEqual } from "@/lib/utils";
+import { SearchIndex, toSearchDocument } from "@/lib/search";
+
+interface IndexedTask {
+  task: Task;
+  comments: Comment[];
+  labels: Label[];
+}
+
+// A search index over the board's tasks. useTasks and useComments replace
+// only the objects a change touches, so comparing references finds the
+// tasks to re-index and the rest of the index is left alone.
+export function useSearchIndex(
+  tasks: Task[],
+  comments: Comment[],
+  labels: Label[]
+): UseSearchIndexReturn {
+  const [index] = useState(() => new SearchIndex());
+  const indexed = useRef(new Map<string, IndexedTask>());
+
+  const search = useMemo(() => {
+    const commentsByTask = new Map<string, Comment[]>();
+    comments.forEach((comment) => {
+      const taskComments = commentsByTask.get(comment.taskId) || [];
+      taskComments.push(comment);
+      commentsByTask.set(comment.taskId, taskComments);
+    });
+
+    const current = new Set<string>();
+    tasks.forEach((task) => {
+      current.add(task.id);
+      const taskComments = commentsByTask.get(task.id) || [];
+      const previous = indexed.current.get(task.id);
+      if (
+        previous &&
+        previous.task === task &&
+        previous.labels === labels &&
+        arraysEqual(previous.comments, taskComments)
+      ) {
+        return;
+      }
+
+      index.set(task.id, toSearchDocument(task, taskComments, labels));
+      indexed.current.set(task.id, { task, comments: taskComments, labels });
+    });
+
+    indexed.current.forEach((_, id) => {
+      if (!current.has(id)) {
+        index.remove(id);
+        indexed.current.delete(id);
+      }
+    });
+
+    // A new function per update, so results computed from it refresh too
+    return (text: string, options?: SearchOptions) =>
+      index.search(text, options);
+  }, [index, tasks, comments, labels]);
+
+  return { search, size: index.size };
+}
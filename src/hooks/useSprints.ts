@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import {
+  Sprint,
+  ApiError,
+  CreateSprintInput,
+  UpdateSprintInput,
+  SprintSnapshot,
+  UseSprintsReturn,
+} from "@/lib/types";
+import api from "@/lib/api";
+
+// Sprints of the active board, oldest first
+export function useSprints(boardId: string | null): UseSprintsReturn {
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  useEffect(() => {
+    setSprints([]);
+    if (!boardId) return;
+
+    let cancelled = false;
+
+    const loadSprints = async () => {
+      setLoading(true);
+      setError(null);
+
+      const result = await api.sprint.getSprints(boardId);
+      if (cancelled) return;
+
+      if (result.success) {
+        setSprints(
+          [...(result.data || [])].sort((a, b) =>
+            a.startDate.localeCompare(b.startDate)
+          )
+        );
+      } else {
+        setError(result.error || null);
+      }
+      setLoading(false);
+    };
+
+    loadSprints();
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId]);
+
+  const saveSprint = (sprint: Sprint) =>
+    setSprints((prev) =>
+      (prev.some((s) => s.id === sprint.id)
+        ? prev.map((s) => (s.id === sprint.id ? sprint : s))
+        : [...prev, sprint]
+      ).sort((a, b) => a.startDate.localeCompare(b.startDate))
+    );
+
+  const createSprint = async (input: Omit<CreateSprintInput, "boardId">) => {
+    if (!boardId) {
+      throw new Error("Select a board before planning sprints");
+    }
+
+    const result = await api.sprint.createSprint({ ...input, boardId });
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || "Failed to create sprint");
+    }
+
+    saveSprint(result.data);
+    return result.data;
+  };
+
+  const updateSprint = async (id: string, input: UpdateSprintInput) => {
+    const result = await api.sprint.updateSprint(id, input);
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || "Failed to update sprint");
+    }
+
+    saveSprint(result.data);
+    return result.data;
+  };
+
+  // Freeze what the sprint takes on as its commitment
+  const startSprint = (id: string, committedTaskIds: string[]) =>
+    updateSprint(id, { state: "active", committedTaskIds });
+
+  const completeSprint = (id: string, snapshot: SprintSnapshot) =>
+    updateSprint(id, { state: "completed", snapshot });
+
+  return {
+    sprints,
+    activeSprint: sprints.find((sprint) => sprint.state === "active") || null,
+    loading,
+    error,
+    createSprint,
+    updateSprint,
+    startSprint,
+    completeSprint,
+  };
+}
@@ -1,48 +1,137 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import api from "@/lib/api";
+import api, { getConflictingTask } from "@/lib/api";
+import {
+  mergeTaskChanges,
+  DEFAULT_COLUMNS,
+  getWipLimitViolations,
+  isBlockingWipViolation,
+  describeWipViolations,
+  getTaskRank,
+  getRankBetween,
+  sortTasks,
+} from "@/lib/utils";
 import {
   Task,
   TaskStatus,
   CreateTaskInput,
   UpdateTaskInput,
   ApiError,
+  ApiResponse,
+  BatchItemResult,
+  BatchUpdateOptions,
   UseTasksReturn,
   OptimisticUpdate,
   UndoableAction,
+  HistoryActionType,
+  UseTasksOptions,
+  QueuedAction,
+  QueuedActionInput,
+  OfflineSyncResult,
+  SyncConflict,
+  TaskConflict,
+  ConflictResolution,
+  MoveOptions,
+  TaskPlacement,
 } from "@/lib/types";
 
-export function useTasks(): UseTasksReturn {
+// How many times a cleanly merged update is retried before asking the user
+const MAX_MERGE_ATTEMPTS = 2;
+const DEFAULT_HISTORY_LIMIT = 50;
+
+// A batch that failed for some or all of its tasks. `savedCount` tells the
+// two apart: the history entry only survives when some were saved.
+export class BatchSaveError extends Error {
+  constructor(message: string, readonly savedCount: number) {
+    super(message);
+    this.name = "BatchSaveError";
+  }
+}
+
+export function useTasks({
+  boardId = null,
+  historyLimit = DEFAULT_HISTORY_LIMIT,
+  columns = DEFAULT_COLUMNS,
+}: UseTasksOptions = {}): UseTasksReturn {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<ApiError | null>(null);
   const [optimisticUpdates, setOptimisticUpdates] = useState<
     OptimisticUpdate[]
   >([]);
-  const [undoStack, setUndoStack] = useState<UndoableAction[]>([]);
-  const undoTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [history, setHistory] = useState<{
+    undo: UndoableAction[];
+    redo: UndoableAction[];
+  }>({ undo: [], redo: [] });
+  const [conflict, setConflict] = useState<TaskConflict | null>(null);
+  const historyBusyRef = useRef(false);
+  // Latest tasks for async history replays that outlive a render
+  const tasksRef = useRef<Task[]>([]);
+  // Board being shown, for callbacks created before a board switch
+  const boardIdRef = useRef(boardId);
+
+  // Offline queue state
+  const isOnline = useOnlineStatus();
+  const [offlineQueue, setOfflineQueue] = useState<QueuedAction[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncTime, setLastSyncTime] = useState<number | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const syncingRef = useRef(false);
+  const syncRetryRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Load persisted offline state on mount
+  useEffect(() => {
+    const syncState = api.utils.getSyncState();
+    setOfflineQueue(api.utils.getOfflineQueue());
+    setLastSyncTime(syncState.lastSyncTime);
+    setSyncConflicts(syncState.conflicts);
+  }, []);
 
-  // Load tasks on mount
+  // Load the board's tasks, starting with a clean history on every switch
   useEffect(() => {
+    boardIdRef.current = boardId;
+    setHistory({ undo: [], redo: [] });
+    setConflict(null);
     loadTasks();
-  }, []);
+  }, [boardId]);
+
+  useEffect(() => {
+    tasksRef.current = tasks;
+  }, [tasks]);
 
-  // Clean up undo timeout on unmount
+  // Clean up sync retry timeout on unmount
   useEffect(() => {
     return () => {
-      if (undoTimeoutRef.current) {
-        clearTimeout(undoTimeoutRef.current);
+      if (syncRetryRef.current) {
+        clearTimeout(syncRetryRef.current);
       }
     };
   }, []);
 
   const loadTasks = async () => {
+    const currentBoardId = boardIdRef.current;
+    if (!currentBoardId) {
+      setTasks([]);
+      setLoading(false);
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
-    const result = await api.task.getAllTasks();
+    const result = await api.task.getAllTasks(currentBoardId);
+
+    // Ignore responses for a board we've since switched away from
+    if (boardIdRef.current !== currentBoardId) return;
 
     if (result.success) {
-      setTasks(result.data || []);
+      // Re-apply changes that are still waiting to be synced
+      setTasks(
+        applyQueuedActions(
+          result.data || [],
+          api.utils.getOfflineQueue(),
+          currentBoardId
+        )
+      );
     } else {
       setError(result.error || null);
     }
@@ -50,22 +139,169 @@ export function useTasks(): UseTasksReturn {
     setLoading(false);
   };
 
-  const createTask = async (input: CreateTaskInput) => {
-    // Get current user ID (same logic as in API)
-    const userStr =
-      typeof window !== "undefined" ? localStorage.getItem("user") : null;
-    const userId = userStr ? JSON.parse(userStr).id : "1";
+  const enqueueOfflineAction = (action: QueuedActionInput) => {
+    const queued = api.utils.queueOfflineAction(action);
+    if (queued) {
+      setOfflineQueue((prev) => [...prev, queued]);
+    }
+  };
+
+  // Reconcile local state with the outcome of a queue replay
+  const applySyncResult = (result: OfflineSyncResult) => {
+    const pendingIds = new Set(result.remaining.map(getQueuedActionTarget));
+    const settledIds = new Set<string>([
+      ...result.synced.map(({ action }) => getQueuedActionTarget(action)),
+      ...result.conflicts.map(({ action }) => getQueuedActionTarget(action)),
+      ...result.failed.map(getQueuedActionTarget),
+      ...Object.values(result.idMap),
+    ]);
+
+    setTasks((prev) => {
+      let next = [...prev];
+
+      result.synced.forEach(({ action, task }) => {
+        if (!task) return;
+        const localId = getQueuedActionTarget(action);
+        const index = next.findIndex((t) => t.id === localId);
+
+        if (index === -1) {
+          if (
+            action.type === "create" &&
+            task.boardId === boardIdRef.current &&
+            !next.some((t) => t.id === task.id)
+          ) {
+            next.push(task);
+          }
+          return;
+        }
+        // Keep local edits that are still queued, but adopt the server ID
+        next[index] = pendingIds.has(task.id)
+          ? { ...next[index], id: task.id }
+          : task;
+      });
+
+      result.conflicts.forEach(({ action, serverTask, error }) => {
+        const id = getQueuedActionTarget(action);
+        // A refused change leaves the task as it is; the reload below undoes
+        // the local edit
+        if (error || pendingIds.has(id)) return;
+        if (serverTask && serverTask.boardId !== boardIdRef.current) return;
+        next = serverTask
+          ? next.some((t) => t.id === id)
+            ? next.map((t) => (t.id === id ? serverTask : t))
+            : [...next, serverTask]
+          : next.filter((t) => t.id !== id);
+      });
+
+      result.failed.forEach((action) => {
+        if (action.type === "create") {
+          next = next.filter((t) => t.id !== action.payload.tempId);
+        }
+      });
+
+      return next;
+    });
+
+    setOptimisticUpdates((prev) =>
+      prev
+        .map((update) =>
+          result.idMap[update.id]
+            ? { ...update, id: result.idMap[update.id] }
+            : update
+        )
+        .filter(
+          (update) => !settledIds.has(update.id) || pendingIds.has(update.id)
+        )
+    );
+  };
+
+  const syncOfflineQueue = useCallback(async () => {
+    if (syncingRef.current || !api.utils.isOnline()) return null;
+    if (api.utils.getOfflineQueue().length === 0) return null;
+
+    if (syncRetryRef.current) {
+      clearTimeout(syncRetryRef.current);
+      syncRetryRef.current = null;
+    }
+
+    syncingRef.current = true;
+    setSyncing(true);
+
+    const result = await api.utils.processOfflineQueue();
+    const syncState = api.utils.getSyncState();
+
+    applySyncResult(result);
+    remapHistoryIds(result.idMap);
+    setOfflineQueue(result.remaining);
+    setLastSyncTime(syncState.lastSyncTime);
+    setSyncConflicts(syncState.conflicts);
+
+    syncingRef.current = false;
+    setSyncing(false);
+
+    // Failed and refused updates/deletes were applied optimistically - reload
+    // the truth
+    if (
+      result.remaining.length === 0 &&
+      (result.failed.length > 0 ||
+        result.conflicts.some((conflict) => conflict.error))
+    ) {
+      loadTasks();
+    }
+
+    // Back off before retrying whatever is left
+    if (result.remaining.length > 0) {
+      syncRetryRef.current = setTimeout(() => {
+        syncOfflineQueue();
+      }, getSyncRetryDelay(result.remaining[0]));
+    }
+
+    return result;
+  }, []);
+
+  const clearSyncConflicts = useCallback(() => {
+    api.utils.saveSyncState({
+      ...api.utils.getSyncState(),
+      conflicts: [],
+    });
+    setSyncConflicts([]);
+  }, []);
+
+  // Replay queued actions whenever connectivity returns
+  useEffect(() => {
+    if (isOnline) {
+      syncOfflineQueue();
+    }
+  }, [isOnline, syncOfflineQueue]);
+
+  const createTask = async (taskInput: CreateTaskInput) => {
+    if (!boardId) {
+      throw new Error("Select a board before creating tasks");
+    }
+    const input: CreateTaskInput = { ...taskInput, boardId };
 
     // Create optimistic task
-    const tempTask: Task = {
-      id: `temp-${Date.now()}`,
-      userId,
-      ...input,
-      status: "todo",
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const tempTask = buildTempTask(`temp-${Date.now()}`, input);
+    const entry = recordHistory("create", `Created "${tempTask.title}"`, [
+      { before: null, after: tempTask },
+    ]);
 
+    try {
+      const created = await commitTaskCreate(tempTask, input);
+      if (created.id !== tempTask.id) {
+        remapHistoryIds({ [tempTask.id]: created.id }, created);
+      }
+    } catch (error) {
+      discardHistoryEntry(entry.id);
+      throw error;
+    }
+  };
+
+  // Returns the server task, or the optimistic one while offline
+  const commitTaskCreate = async (
+    tempTask: Task,
+    input: CreateTaskInput
+  ): Promise<Task> => {
     // Add optimistic update
     setTasks((prev) => [...prev, tempTask]);
 
@@ -79,6 +315,15 @@ export function useTasks(): UseTasksReturn {
 
     setOptimisticUpdates((prev) => [...prev, optimisticUpdate]);
 
+    // Queue for later while offline - the optimistic update stays pending
+    if (!isOnline) {
+      enqueueOfflineAction({
+        type: "create",
+        payload: { tempId: tempTask.id, input },
+      });
+      return tempTask;
+    }
+
     // Make API call
     const result = await api.task.createTask(input);
 
@@ -92,6 +337,8 @@ export function useTasks(): UseTasksReturn {
       setOptimisticUpdates((prev) =>
         prev.filter((update) => update.id !== tempTask.id)
       );
+
+      return result.data;
     } else {
       // Rollback on failure
       setTasks((prev) => prev.filter((task) => task.id !== tempTask.id));
@@ -103,17 +350,91 @@ export function useTasks(): UseTasksReturn {
     }
   };
 
+  // Bring back a deleted task as it was, keeping its ID
+  const commitTaskRestore = async (task: Task) => {
+    setTasks((prev) => [...prev, task]);
+
+    const optimisticUpdate: OptimisticUpdate = {
+      id: task.id,
+      type: "create",
+      previousState: null,
+      newState: task,
+      timestamp: Date.now(),
+    };
+
+    setOptimisticUpdates((prev) => [...prev, optimisticUpdate]);
+
+    if (!isOnline) {
+      enqueueOfflineAction({
+        type: "create",
+        payload: { tempId: task.id, input: toCreateInput(task), restore: task },
+      });
+      return;
+    }
+
+    const result = await api.task.restoreTask(task);
+
+    setOptimisticUpdates((prev) =>
+      prev.filter((update) => update.id !== task.id)
+    );
+
+    if (result.success && result.data) {
+      setTasks((prev) =>
+        prev.map((t) => (t.id === task.id ? result.data! : t))
+      );
+    } else {
+      setTasks((prev) => prev.filter((t) => t.id !== task.id));
+      throw new Error(result.error?.message || "Failed to restore task");
+    }
+  };
+
   const updateTask = async (id: string, input: UpdateTaskInput) => {
     const originalTask = tasks.find((t) => t.id === id);
     if (!originalTask) {
       throw new Error("Task not found");
     }
 
-    const updatedTask: Task = {
-      ...originalTask,
-      ...input,
-      updatedAt: new Date().toISOString(),
-    };
+    await trackedUpdate(
+      "update",
+      `Edited "${originalTask.title}"`,
+      originalTask,
+      input
+    );
+  };
+
+  // Record an update in the history, dropping the entry if the write fails
+  const trackedUpdate = async (
+    type: HistoryActionType,
+    description: string,
+    originalTask: Task,
+    input: UpdateTaskInput
+  ) => {
+    const entry = recordHistory(type, description, [
+      { before: originalTask, after: { ...originalTask, ...input } as Task },
+    ]);
+
+    try {
+      await commitTaskUpdate(originalTask, input);
+    } catch (error) {
+      discardHistoryEntry(entry.id);
+      throw error;
+    }
+  };
+
+  // Write an update made against `originalTask`. If the server copy moved on
+  // in the meantime, non-overlapping changes are merged and retried; overlapping
+  // ones are handed to the user as a conflict.
+  const commitTaskUpdate = async (
+    originalTask: Task,
+    input: UpdateTaskInput,
+    attempt = 0
+  ): Promise<void> => {
+    const id = originalTask.id;
+    const updatedTask = applyTaskChanges(
+      originalTask,
+      input,
+      new Date().toISOString()
+    );
 
     // Optimistic update
     setTasks((prev) =>
@@ -130,29 +451,122 @@ export function useTasks(): UseTasksReturn {
 
     setOptimisticUpdates((prev) => [...prev, optimisticUpdate]);
 
+    if (!isOnline) {
+      enqueueOfflineAction({
+        type: "update",
+        payload: {
+          id,
+          changes: input,
+          baseUpdatedAt: originalTask.updatedAt,
+        },
+      });
+      return;
+    }
+
     // Make API call
-    const result = await api.task.updateTask(id, input);
+    const result = await api.task.updateTask(id, input, {
+      expectedUpdatedAt: originalTask.updatedAt,
+    });
+
+    // Update finished either way, remove optimistic update
+    setOptimisticUpdates((prev) => prev.filter((update) => update.id !== id));
 
     if (result.success) {
-      // Update successful, remove optimistic update
-      setOptimisticUpdates((prev) => prev.filter((update) => update.id !== id));
-    } else {
-      // Rollback on failure
+      // Adopt the server copy so the next write carries its version
+      if (result.data) {
+        setTasks((prev) =>
+          prev.map((task) => (task.id === id ? result.data! : task))
+        );
+      }
+      return;
+    }
+
+    const remoteTask = getConflictingTask(result.error);
+    if (remoteTask) {
+      const { mergedChanges, conflictingFields } = mergeTaskChanges(
+        originalTask,
+        input,
+        remoteTask
+      );
+
       setTasks((prev) =>
-        prev.map((task) => (task.id === id ? originalTask : task))
+        prev.map((task) => (task.id === id ? remoteTask : task))
       );
-      setOptimisticUpdates((prev) => prev.filter((update) => update.id !== id));
 
-      throw new Error(result.error?.message || "Failed to update task");
+      if (conflictingFields.length === 0 && attempt < MAX_MERGE_ATTEMPTS) {
+        if (Object.keys(mergedChanges).length === 0) return;
+        return commitTaskUpdate(remoteTask, mergedChanges, attempt + 1);
+      }
+
+      setConflict({
+        taskId: id,
+        base: originalTask,
+        local: input,
+        remote: remoteTask,
+        conflictingFields,
+        mergedChanges,
+      });
+
+      throw new Error(
+        "This task was changed by someone else - review the conflict to keep your edits"
+      );
+    }
+
+    // A task the server no longer has is dropped rather than rolled back
+    setTasks((prev) =>
+      result.error?.status === 404
+        ? prev.filter((task) => task.id !== id)
+        : prev.map((task) => (task.id === id ? originalTask : task))
+    );
+
+    if (isAccessError(result.error)) {
+      setError(result.error);
+    }
+
+    throw new Error(result.error?.message || "Failed to update task");
+  };
+
+  // Apply the user's per-field choices on top of the server copy
+  const resolveConflict = async (resolution: ConflictResolution) => {
+    if (!conflict) return;
+
+    const changes: UpdateTaskInput = { ...conflict.mergedChanges };
+    conflict.conflictingFields.forEach((field) => {
+      if (resolution[field] === "local") {
+        Object.assign(changes, { [field]: conflict.local[field] });
+      }
+    });
+
+    setConflict(null);
+
+    if (Object.keys(changes).length > 0) {
+      await commitTaskUpdate(conflict.remote, changes);
     }
   };
 
+  const dismissConflict = useCallback(() => setConflict(null), []);
+
   const deleteTask = async (id: string) => {
     const originalTask = tasks.find((t) => t.id === id);
     if (!originalTask) {
       throw new Error("Task not found");
     }
 
+    const entry = recordHistory("delete", `Deleted "${originalTask.title}"`, [
+      { before: originalTask, after: null },
+    ]);
+
+    try {
+      await commitTaskDelete(originalTask);
+    } catch (error) {
+      discardHistoryEntry(entry.id);
+      throw error;
+    }
+  };
+
+  const commitTaskDelete = async (originalTask: Task) => {
+    const id = originalTask.id;
+
     // Optimistic update
     setTasks((prev) => prev.filter((task) => task.id !== id));
 
@@ -166,10 +580,19 @@ export function useTasks(): UseTasksReturn {
 
     setOptimisticUpdates((prev) => [...prev, optimisticUpdate]);
 
+    if (!isOnline) {
+      enqueueOfflineAction({
+        type: "delete",
+        payload: { id, baseUpdatedAt: originalTask.updatedAt },
+      });
+      return;
+    }
+
     // Make API call
     const result = await api.task.deleteTask(id);
 
-    if (result.success) {
+    // Deleting a task that is already gone leaves us where we wanted to be
+    if (result.success || result.error?.status === 404) {
       // Delete successful, remove optimistic update
       setOptimisticUpdates((prev) => prev.filter((update) => update.id !== id));
     } else {
@@ -177,73 +600,442 @@ export function useTasks(): UseTasksReturn {
       setTasks((prev) => [...prev, originalTask]);
       setOptimisticUpdates((prev) => prev.filter((update) => update.id !== id));
 
+      if (isAccessError(result.error)) {
+        setError(result.error);
+      }
+
       throw new Error(result.error?.message || "Failed to delete task");
     }
   };
 
-  const moveTask = async (id: string, status: TaskStatus) => {
+  // Throws when the moves would break a WIP limit that applies
+  const assertWipLimits = (
+    moves: Array<{ id: string; status: TaskStatus }>,
+    options: MoveOptions
+  ) => {
+    const violations = getWipLimitViolations(tasks, moves, columns).filter(
+      (violation) =>
+        isBlockingWipViolation(violation) || !options.overrideWipLimit
+    );
+    if (violations.length > 0) {
+      throw new Error(describeWipViolations(violations));
+    }
+  };
+
+  const moveTask = async (
+    id: string,
+    status: TaskStatus,
+    options: MoveOptions = {}
+  ) => {
     const originalTask = tasks.find((t) => t.id === id);
     if (!originalTask || originalTask.status === status) {
       return; // No change needed
     }
 
-    const updatedTask: Task = {
-      ...originalTask,
-      status,
-      updatedAt: new Date().toISOString(),
-    };
+    assertWipLimits([{ id, status }], options);
 
-    // Add to undo stack
-    const undoAction: UndoableAction = {
-      taskId: id,
-      previousState: originalTask,
-      newState: updatedTask,
-      timestamp: Date.now(),
-      expiresAt: Date.now() + 5000, // 5 second undo window
-    };
+    await trackedUpdate(
+      "move",
+      `Moved "${originalTask.title}" to ${getColumnName(status)}`,
+      originalTask,
+      { status }
+    );
+  };
 
-    setUndoStack((prev) => [...prev, undoAction]);
+  // Put a task between two neighbours, possibly in another column. This is
+  // normally a single rank change; when the neighbours are too close to split,
+  // the column is renumbered in one batch instead.
+  const reorderTask = async (
+    id: string,
+    { status, previousId, nextId }: TaskPlacement,
+    options: MoveOptions = {}
+  ) => {
+    const originalTask = tasks.find((t) => t.id === id);
+    if (!originalTask) return;
+
+    const previous = tasks.find((t) => t.id === previousId);
+    const next = tasks.find((t) => t.id === nextId);
+    const changesColumn = originalTask.status !== status;
 
-    // Set timeout to remove from undo stack
-    if (undoTimeoutRef.current) {
-      clearTimeout(undoTimeoutRef.current);
+    if (changesColumn) {
+      assertWipLimits([{ id, status }], options);
     }
 
-    undoTimeoutRef.current = setTimeout(() => {
-      setUndoStack((prev) => prev.filter((action) => action.taskId !== id));
-    }, 5000);
+    const rank = getRankBetween(
+      previous ? getTaskRank(previous) : null,
+      next ? getTaskRank(next) : null
+    );
+
+    if (rank !== null) {
+      await trackedUpdate(
+        changesColumn ? "move" : "reorder",
+        changesColumn
+          ? `Moved "${originalTask.title}" to ${getColumnName(status)}`
+          : `Reordered "${originalTask.title}"`,
+        originalTask,
+        changesColumn ? { status, rank } : { rank }
+      );
+      return;
+    }
 
-    // Perform the update
-    await updateTask(id, { status });
+    const column = sortTasks(
+      tasks.filter((t) => t.status === status && t.id !== id),
+      "manual",
+      "asc"
+    );
+    const insertAt = previous
+      ? column.findIndex((t) => t.id === previous.id) + 1
+      : 0;
+    column.splice(insertAt, 0, originalTask);
+
+    await batchUpdateTasks(
+      column
+        .map((task, index) => ({ task, index }))
+        .filter(
+          ({ task, index }) => task.id === id || getTaskRank(task) !== index
+        )
+        .map(({ task, index }) => ({
+          id: task.id,
+          changes: task.id === id ? { status, rank: index } : { rank: index },
+        })),
+      options
+    );
   };
 
-  const undoLastAction = useCallback(() => {
-    const lastAction = undoStack[undoStack.length - 1];
-    if (!lastAction) return;
+  const getColumnName = (status: TaskStatus) =>
+    columns.find((column) => column.id === status)?.name ??
+    status.replace("-", " ");
+
+  // Update several tasks as one step - a single history entry covers them
+  // all. Each task is kept or rolled back on its own.
+  const batchUpdateTasks = async (
+    updates: Array<{ id: string; changes: UpdateTaskInput }>,
+    { description, ...options }: BatchUpdateOptions = {}
+  ) => {
+    assertWipLimits(
+      updates
+        .filter(({ changes }) => changes.status !== undefined)
+        .map(({ id, changes }) => ({
+          id,
+          status: changes.status as TaskStatus,
+        })),
+      options
+    );
 
-    // Remove from undo stack
-    setUndoStack((prev) => prev.slice(0, -1));
+    const originals = updates
+      .map(({ id, changes }) => ({
+        original: tasks.find((t) => t.id === id),
+        changes,
+      }))
+      .filter(
+        (item): item is { original: Task; changes: UpdateTaskInput } =>
+          !!item.original
+      );
+    if (originals.length === 0) return;
+
+    const entry = recordHistory(
+      "batch",
+      description ??
+        `Updated ${originals.length} task${originals.length !== 1 ? "s" : ""}`,
+      originals.map(({ original, changes }) => ({
+        before: original,
+        after: { ...original, ...changes } as Task,
+      }))
+    );
 
-    // Clear timeout
-    if (undoTimeoutRef.current) {
-      clearTimeout(undoTimeoutRef.current);
-      undoTimeoutRef.current = null;
+    // Optimistic update
+    const updatedAt = new Date().toISOString();
+    const updatedById = new Map(
+      originals.map(({ original, changes }) => [
+        original.id,
+        applyTaskChanges(original, changes, updatedAt),
+      ])
+    );
+    setTasks((prev) => prev.map((task) => updatedById.get(task.id) || task));
+    setOptimisticUpdates((prev) => [
+      ...prev,
+      ...originals.map(({ original }) => ({
+        id: original.id,
+        type: "update" as const,
+        previousState: original,
+        newState: updatedById.get(original.id)!,
+        timestamp: Date.now(),
+      })),
+    ]);
+
+    if (!isOnline) {
+      originals.forEach(({ original, changes }) =>
+        enqueueOfflineAction({
+          type: "update",
+          payload: {
+            id: original.id,
+            changes,
+            baseUpdatedAt: original.updatedAt,
+          },
+        })
+      );
+      return;
     }
 
-    // Revert the task
-    setTasks((prev) =>
-      prev.map((task) =>
-        task.id === lastAction.taskId ? lastAction.previousState : task
+    const result = await api.task.batchUpdateTasks(
+      originals.map(({ original, changes }) => ({ id: original.id, changes }))
+    );
+
+    setOptimisticUpdates((prev) =>
+      prev.filter((update) => !updatedById.has(update.id))
+    );
+    settleBatch(
+      entry,
+      originals.map(({ original }) => original),
+      toBatchItems(result, [...updatedById.keys()]),
+      "updated"
+    );
+  };
+
+  // Delete several tasks as one step - undo brings them all back
+  const batchDeleteTasks = async (ids: string[]) => {
+    const originals = tasks.filter((task) => ids.includes(task.id));
+    if (originals.length === 0) return;
+
+    const entry = recordHistory(
+      "delete",
+      `Deleted ${originals.length} task${originals.length !== 1 ? "s" : ""}`,
+      originals.map((task) => ({ before: task, after: null }))
+    );
+
+    // Optimistic update
+    const deletedIds = new Set(originals.map((task) => task.id));
+    setTasks((prev) => prev.filter((task) => !deletedIds.has(task.id)));
+    setOptimisticUpdates((prev) => [
+      ...prev,
+      ...originals.map((task) => ({
+        id: task.id,
+        type: "delete" as const,
+        previousState: task,
+        newState: null,
+        timestamp: Date.now(),
+      })),
+    ]);
+
+    if (!isOnline) {
+      originals.forEach((task) =>
+        enqueueOfflineAction({
+          type: "delete",
+          payload: { id: task.id, baseUpdatedAt: task.updatedAt },
+        })
+      );
+      return;
+    }
+
+    const result = await api.task.batchDeleteTasks([...deletedIds]);
+
+    setOptimisticUpdates((prev) =>
+      prev.filter((update) => !deletedIds.has(update.id))
+    );
+    settleBatch(
+      entry,
+      originals,
+      toBatchItems(result, [...deletedIds]),
+      "deleted"
+    );
+  };
+
+  // Adopt what a batch saved and roll back what it didn't. The history entry
+  // is trimmed to the tasks that were saved, or dropped if none were.
+  const settleBatch = (
+    entry: UndoableAction,
+    originals: Task[],
+    items: BatchItemResult[],
+    verb: "updated" | "deleted"
+  ) => {
+    const saved = new Map(
+      items.flatMap((item) =>
+        item.success && item.data ? [[item.id, item.data] as const] : []
       )
     );
+    const failures = new Map(
+      items.filter((item) => !item.success).map((item) => [item.id, item])
+    );
+    // A task the server no longer has is dropped rather than rolled back
+    const rollbacks = new Map(
+      originals
+        .filter((task) => {
+          const failure = failures.get(task.id);
+          return failure && failure.error?.status !== 404;
+        })
+        .map((task) => [task.id, task])
+    );
+
+    setTasks((prev) => {
+      const next = prev.flatMap((task) => {
+        if (saved.has(task.id)) return [saved.get(task.id)!];
+        if (!failures.has(task.id)) return [task];
+        return rollbacks.has(task.id) ? [rollbacks.get(task.id)!] : [];
+      });
+      // Tasks that failed to delete come back
+      rollbacks.forEach((task) => {
+        if (!next.some((t) => t.id === task.id)) next.push(task);
+      });
+      return next;
+    });
+
+    if (failures.size === 0) return;
+
+    if (failures.size === originals.length) {
+      discardHistoryEntry(entry.id);
+    } else {
+      const trim = (e: UndoableAction) =>
+        e.id === entry.id
+          ? {
+              ...e,
+              changes: e.changes.filter(
+                ({ before, after }) => !failures.has((before || after)!.id)
+              ),
+            }
+          : e;
+      setHistory((prev) => ({
+        undo: prev.undo.map(trim),
+        redo: prev.redo.map(trim),
+      }));
+    }
+
+    const errors = Array.from(failures.values()).map((item) => item.error);
+    const accessError = errors.find(isAccessError);
+    if (accessError) {
+      setError(accessError);
+    }
+
+    // Operations a rejected batch never applied (424) don't explain it
+    const reason = errors.find(
+      (error) => error?.message && error.status !== 424
+    )?.message;
+    throw new BatchSaveError(
+      failures.size === originals.length
+        ? reason ||
+          `Failed to ${verb === "updated" ? "update" : "delete"} tasks`
+        : `${failures.size} of ${originals.length} tasks couldn't be ${verb}${
+            reason ? ` - ${reason}` : ""
+          }`,
+      originals.length - failures.size
+    );
+  };
+
+  // History helpers
+  const recordHistory = (
+    type: HistoryActionType,
+    description: string,
+    changes: UndoableAction["changes"]
+  ): UndoableAction => {
+    const entry: UndoableAction = {
+      id: `history-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      type,
+      description,
+      changes,
+      timestamp: Date.now(),
+    };
+
+    // A new action invalidates anything that could be redone
+    setHistory((prev) => ({
+      undo: [...prev.undo, entry].slice(-historyLimit),
+      redo: [],
+    }));
+
+    return entry;
+  };
 
-    // Update on server
-    api.task.updateTask(lastAction.taskId, {
-      status: lastAction.previousState.status,
+  const discardHistoryEntry = (entryId: string) => {
+    setHistory((prev) => ({
+      undo: prev.undo.filter((entry) => entry.id !== entryId),
+      redo: prev.redo.filter((entry) => entry.id !== entryId),
+    }));
+  };
+
+  // Point history at server IDs once temp tasks are saved
+  const remapHistoryIds = (idMap: Record<string, string>, saved?: Task) => {
+    const remap = (task: Task | null) => {
+      if (!task || !idMap[task.id]) return task;
+      return saved && saved.id === idMap[task.id]
+        ? saved
+        : { ...task, id: idMap[task.id] };
+    };
+    const remapEntry = (entry: UndoableAction) => ({
+      ...entry,
+      changes: entry.changes.map(({ before, after }) => ({
+        before: remap(before),
+        after: remap(after),
+      })),
     });
-  }, [undoStack]);
 
-  const canUndo = undoStack.length > 0;
+    setHistory((prev) => ({
+      undo: prev.undo.map(remapEntry),
+      redo: prev.redo.map(remapEntry),
+    }));
+  };
+
+  // Move a task from one recorded state to another
+  const transitionTask = async (from: Task | null, to: Task | null) => {
+    const id = (to || from)!.id;
+    const current = tasksRef.current.find((task) => task.id === id);
+
+    if (!to) {
+      if (current) await commitTaskDelete(current);
+      return;
+    }
+
+    if (!current) {
+      await commitTaskRestore(to);
+      return;
+    }
+
+    await commitTaskUpdate(current, toUpdateInput(to));
+  };
+
+  const replayHistory = async (direction: "undo" | "redo") => {
+    const stack = direction === "undo" ? history.undo : history.redo;
+    const entry = stack[stack.length - 1];
+    if (!entry || historyBusyRef.current) return;
+
+    historyBusyRef.current = true;
+    setHistory((prev) =>
+      direction === "undo"
+        ? { undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }
+        : { undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) }
+    );
+
+    try {
+      if (direction === "undo") {
+        for (const change of [...entry.changes].reverse()) {
+          await transitionTask(change.after, change.before);
+        }
+      } else {
+        for (const change of entry.changes) {
+          await transitionTask(change.before, change.after);
+        }
+      }
+    } catch (error) {
+      // Put the entry back where it was so the user can try again
+      setHistory((prev) =>
+        direction === "undo"
+          ? {
+              undo: [...prev.undo, entry],
+              redo: prev.redo.filter((e) => e.id !== entry.id),
+            }
+          : {
+              undo: prev.undo.filter((e) => e.id !== entry.id),
+              redo: [...prev.redo, entry],
+            }
+      );
+      throw error;
+    } finally {
+      historyBusyRef.current = false;
+    }
+  };
+
+  const undoLastAction = () => replayHistory("undo");
+  const redoLastAction = () => replayHistory("redo");
+
+  const canUndo = history.undo.length > 0;
+  const canRedo = history.redo.length > 0;
 
   return {
     tasks,
@@ -253,13 +1045,169 @@ export function useTasks(): UseTasksReturn {
     updateTask,
     deleteTask,
     moveTask,
+    batchUpdateTasks,
+    batchDeleteTasks,
+    reorderTask,
     undoLastAction,
+    redoLastAction,
     canUndo,
+    canRedo,
+    nextUndo: history.undo[history.undo.length - 1] || null,
+    nextRedo: history.redo[history.redo.length - 1] || null,
     // Include optimistic updates for debugging/monitoring
     optimisticUpdates,
+    offlineState: {
+      isOnline,
+      queue: offlineQueue,
+      syncing,
+      lastSyncTime,
+      conflicts: syncConflicts,
+    },
+    syncOfflineQueue,
+    clearSyncConflicts,
+    conflict,
+    resolveConflict,
+    dismissConflict,
+  };
+}
+
+// The server refused because the task isn't the caller's (403) or doesn't
+// exist (404) - worth surfacing, unlike a transient failure
+function isAccessError(error?: ApiError): error is ApiError {
+  return error?.status === 403 || error?.status === 404;
+}
+
+// Fields a task update can carry, taken from a full task snapshot
+function toUpdateInput(task: Task): UpdateTaskInput {
+  return {
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    priority: task.priority,
+    rank: getTaskRank(task),
+    sprintId: task.sprintId ?? null,
+    parentId: task.parentId ?? null,
+    assigneeIds: task.assigneeIds,
+    labelIds: task.labelIds,
+    checklist: task.checklist,
+    scheduling: task.scheduling,
+    aiData: task.aiData,
+  };
+}
+
+function toCreateInput(task: Task): CreateTaskInput {
+  return {
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    status: task.status,
+    boardId: task.boardId,
+    sprintId: task.sprintId,
+    parentId: task.parentId,
+    assigneeIds: task.assigneeIds,
+    labelIds: task.labelIds,
+    checklist: task.checklist,
   };
 }
 
+// Build a client-side task for optimistic creates and queued offline creates
+function buildTempTask(id: string, input: CreateTaskInput): Task {
+  // Get current user ID (same logic as in API)
+  const userStr =
+    typeof window !== "undefined" ? localStorage.getItem("user") : null;
+  const userId = userStr ? JSON.parse(userStr).id : "1";
+
+  const now = new Date().toISOString();
+  const status = input.status ?? "todo";
+
+  return {
+    id,
+    userId,
+    ...input,
+    status,
+    statusHistory: [{ status, at: now, from: null, by: userId }],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Apply an update locally, extending the status history as the server will
+function applyTaskChanges(
+  task: Task,
+  changes: UpdateTaskInput,
+  updatedAt: string
+): Task {
+  const moved = changes.status !== undefined && changes.status !== task.status;
+
+  return {
+    ...task,
+    ...changes,
+    ...(moved && {
+      statusHistory: [
+        ...(task.statusHistory || [
+          { status: task.status, at: task.createdAt },
+        ]),
+        {
+          status: changes.status as TaskStatus,
+          at: updatedAt,
+          from: task.status,
+        },
+      ],
+    }),
+    updatedAt,
+  } as Task;
+}
+
+// Per-task results of a batch write. A rejected batch still reports each
+// task; one that never reached the server failed every task in it.
+function toBatchItems(
+  result: ApiResponse<BatchItemResult[]>,
+  ids: string[]
+): BatchItemResult[] {
+  if (result.data) return result.data;
+  return ids.map((id) => ({ id, success: false, error: result.error }));
+}
+
+function getQueuedActionTarget(action: QueuedAction): string {
+  return action.type === "create" ? action.payload.tempId : action.payload.id;
+}
+
+// How long to wait before replaying the queue again - doubling with every
+// failed attempt at the action at its head
+export function getSyncRetryDelay(action: QueuedAction): number {
+  return 1000 * Math.pow(2, action.retryCount);
+}
+
+// Overlay not-yet-synced offline actions for a board on top of server state
+export function applyQueuedActions(
+  tasks: Task[],
+  queue: QueuedAction[],
+  boardId: string
+): Task[] {
+  return queue.reduce((current, action) => {
+    switch (action.type) {
+      case "create": {
+        const task =
+          action.payload.restore ||
+          buildTempTask(action.payload.tempId, action.payload.input);
+        return task.boardId === boardId ? [...current, task] : current;
+      }
+      case "update":
+        return current.map((task) =>
+          task.id === action.payload.id
+            ? applyTaskChanges(
+                task,
+                action.payload.changes,
+                new Date(action.timestamp).toISOString()
+              )
+            : task
+        );
+      case "delete":
+        return current.filter((task) => task.id !== action.payload.id);
+    }
+  }, tasks);
+}
+
 // Hook for optimistic updates
 export function useOptimistic<T>(
   initialValue: T
@@ -359,6 +1307,16 @@ export function useKeyboardShortcut(
     if (!enabled) return;
 
     const handleKeyPress = (event: KeyboardEvent) => {
+      // Leave text fields their native shortcuts (e.g. Ctrl+Z in an input)
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
       const pressedKeys = [
         event.ctrlKey && "ctrl",
         event.metaKey && "cmd",
@@ -367,9 +1325,10 @@ export function useKeyboardShortcut(
         event.key.toLowerCase(),
       ].filter(Boolean);
 
-      const isMatch = keys.every((key) =>
-        pressedKeys.includes(key.toLowerCase())
-      );
+      // Exact match, so ctrl+z doesn't also fire for ctrl+shift+z
+      const isMatch =
+        keys.length === pressedKeys.length &&
+        keys.every((key) => pressedKeys.includes(key.toLowerCase()));
 
       if (isMatch) {
         event.preventDefault();
@@ -0,0 +1,92 @@
+import {
+  eventToShortcut,
+  fuzzyMatch,
+  getShortcut,
+  rankCommands,
+} from "@/lib/commands";
+import { Command } from "@/lib/types";
+
+const command = (id: string, title: string, extra: Partial<Command> = {}) => ({
+  id,
+  title,
+  group: "Tasks",
+  run: () => undefined,
+  ...extra,
+});
+
+const keyEvent = (key: string, modifiers: Partial<KeyboardEvent> = {}) =>
+  ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...modifiers,
+  } as KeyboardEvent);
+
+describe("fuzzyMatch", () => {
+  it("finds letters in order and reports where they matched", () => {
+    expect(fuzzyMatch("mvt", "Move task")?.indices).toEqual([0, 2, 5]);
+    expect(fuzzyMatch("tvm", "Move task")).toBeNull();
+  });
+
+  it("scores letters together above letters scattered", () => {
+    const together = fuzzyMatch("task", "New task")!;
+    const scattered = fuzzyMatch("task", "Toggle all sidebar keys")!;
+    expect(together.score).toBeGreaterThan(scattered.score);
+  });
+
+  it("prefers a match at the start of a word", () => {
+    expect(fuzzyMatch("do", "Undo and do")?.indices).toEqual([9, 10]);
+  });
+});
+
+describe("rankCommands", () => {
+  const commands = [
+    command("theme", "Toggle theme", { keywords: ["dark mode"] }),
+    command("create", "Create task"),
+    command("redo", "Redo"),
+  ];
+
+  it("orders matches best first", () => {
+    expect(rankCommands(commands, "re").map((r) => r.command.id)).toEqual([
+      "redo",
+      "create",
+      "theme",
+    ]);
+  });
+
+  it("finds commands by keyword without highlighting the title", () => {
+    expect(rankCommands(commands, "dark")).toEqual([
+      { command: commands[0], indices: [] },
+    ]);
+  });
+});
+
+describe("eventToShortcut", () => {
+  it("names modifiers and keys the same way on every platform", () => {
+    expect(
+      eventToShortcut(keyEvent("Z", { ctrlKey: true, shiftKey: true }))
+    ).toBe("mod+shift+z");
+    expect(
+      eventToShortcut(keyEvent("z", { metaKey: true, shiftKey: true }))
+    ).toBe("mod+shift+z");
+    expect(eventToShortcut(keyEvent("k", { metaKey: true }))).toBe("mod+k");
+    expect(eventToShortcut(keyEvent("ArrowUp"))).toBe("up");
+  });
+
+  it("leaves Shift out of symbols and ignores lone modifiers", () => {
+    expect(eventToShortcut(keyEvent("?", { shiftKey: true }))).toBe("?");
+    expect(eventToShortcut(keyEvent("Shift", { shiftKey: true }))).toBeNull();
+  });
+});
+
+describe("getShortcut", () => {
+  const undo = command("undo", "Undo", { shortcut: "mod+z" });
+
+  it("applies the user's rebinding, including removing it", () => {
+    expect(getShortcut(undo, {})).toBe("mod+z");
+    expect(getShortcut(undo, { undo: "mod+u" })).toBe("mod+u");
+    expect(getShortcut(undo, { undo: null })).toBeNull();
+  });
+});
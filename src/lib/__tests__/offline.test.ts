@@ -0,0 +1,189 @@
+import api from "@/lib/api";
+import { ApiError, QueuedAction, Task } from "@/lib/types";
+
+// The queue lives in localStorage; a Map stands in for it
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  window: globalThis,
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+});
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "t1",
+  userId: "u1",
+  boardId: "b1",
+  title: "Task",
+  description: "",
+  status: "todo",
+  priority: "medium",
+  createdAt: "2026-10-01T09:00:00Z",
+  updatedAt: "2026-10-01T09:00:00Z",
+  ...overrides,
+});
+
+const newTask = { title: "New", description: "", priority: "medium" as const };
+
+const ok = (task?: Task) => ({ success: true, data: task });
+const fail = (status: number, details?: unknown) => ({
+  success: false,
+  error: { message: `Failed with ${status}`, status, details } as ApiError,
+});
+
+const createTask = jest.spyOn(api.task, "createTask");
+const updateTask = jest.spyOn(api.task, "updateTask");
+const deleteTask = jest.spyOn(api.task, "deleteTask");
+
+const queue = (...actions: Parameters<typeof api.utils.queueOfflineAction>) =>
+  api.utils.queueOfflineAction(...actions) as QueuedAction;
+
+beforeEach(() => {
+  storage.clear();
+  createTask.mockReset();
+  updateTask.mockReset();
+  deleteTask.mockReset();
+});
+
+describe("processOfflineQueue", () => {
+  it("replays actions in order and clears the queue", async () => {
+    const calls: string[] = [];
+    updateTask.mockImplementation(async (id) => {
+      calls.push(`update ${id}`);
+      return ok(makeTask({ id, updatedAt: "2026-10-02T00:00:00Z" })) as never;
+    });
+    deleteTask.mockImplementation(async (id) => {
+      calls.push(`delete ${id}`);
+      return ok() as never;
+    });
+
+    queue({
+      type: "update",
+      payload: { id: "t1", changes: { title: "A" }, baseUpdatedAt: "v1" },
+    });
+    queue({ type: "delete", payload: { id: "t2", baseUpdatedAt: "v1" } });
+    queue({ type: "update", payload: { id: "t3", changes: { title: "C" } } });
+
+    const result = await api.utils.processOfflineQueue();
+
+    expect(calls).toEqual(["update t1", "delete t2", "update t3"]);
+    expect(result.synced).toHaveLength(3);
+    expect(result.remaining).toEqual([]);
+    expect(api.utils.getOfflineQueue()).toEqual([]);
+    expect(api.utils.getSyncState().lastSyncTime).not.toBeNull();
+  });
+
+  it("sends later actions on a created task to its server ID and version", async () => {
+    createTask.mockResolvedValue(
+      ok(makeTask({ id: "t9", updatedAt: "created" })) as never
+    );
+    updateTask.mockImplementation(
+      async (id) => ok(makeTask({ id, updatedAt: "updated" })) as never
+    );
+    deleteTask.mockResolvedValue(ok() as never);
+
+    queue({
+      type: "create",
+      payload: { tempId: "temp-1", input: { ...newTask, boardId: "b1" } },
+    });
+    queue({
+      type: "update",
+      payload: { id: "temp-1", changes: { title: "Renamed" } },
+    });
+    queue({ type: "delete", payload: { id: "temp-1" } });
+
+    const result = await api.utils.processOfflineQueue();
+
+    expect(result.idMap).toEqual({ "temp-1": "t9" });
+    expect(updateTask).toHaveBeenCalledWith(
+      "t9",
+      { title: "Renamed" },
+      { expectedUpdatedAt: "created" }
+    );
+    expect(deleteTask).toHaveBeenCalledWith("t9", {
+      expectedUpdatedAt: "updated",
+    });
+  });
+
+  it("stops at a failing action and keeps it, and everything after, for later", async () => {
+    updateTask
+      .mockResolvedValueOnce(ok(makeTask({ updatedAt: "v2" })) as never)
+      .mockResolvedValueOnce(fail(503) as never);
+
+    queue({ type: "update", payload: { id: "t1", changes: { title: "A" } } });
+    queue({ type: "update", payload: { id: "t2", changes: { title: "B" } } });
+    queue({
+      type: "update",
+      payload: { id: "t1", changes: { title: "C" }, baseUpdatedAt: "v1" },
+    });
+
+    const result = await api.utils.processOfflineQueue();
+
+    expect(updateTask).toHaveBeenCalledTimes(2);
+    expect(result.remaining.map((action) => action.retryCount)).toEqual([1, 0]);
+    // The action left behind is rebased on the version this run wrote
+    expect(result.remaining[1].payload).toMatchObject({
+      id: "t1",
+      baseUpdatedAt: "v2",
+    });
+    expect(api.utils.getOfflineQueue()).toEqual(result.remaining);
+    expect(api.utils.getSyncState().lastSyncTime).toBeNull();
+  });
+
+  it("gives up on an action after its last retry, and on what depends on it", async () => {
+    createTask.mockResolvedValue(fail(500) as never);
+
+    queue(
+      {
+        type: "create",
+        payload: { tempId: "temp-1", input: { ...newTask, boardId: "b1" } },
+      },
+      1
+    );
+    queue({
+      type: "update",
+      payload: { id: "temp-1", changes: { title: "B" } },
+    });
+
+    const result = await api.utils.processOfflineQueue();
+
+    expect(result.failed.map((action) => action.type)).toEqual([
+      "create",
+      "update",
+    ]);
+    expect(updateTask).not.toHaveBeenCalled();
+    expect(result.remaining).toEqual([]);
+  });
+
+  it("records conflicts and carries on with the rest of the queue", async () => {
+    const current = makeTask({ id: "t1", title: "Theirs", updatedAt: "v9" });
+    updateTask
+      .mockResolvedValueOnce(fail(409, { current }) as never)
+      .mockResolvedValueOnce(fail(404) as never)
+      .mockResolvedValueOnce(fail(403) as never);
+    deleteTask.mockResolvedValue(fail(404) as never);
+
+    queue({ type: "update", payload: { id: "t1", changes: { title: "A" } } });
+    queue({ type: "update", payload: { id: "t2", changes: { title: "B" } } });
+    queue({ type: "update", payload: { id: "t3", changes: { title: "C" } } });
+    queue({ type: "delete", payload: { id: "t4" } });
+
+    const result = await api.utils.processOfflineQueue();
+
+    expect(
+      result.conflicts.map(({ serverTask, error }) => ({
+        serverTask,
+        status: error?.status,
+      }))
+    ).toEqual([
+      { serverTask: current, status: undefined },
+      { serverTask: null, status: undefined }, // gone from the server
+      { serverTask: null, status: 403 }, // still there, but refused
+    ]);
+    // Deleting what's already gone is done, not a conflict
+    expect(result.synced.map(({ action }) => action.type)).toEqual(["delete"]);
+    expect(api.utils.getSyncState().conflicts).toHaveLength(3);
+  });
+});
@@ -0,0 +1,105 @@
+import { getQueryTexts, parseQuery } from "@/lib/query";
+import { DEFAULT_COLUMNS, matchesQuery } from "@/lib/utils";
+import { QueryContext, Task } from "@/lib/types";
+
+const context: QueryContext = {
+  columns: DEFAULT_COLUMNS,
+  labels: [
+    { id: "lbl-bug", name: "Bug", color: "red" },
+    { id: "lbl-blocked", name: "Blocked", color: "gray" },
+  ],
+  members: [
+    {
+      id: "u1",
+      email: "ada@example.com",
+      fullName: "Ada Lovelace",
+      createdAt: "2025-01-01T00:00:00Z",
+      updatedAt: "2025-01-01T00:00:00Z",
+    },
+  ],
+  sprints: [],
+  currentUserId: "u1",
+  now: new Date(2026, 9, 19, 12),
+};
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "t1",
+  userId: "u1",
+  title: "Fix login",
+  description: "The login page needs a fix",
+  status: "todo",
+  priority: "medium",
+  createdAt: "2026-10-01T09:00:00Z",
+  updatedAt: "2026-10-01T09:00:00Z",
+  ...overrides,
+});
+
+const matches = (text: string, task: Task) => {
+  const { query, error } = parseQuery(text, context);
+  expect(error).toBeNull();
+  return matchesQuery(task, query!);
+};
+
+describe("parseQuery", () => {
+  it("returns no query for an empty search", () => {
+    expect(parseQuery("   ", context)).toEqual({ query: null, error: null });
+  });
+
+  it("resolves field values to ids", () => {
+    const { query } = parseQuery("label:bug assignee:me", context);
+    expect(query).toEqual({
+      type: "and",
+      children: [
+        { type: "field", field: "label", values: ["lbl-bug"] },
+        { type: "field", field: "assignee", values: ["u1"] },
+      ],
+    });
+  });
+
+  it("reports bad syntax with the offending range", () => {
+    const { query, error } = parseQuery("priority:high (label:bug", context);
+    expect(query).toBeNull();
+    expect(error).toMatchObject({ message: "Missing closing bracket" });
+    expect(error!.start).toBe(14);
+  });
+
+  it("suggests the value a typo was meant to be", () => {
+    const { error } = parseQuery("priority:hihg", context);
+    expect(error!.message).toContain("high");
+  });
+
+  it("keeps quoted text as one phrase", () => {
+    const { query } = parseQuery('"fix login" -crash', context);
+    expect(getQueryTexts(query)).toEqual([
+      { text: "fix login", phrase: true, negated: false },
+      { text: "crash", phrase: false, negated: true },
+    ]);
+  });
+});
+
+describe("matchesQuery", () => {
+  it("combines terms with AND, OR and NOT", () => {
+    const task = makeTask({ priority: "high", labelIds: ["lbl-bug"] });
+    expect(matches("priority:high label:bug", task)).toBe(true);
+    expect(matches("priority:low OR label:bug", task)).toBe(true);
+    expect(matches("priority:high -label:bug", task)).toBe(false);
+    expect(matches("label:none", task)).toBe(false);
+  });
+
+  it("compares priorities by their order", () => {
+    expect(matches("priority>=medium", makeTask())).toBe(true);
+    expect(matches("priority>medium", makeTask())).toBe(false);
+  });
+
+  it("reads relative dates from the context's today", () => {
+    const task = makeTask({ createdAt: "2026-10-15T09:00:00Z" });
+    expect(matches("created>-7d", task)).toBe(true);
+    expect(matches("created<-7d", task)).toBe(false);
+  });
+
+  it("looks for free text in the title and description", () => {
+    expect(matches("login", makeTask())).toBe(true);
+    expect(matches('"page needs"', makeTask())).toBe(true);
+    expect(matches('"needs page"', makeTask())).toBe(false);
+  });
+});
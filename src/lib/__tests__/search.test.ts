@@ -0,0 +1,84 @@
+import { getHighlightRanges, SearchIndex, tokenize } from "@/lib/search";
+
+const ids = (results: Array<{ id: string }>) => results.map(({ id }) => id);
+
+describe("tokenize", () => {
+  it("lowercases words and drops punctuation", () => {
+    expect(tokenize("Fix the Log-in page!")).toEqual([
+      "fix",
+      "the",
+      "log",
+      "in",
+      "page",
+    ]);
+  });
+});
+
+describe("SearchIndex", () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.set("title", { title: "Deploy pipeline", description: "" });
+    index.set("body", { title: "Chores", description: "deploy on fridays" });
+    index.set("comment", { title: "Misc", comments: "can we deploy it" });
+  });
+
+  it("ranks title matches above description and comment matches", () => {
+    expect(ids(index.search("deploy"))).toEqual(["title", "body", "comment"]);
+  });
+
+  it("only returns tasks containing every word", () => {
+    expect(ids(index.search("deploy pipeline"))).toEqual(["title"]);
+  });
+
+  it("matches the start of a word and small typos below exact words", () => {
+    index.set("prefix", { title: "Deployment notes", description: "" });
+    index.set("typo", { title: "Deplay script", description: "" });
+
+    const results = ids(index.search("deploy"));
+    expect(results).toContain("prefix");
+    expect(results).toContain("typo");
+    expect(results[0]).toBe("title");
+  });
+
+  it("replaces and removes what was indexed for a task", () => {
+    index.set("title", { title: "Release", description: "" });
+    expect(ids(index.search("pipeline"))).toEqual([]);
+
+    index.remove("body");
+    expect(ids(index.search("deploy"))).toEqual(["comment"]);
+    expect(index.size).toBe(2);
+  });
+
+  it("matches a phrase only as adjacent words in order", () => {
+    index.set("a", { title: "Fix login", description: "" });
+    index.set("b", { title: "Login page needs a fix", description: "" });
+    index.set("c", { title: "Quick fix", description: "login form" });
+
+    expect(ids(index.search("fix login", { phrase: true }))).toEqual(["a"]);
+    expect(ids(index.search("fix login"))).toEqual(
+      expect.arrayContaining(["a", "b", "c"])
+    );
+  });
+
+  it("takes no prefixes or typos inside a phrase", () => {
+    expect(ids(index.search("deplo", { phrase: true }))).toEqual([]);
+  });
+
+  it("reports the indexed words that matched", () => {
+    const [result] = index.search("pipe");
+    expect(result.terms).toEqual(["pipeline"]);
+  });
+});
+
+describe("getHighlightRanges", () => {
+  it("finds every occurrence of the matched words", () => {
+    expect(getHighlightRanges("Deploy, then deploy again", ["deploy"])).toEqual(
+      [
+        [0, 6],
+        [13, 19],
+      ]
+    );
+  });
+});
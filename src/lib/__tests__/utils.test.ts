@@ -0,0 +1,194 @@
+import {
+  DEFAULT_COLUMNS,
+  DEFAULT_VIEW_STATE,
+  decodeViewState,
+  encodeViewState,
+  getRankBetween,
+  getWipLimitViolations,
+  getWorkingDays,
+  mergeTaskChanges,
+  planSprintCompletion,
+  sortTasks,
+  toDateKey,
+} from "@/lib/utils";
+import { Sprint, Task, WorkflowColumn } from "@/lib/types";
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "t1",
+  userId: "u1",
+  title: "Task",
+  description: "",
+  status: "todo",
+  priority: "medium",
+  createdAt: "2026-10-01T09:00:00Z",
+  updatedAt: "2026-10-01T09:00:00Z",
+  ...overrides,
+});
+
+describe("getRankBetween", () => {
+  it("places a task between, before or after its neighbours", () => {
+    expect(getRankBetween(1, 2)).toBe(1.5);
+    expect(getRankBetween(null, 5)).toBe(4);
+    expect(getRankBetween(5, null)).toBe(6);
+    expect(getRankBetween(null, null)).toBe(0);
+  });
+
+  it("gives up once there's no room left between two ranks", () => {
+    expect(getRankBetween(1, 1 + Number.EPSILON)).toBeNull();
+  });
+
+  it("keeps tasks in the order they were dropped", () => {
+    const tasks = [
+      makeTask({ id: "a", rank: 1 }),
+      makeTask({ id: "b", rank: 2 }),
+      makeTask({ id: "c", rank: getRankBetween(1, 2)! }),
+    ];
+    expect(sortTasks(tasks, "manual", "asc").map((t) => t.id)).toEqual([
+      "a",
+      "c",
+      "b",
+    ]);
+  });
+});
+
+describe("mergeTaskChanges", () => {
+  const base = makeTask({ title: "Old", priority: "low", labelIds: ["a"] });
+
+  it("keeps local edits to fields nobody else changed", () => {
+    const remote = { ...base, description: "Edited elsewhere" };
+    expect(mergeTaskChanges(base, { title: "New" }, remote)).toEqual({
+      mergedChanges: { title: "New" },
+      conflictingFields: [],
+    });
+  });
+
+  it("merges concurrent edits to different fields", () => {
+    const remote = { ...base, priority: "high" as const, updatedAt: "later" };
+    // A full form save resends fields it left alone
+    const local = { title: "New", priority: base.priority, labelIds: ["a"] };
+    expect(mergeTaskChanges(base, local, remote)).toEqual({
+      mergedChanges: { title: "New" },
+      conflictingFields: [],
+    });
+  });
+
+  it("flags fields both sides changed differently", () => {
+    const remote = { ...base, priority: "high" as const };
+    expect(mergeTaskChanges(base, { priority: "medium" }, remote)).toEqual({
+      mergedChanges: {},
+      conflictingFields: ["priority"],
+    });
+  });
+
+  it("drops changes the other side already made", () => {
+    const remote = { ...base, labelIds: ["a", "b"] };
+    expect(
+      mergeTaskChanges(base, { labelIds: ["a", "b"] }, remote).mergedChanges
+    ).toEqual({});
+  });
+});
+
+describe("planSprintCompletion", () => {
+  const sprint: Sprint = {
+    id: "s1",
+    boardId: "b1",
+    name: "Sprint 1",
+    startDate: "2026-10-05",
+    endDate: "2026-10-18",
+    state: "active",
+    committedTaskIds: ["done", "open"],
+    createdAt: "2026-10-01T00:00:00Z",
+    updatedAt: "2026-10-01T00:00:00Z",
+  };
+  const tasks = [
+    makeTask({ id: "done", sprintId: "s1", status: "done" }),
+    makeTask({ id: "open", sprintId: "s1", status: "in-progress" }),
+    makeTask({ id: "added", sprintId: "s1", status: "todo" }),
+    makeTask({ id: "other", sprintId: "s2", status: "todo" }),
+  ];
+
+  it("moves unfinished tasks into the next sprint", () => {
+    const { snapshot, rollover } = planSprintCompletion(
+      sprint,
+      tasks,
+      DEFAULT_COLUMNS,
+      "s2"
+    );
+    expect(snapshot).toMatchObject({
+      completedTaskIds: ["done"],
+      rolledOverTaskIds: ["open", "added"],
+      rolledOverTo: "s2",
+    });
+    expect(rollover).toEqual([
+      { id: "open", changes: { sprintId: "s2" } },
+      { id: "added", changes: { sprintId: "s2" } },
+    ]);
+  });
+
+  it("returns unfinished tasks to the backlog when there's no next sprint", () => {
+    const { rollover } = planSprintCompletion(
+      sprint,
+      tasks,
+      DEFAULT_COLUMNS,
+      null
+    );
+    expect(rollover.map((move) => move.changes.sprintId)).toEqual([null, null]);
+  });
+});
+
+describe("getWipLimitViolations", () => {
+  const columns: WorkflowColumn[] = DEFAULT_COLUMNS.map((column) =>
+    column.id === "in-progress"
+      ? { ...column, wipLimit: 1, wipLimitMode: "block" }
+      : column
+  );
+  const tasks = [
+    makeTask({ id: "a", status: "in-progress" }),
+    makeTask({ id: "b", status: "todo" }),
+  ];
+
+  it("reports columns a move would take over their limit", () => {
+    expect(
+      getWipLimitViolations(
+        tasks,
+        [{ id: "b", status: "in-progress" }],
+        columns
+      )
+    ).toEqual([{ column: columns[1], count: 2, limit: 1 }]);
+  });
+
+  it("ignores columns that are already over but gain nothing", () => {
+    expect(
+      getWipLimitViolations(tasks, [{ id: "a", status: "done" }], columns)
+    ).toEqual([]);
+  });
+});
+
+describe("dates", () => {
+  it("formats calendar days in local time", () => {
+    expect(toDateKey(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+  });
+
+  it("counts weekdays in a range, inclusive", () => {
+    // Monday 19 October to Sunday 1 November 2026
+    expect(getWorkingDays("2026-10-19", "2026-11-01")).toBe(10);
+    expect(getWorkingDays("2026-10-24", "2026-10-25")).toBe(0);
+  });
+});
+
+describe("view state links", () => {
+  it("round-trips a view through its query string", () => {
+    const state = {
+      ...DEFAULT_VIEW_STATE,
+      searchQuery: "label:bug",
+      sortBy: "priority" as const,
+      sortOrder: "desc" as const,
+    };
+    const search = encodeViewState(state, "b1");
+    expect(decodeViewState(search)).toEqual({ boardId: "b1", state });
+  });
+
+  it("ignores query strings that don't describe a view", () => {
+    expect(decodeViewState("utm_source=mail")).toBeNull();
+  });
+});
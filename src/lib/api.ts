@@ -5,16 +5,40 @@ import {
   UpdateTaskInput,
   ApiResponse,
   ApiError,
+  BatchItemResult,
+  BatchOperation,
   LoginCredentials,
   RegisterCredentials,
   User,
   AuthResponse,
+  Board,
+  CreateBoardInput,
+  UpdateBoardInput,
+  Sprint,
+  CreateSprintInput,
+  UpdateSprintInput,
+  ActivityEntry,
+  ActivityFilters,
+  Comment,
+  CreateCommentInput,
+  QueuedAction,
+  QueuedActionInput,
+  OfflineSyncResult,
+  SyncConflict,
 } from "./types";
+import { generateId } from "./utils";
 
 // Configuration
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 const FAILURE_RATE = parseFloat(process.env.NEXT_PUBLIC_FAILURE_RATE || "0.1");
 const API_TIMEOUT = parseInt(process.env.NEXT_PUBLIC_API_TIMEOUT || "10000");
+const OFFLINE_QUEUE_KEY = "offlineQueue";
+const SYNC_STATE_KEY = "offlineSyncState";
+const DEFAULT_MAX_RETRIES = 3;
+const AUTH_TOKEN_KEY = "authToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const TOKEN_EXPIRY_KEY = "tokenExpiresAt";
+const USER_KEY = "user";
 
 // Create axios instance with default config
 const apiClient: AxiosInstance = axios.create({
@@ -29,7 +53,9 @@ const apiClient: AxiosInstance = axios.create({
 apiClient.interceptors.request.use(
   (config) => {
     const token =
-      typeof window !== "undefined" ? localStorage.getItem("authToken") : null;
+      typeof window !== "undefined"
+        ? localStorage.getItem(AUTH_TOKEN_KEY)
+        : null;
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -40,16 +66,36 @@ apiClient.interceptors.request.use(
   }
 );
 
+// Requests already replayed after a token refresh
+const retriedRequests = new WeakSet<object>();
+
 // Response interceptor for error handling
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError<any>) => {
+  async (error: AxiosError<any>) => {
+    const config = error.config;
+
+    // Rejected access token: rotate the session once and replay the request
+    if (
+      config &&
+      error.response?.status === 401 &&
+      !config.url?.startsWith("/auth/") &&
+      !retriedRequests.has(config)
+    ) {
+      retriedRequests.add(config);
+      const refreshed = await authApi.refreshToken();
+      if (refreshed.success) {
+        return apiClient(config);
+      }
+    }
+
     const apiError: ApiError = {
       message:
         error.response?.data?.message ||
         error.message ||
         "An unexpected error occurred",
       code: error.code,
+      status: error.response?.status,
       details: error.response?.data,
     };
     return Promise.reject(apiError);
@@ -68,10 +114,26 @@ const simulateFailure = (): boolean => {
 const delay = (ms: number): Promise<void> =>
   new Promise((resolve) => setTimeout(resolve, ms));
 
+// Optimistic concurrency precondition for task writes
+export interface TaskWriteOptions {
+  expectedUpdatedAt?: string;
+}
+
+const preconditionHeaders = (options: TaskWriteOptions) =>
+  options.expectedUpdatedAt
+    ? { "If-Match": options.expectedUpdatedAt }
+    : undefined;
+
+// A 409 carries the server's current copy of the task
+export function getConflictingTask(error?: ApiError): Task | null {
+  if (error?.status !== 409) return null;
+  return (error.details?.current as Task) || null;
+}
+
 // Task API methods
 export const taskApi = {
-  // Get all tasks
-  async getAllTasks(): Promise<ApiResponse<Task[]>> {
+  // Get all tasks on a board
+  async getAllTasks(boardId: string): Promise<ApiResponse<Task[]>> {
     try {
       await delay(300); // Simulate network delay
 
@@ -79,12 +141,10 @@ export const taskApi = {
         throw new Error("Simulated API failure");
       }
 
-      // Get current user ID
-      const userStr =
-        typeof window !== "undefined" ? localStorage.getItem("user") : null;
-      const userId = userStr ? JSON.parse(userStr).id : "1";
-
-      const response = await apiClient.get<Task[]>(`/tasks?userId=${userId}`);
+      // The server checks the token's user is a member of the board
+      const response = await apiClient.get<Task[]>(
+        `/tasks?boardId=${encodeURIComponent(boardId)}`
+      );
       return {
         data: response.data,
         success: true,
@@ -123,15 +183,10 @@ export const taskApi = {
         throw new Error("Failed to create task - simulated failure");
       }
 
-      // Get current user ID
-      const userStr =
-        typeof window !== "undefined" ? localStorage.getItem("user") : null;
-      const userId = userStr ? JSON.parse(userStr).id : "1";
-
-      const newTask: Omit<Task, "id"> = {
+      // The server assigns the owner from the token
+      const newTask: Omit<Task, "id" | "userId"> = {
         ...input,
-        userId,
-        status: "todo",
+        status: input.status ?? "todo",
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -149,10 +204,37 @@ export const taskApi = {
     }
   },
 
+  // Re-create a previously deleted task with its original ID (used by undo)
+  async restoreTask(task: Task): Promise<ApiResponse<Task>> {
+    try {
+      await delay(300);
+
+      if (simulateFailure()) {
+        throw new Error("Failed to restore task - simulated failure");
+      }
+
+      const response = await apiClient.post<Task>("/tasks", {
+        ...task,
+        updatedAt: new Date().toISOString(),
+      });
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+
   // Update task
+  // Pass expectedUpdatedAt to reject the write (409) if the task changed since
   async updateTask(
     id: string,
-    input: UpdateTaskInput
+    input: UpdateTaskInput,
+    options: TaskWriteOptions = {}
   ): Promise<ApiResponse<Task>> {
     try {
       await delay(300);
@@ -166,7 +248,9 @@ export const taskApi = {
         updatedAt: new Date().toISOString(),
       };
 
-      const response = await apiClient.patch<Task>(`/tasks/${id}`, updates);
+      const response = await apiClient.patch<Task>(`/tasks/${id}`, updates, {
+        headers: preconditionHeaders(options),
+      });
       return {
         data: response.data,
         success: true,
@@ -180,7 +264,10 @@ export const taskApi = {
   },
 
   // Delete task
-  async deleteTask(id: string): Promise<ApiResponse<void>> {
+  async deleteTask(
+    id: string,
+    options: TaskWriteOptions = {}
+  ): Promise<ApiResponse<void>> {
     try {
       await delay(300);
 
@@ -188,7 +275,9 @@ export const taskApi = {
         throw new Error("Failed to delete task - simulated failure");
       }
 
-      await apiClient.delete(`/tasks/${id}`);
+      await apiClient.delete(`/tasks/${id}`, {
+        headers: preconditionHeaders(options),
+      });
       return {
         success: true,
       };
@@ -208,34 +297,119 @@ export const taskApi = {
     return taskApi.updateTask(id, { status: newStatus });
   },
 
+  // Apply several writes in one request. The server applies all of them or
+  // none; either way there's a result per operation, in order, and a
+  // rejected batch marks the operation that stopped it.
+  async batchTasks(
+    operations: BatchOperation[]
+  ): Promise<ApiResponse<BatchItemResult[]>> {
+    try {
+      await delay(300);
+
+      if (simulateFailure()) {
+        throw new Error("Failed to save tasks - simulated failure");
+      }
+
+      const response = await apiClient.post<{ results: BatchItemResult[] }>(
+        "/tasks/batch",
+        { operations }
+      );
+      return {
+        data: response.data.results,
+        success: true,
+      };
+    } catch (error: any) {
+      const apiError = error as ApiError;
+      return {
+        data: apiError.details?.results,
+        error: apiError,
+        success: false,
+      };
+    }
+  },
+
   // Batch update tasks
   async batchUpdateTasks(
     updates: Array<{ id: string; changes: UpdateTaskInput }>
-  ): Promise<ApiResponse<Task[]>> {
+  ): Promise<ApiResponse<BatchItemResult[]>> {
+    return taskApi.batchTasks(
+      updates.map(({ id, changes }) => ({ type: "update", id, changes }))
+    );
+  },
+
+  // Batch delete tasks; ones already gone count as deleted
+  async batchDeleteTasks(
+    ids: string[]
+  ): Promise<ApiResponse<BatchItemResult[]>> {
+    return taskApi.batchTasks(ids.map((id) => ({ type: "delete", id })));
+  },
+};
+
+// Board API methods
+export const boardApi = {
+  // Get the boards the current user is a member of
+  async getBoards(): Promise<ApiResponse<Board[]>> {
     try {
-      const promises = updates.map(({ id, changes }) =>
-        taskApi.updateTask(id, changes)
-      );
+      await delay(200);
+      const response = await apiClient.get<Board[]>("/boards");
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+
+  // Create board - the server makes the current user its owner
+  async createBoard(input: CreateBoardInput): Promise<ApiResponse<Board>> {
+    try {
+      await delay(300);
 
-      const results = await Promise.all(promises);
-      const successful = results.filter((r) => r.success);
-      const failed = results.filter((r) => !r.success);
-
-      if (failed.length > 0) {
-        return {
-          error: {
-            message: `Failed to update ${failed.length} tasks`,
-            details: { failed },
-          },
-          success: false,
+      if (!input.name.trim()) {
+        const error: ApiError = {
+          message: "Board name is required",
         };
+        throw error;
       }
 
+      const response = await apiClient.post<Board>("/boards", {
+        ...input,
+        name: input.name.trim(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+
+  // Rename a board or change its members (owners only)
+  async updateBoard(
+    id: string,
+    input: UpdateBoardInput
+  ): Promise<ApiResponse<Board>> {
+    try {
+      await delay(300);
+      const response = await apiClient.patch<Board>(`/boards/${id}`, {
+        ...input,
+        updatedAt: new Date().toISOString(),
+      });
       return {
-        data: successful.map((r) => r.data!),
+        data: response.data,
         success: true,
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         error: error as ApiError,
         success: false,
@@ -244,147 +418,376 @@ export const taskApi = {
   },
 };
 
-// Auth API methods (mock implementation)
-export const authApi = {
-  // Register
-  async register(
-    credentials: RegisterCredentials
-  ): Promise<ApiResponse<AuthResponse>> {
+// Sprint API methods
+export const sprintApi = {
+  // Get every sprint of a board, planned, active and completed
+  async getSprints(boardId: string): Promise<ApiResponse<Sprint[]>> {
     try {
-      await delay(800);
+      await delay(200);
+      const response = await apiClient.get<Sprint[]>(
+        `/sprints?boardId=${encodeURIComponent(boardId)}`
+      );
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
 
-      // Basic validation
-      if (
-        !credentials.fullName ||
-        !credentials.email ||
-        !credentials.password
-      ) {
+  // Plan a new sprint - it stays in planning until it is started
+  async createSprint(input: CreateSprintInput): Promise<ApiResponse<Sprint>> {
+    try {
+      await delay(300);
+
+      if (!input.name.trim()) {
         const error: ApiError = {
-          message: "All fields are required",
+          message: "Sprint name is required",
         };
         throw error;
       }
-
-      if (credentials.password !== credentials.confirmPassword) {
+      if (input.startDate > input.endDate) {
         const error: ApiError = {
-          message: "Passwords do not match",
+          message: "A sprint can't end before it starts",
         };
         throw error;
       }
 
-      if (credentials.password.length < 6) {
+      const response = await apiClient.post<Sprint>("/sprints", {
+        ...input,
+        name: input.name.trim(),
+        state: "planned",
+        committedTaskIds: [],
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+
+  // Edit, start or complete a sprint
+  async updateSprint(
+    id: string,
+    input: UpdateSprintInput
+  ): Promise<ApiResponse<Sprint>> {
+    try {
+      await delay(300);
+      const response = await apiClient.patch<Sprint>(`/sprints/${id}`, {
+        ...input,
+        updatedAt: new Date().toISOString(),
+      });
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+};
+
+// Comment methods
+export const commentApi = {
+  // Every comment on a board's tasks, so cards can show their counts
+  async getComments(boardId: string): Promise<ApiResponse<Comment[]>> {
+    try {
+      await delay(200);
+      const response = await apiClient.get<Comment[]>(
+        `/comments?boardId=${encodeURIComponent(boardId)}`
+      );
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+
+  // Comment on a task, or reply to a comment with parentId
+  async createComment(
+    input: CreateCommentInput
+  ): Promise<ApiResponse<Comment>> {
+    try {
+      await delay(300);
+
+      if (!input.body.trim()) {
         const error: ApiError = {
-          message: "Password must be at least 6 characters long",
+          message: "A comment can't be empty",
         };
         throw error;
       }
 
-      // Check if user already exists (mock check)
-      const existingUsers = await this.checkUserExists(credentials.email);
-      if (existingUsers.success && existingUsers.data) {
+      // The server fills in the author, board and timestamps
+      const response = await apiClient.post<Comment>("/comments", {
+        ...input,
+        parentId: input.parentId ?? null,
+      });
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+
+  // Only the author can edit; the server marks it as edited
+  async updateComment(id: string, body: string): Promise<ApiResponse<Comment>> {
+    try {
+      await delay(300);
+
+      if (!body.trim()) {
         const error: ApiError = {
-          message: "User with this email already exists",
+          message: "A comment can't be empty",
         };
         throw error;
       }
 
-      // Create new user
-      const newUser: User = {
-        id: Date.now().toString(),
-        email: credentials.email,
-        fullName: credentials.fullName,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+      const response = await apiClient.patch<Comment>(`/comments/${id}`, {
+        body,
+      });
+      return {
+        data: response.data,
+        success: true,
       };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
 
-      const mockToken = `mock-jwt-${Date.now()}`;
+  // Blank a comment that has replies, keeping it in the thread
+  async clearComment(id: string): Promise<ApiResponse<Comment>> {
+    try {
+      await delay(300);
+      const response = await apiClient.patch<Comment>(`/comments/${id}`, {
+        deletedAt: new Date().toISOString(),
+      });
+      return {
+        data: response.data,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
 
-      // Save to mock database (in real app, this would be server-side)
-      const response = await apiClient.post<User>("/users", newUser);
+  // Remove a comment without replies
+  async deleteComment(id: string): Promise<ApiResponse<void>> {
+    try {
+      await delay(300);
+      await apiClient.delete(`/comments/${id}`);
+      return {
+        success: true,
+      };
+    } catch (error) {
+      return {
+        error: error as ApiError,
+        success: false,
+      };
+    }
+  },
+};
 
-      // Store token in localStorage
-      if (typeof window !== "undefined") {
-        localStorage.setItem("authToken", mockToken);
-        localStorage.setItem("user", JSON.stringify(response.data));
-      }
+// Activity log methods - the server records entries, clients only read them
+export const activityApi = {
+  // Newest first; filters narrow the board's feed to a task, person or action
+  async getActivity(
+    boardId: string,
+    filters: ActivityFilters = {}
+  ): Promise<ApiResponse<ActivityEntry[]>> {
+    try {
+      await delay(200);
+      const params = new URLSearchParams({ boardId });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
 
+      const response = await apiClient.get<ActivityEntry[]>(
+        `/activity?${params}`
+      );
       return {
-        data: {
-          user: response.data,
-          token: mockToken,
-        },
+        data: response.data,
         success: true,
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         error: error as ApiError,
         success: false,
       };
     }
   },
+};
 
-  // Check if user exists
-  async checkUserExists(email: string): Promise<ApiResponse<boolean>> {
+// User directory methods
+export const userApi = {
+  // Get public profiles for a set of users, e.g. a board's members
+  async getUsers(ids: string[]): Promise<ApiResponse<User[]>> {
     try {
-      const response = await apiClient.get<User[]>(`/users?email=${email}`);
+      if (ids.length === 0) {
+        return { data: [], success: true };
+      }
+
+      await delay(200);
+      const query = ids.map((id) => `id=${encodeURIComponent(id)}`).join("&");
+      const response = await apiClient.get<User[]>(`/users?${query}`);
       return {
-        data: response.data.length > 0,
+        data: response.data,
         success: true,
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         error: error as ApiError,
         success: false,
       };
     }
   },
+};
 
-  // Login
-  async login(
-    credentials: LoginCredentials
+// Auth session persistence
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+let refreshInFlight: Promise<ApiResponse<AuthResponse>> | null = null;
+
+const saveSession = (session: AuthResponse) => {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(AUTH_TOKEN_KEY, session.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  localStorage.setItem(TOKEN_EXPIRY_KEY, session.expiresAt);
+  localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+};
+
+const clearSession = () => {
+  if (typeof window === "undefined") return;
+  [AUTH_TOKEN_KEY, REFRESH_TOKEN_KEY, TOKEN_EXPIRY_KEY, USER_KEY].forEach(
+    (key) => localStorage.removeItem(key)
+  );
+};
+
+const expireSession = () => {
+  clearSession();
+  sessionExpiredListeners.forEach((listener) => listener());
+};
+
+// Notified when the server rejects the session and the user must log in again
+export function onSessionExpired(listener: SessionExpiredListener) {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+async function rotateSession(): Promise<ApiResponse<AuthResponse>> {
+  try {
+    const refreshToken =
+      typeof window !== "undefined"
+        ? localStorage.getItem(REFRESH_TOKEN_KEY)
+        : null;
+
+    if (!refreshToken) {
+      const error: ApiError = {
+        message: "No session to refresh",
+        status: 401,
+      };
+      throw error;
+    }
+
+    const response = await apiClient.post<AuthResponse>("/auth/refresh", {
+      refreshToken,
+    });
+    saveSession(response.data);
+
+    return {
+      data: response.data,
+      success: true,
+    };
+  } catch (error) {
+    // Only a rejected refresh ends the session; network errors keep it
+    // around so offline users aren't logged out
+    if ((error as ApiError).status === 401) {
+      expireSession();
+    }
+    return {
+      error: error as ApiError,
+      success: false,
+    };
+  }
+}
+
+// Auth API methods (backed by the mock server's /auth routes)
+export const authApi = {
+  // Register
+  async register(
+    credentials: RegisterCredentials
   ): Promise<ApiResponse<AuthResponse>> {
     try {
-      await delay(500);
-
-      // Mock authentication - check against registered users
-      if (!credentials.email || !credentials.password) {
+      // Basic validation
+      if (
+        !credentials.fullName ||
+        !credentials.email ||
+        !credentials.password
+      ) {
         const error: ApiError = {
-          message: "Email and password are required",
+          message: "All fields are required",
         };
         throw error;
       }
 
-      // Get user from mock database
-      const response = await apiClient.get<User[]>(
-        `/users?email=${credentials.email}`
-      );
-      const users = response.data;
-
-      if (users.length === 0) {
+      if (credentials.password !== credentials.confirmPassword) {
         const error: ApiError = {
-          message: "Invalid email or password",
+          message: "Passwords do not match",
         };
         throw error;
       }
 
-      // In a real app, you'd verify the password hash
-      const user = users[0];
-      const mockToken = `mock-jwt-${Date.now()}`;
-
-      // Store token in localStorage
-      if (typeof window !== "undefined") {
-        localStorage.setItem("authToken", mockToken);
-        localStorage.setItem("user", JSON.stringify(user));
+      if (credentials.password.length < 6) {
+        const error: ApiError = {
+          message: "Password must be at least 6 characters long",
+        };
+        throw error;
       }
 
+      // The server hashes the password and rejects duplicate emails
+      const response = await apiClient.post<AuthResponse>("/auth/register", {
+        fullName: credentials.fullName,
+        email: credentials.email,
+        password: credentials.password,
+      });
+      saveSession(response.data);
+
       return {
-        data: {
-          user,
-          token: mockToken,
-        },
+        data: response.data,
         success: true,
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         error: error as ApiError,
         success: false,
@@ -392,21 +795,29 @@ export const authApi = {
     }
   },
 
-  // Logout
-  async logout(): Promise<ApiResponse<void>> {
+  // Login
+  async login(
+    credentials: LoginCredentials
+  ): Promise<ApiResponse<AuthResponse>> {
     try {
-      await delay(200);
-
-      // Clear localStorage
-      if (typeof window !== "undefined") {
-        localStorage.removeItem("authToken");
-        localStorage.removeItem("user");
+      if (!credentials.email || !credentials.password) {
+        const error: ApiError = {
+          message: "Email and password are required",
+        };
+        throw error;
       }
 
+      const response = await apiClient.post<AuthResponse>(
+        "/auth/login",
+        credentials
+      );
+      saveSession(response.data);
+
       return {
+        data: response.data,
         success: true,
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         error: error as ApiError,
         success: false,
@@ -414,34 +825,25 @@ export const authApi = {
     }
   },
 
-  // Get current user
-  async getCurrentUser(): Promise<ApiResponse<User>> {
+  // Logout - revokes the refresh token server-side
+  async logout(): Promise<ApiResponse<void>> {
     try {
-      await delay(200);
-
-      if (typeof window !== "undefined") {
-        const userStr = localStorage.getItem("user");
-        const token = localStorage.getItem("authToken");
+      const refreshToken =
+        typeof window !== "undefined"
+          ? localStorage.getItem(REFRESH_TOKEN_KEY)
+          : null;
 
-        if (!token || !userStr) {
-          const error: ApiError = {
-            message: "Not authenticated",
-          };
-          throw error;
-        }
+      // Clear locally first so the user is logged out even if the call fails
+      clearSession();
 
-        const user = JSON.parse(userStr);
-        return {
-          data: user,
-          success: true,
-        };
+      if (refreshToken) {
+        await apiClient.post("/auth/logout", { refreshToken });
       }
 
-      const error: ApiError = {
-        message: "Not in browser environment",
+      return {
+        success: true,
       };
-      throw error;
-    } catch (error: any) {
+    } catch (error) {
       return {
         error: error as ApiError,
         success: false,
@@ -449,40 +851,57 @@ export const authApi = {
     }
   },
 
-  // Refresh token
-  async refreshToken(): Promise<ApiResponse<{ token: string }>> {
+  // Get the persisted session, if any
+  getSession(): AuthResponse | null {
+    if (typeof window === "undefined") return null;
+
+    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    const expiresAt = localStorage.getItem(TOKEN_EXPIRY_KEY);
+    const userStr = localStorage.getItem(USER_KEY);
+
+    if (!token || !refreshToken || !expiresAt || !userStr) return null;
+
     try {
-      await delay(300);
+      return { user: JSON.parse(userStr), token, refreshToken, expiresAt };
+    } catch {
+      return null;
+    }
+  },
 
-      const currentToken =
-        typeof window !== "undefined"
-          ? localStorage.getItem("authToken")
-          : null;
+  // Get current user
+  async getCurrentUser(): Promise<ApiResponse<User>> {
+    try {
+      const session = this.getSession();
 
-      if (!currentToken) {
+      if (!session) {
         const error: ApiError = {
-          message: "No token to refresh",
+          message: "Not authenticated",
         };
         throw error;
       }
 
-      const newToken = `mock-jwt-refreshed-${Date.now()}`;
-
-      if (typeof window !== "undefined") {
-        localStorage.setItem("authToken", newToken);
-      }
-
       return {
-        data: { token: newToken },
+        data: session.user,
         success: true,
       };
-    } catch (error: any) {
+    } catch (error) {
       return {
         error: error as ApiError,
         success: false,
       };
     }
   },
+
+  // Refresh token - rotates both tokens; concurrent callers share one request
+  async refreshToken(): Promise<ApiResponse<AuthResponse>> {
+    if (!refreshInFlight) {
+      refreshInFlight = rotateSession().finally(() => {
+        refreshInFlight = null;
+      });
+    }
+    return refreshInFlight;
+  },
 };
 
 // Utility functions
@@ -521,36 +940,248 @@ export const utils = {
     return navigator.onLine;
   },
 
-  // Queue action for offline processing
-  queueOfflineAction(action: any): void {
+  // Read the persisted offline queue
+  getOfflineQueue(): QueuedAction[] {
+    if (typeof window === "undefined") return [];
+    return readStorage<QueuedAction[]>(OFFLINE_QUEUE_KEY, []);
+  },
+
+  // Read the persisted sync state (last sync time and unresolved conflicts)
+  getSyncState(): OfflineSyncState {
+    if (typeof window === "undefined") {
+      return { lastSyncTime: null, conflicts: [] };
+    }
+    return readStorage<OfflineSyncState>(SYNC_STATE_KEY, {
+      lastSyncTime: null,
+      conflicts: [],
+    });
+  },
+
+  // Persist the sync state
+  saveSyncState(state: OfflineSyncState): void {
     if (typeof window === "undefined") return;
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  },
 
-    const queue = JSON.parse(localStorage.getItem("offlineQueue") || "[]");
-    queue.push({
+  // Queue action for offline processing
+  queueOfflineAction(
+    action: QueuedActionInput,
+    maxRetries = DEFAULT_MAX_RETRIES
+  ): QueuedAction | null {
+    if (typeof window === "undefined") return null;
+
+    const queued = {
       ...action,
+      id: generateId(),
       timestamp: Date.now(),
-    });
-    localStorage.setItem("offlineQueue", JSON.stringify(queue));
+      retryCount: 0,
+      maxRetries,
+    } as QueuedAction;
+
+    const queue = utils.getOfflineQueue();
+    queue.push(queued);
+    localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(queue));
+
+    return queued;
   },
 
   // Process offline queue
-  async processOfflineQueue(): Promise<void> {
-    if (typeof window === "undefined") return;
+  // Actions are replayed strictly in order. A failing action stops the run
+  // (so later actions never overtake it) until it exhausts its retries.
+  async processOfflineQueue(): Promise<OfflineSyncResult> {
+    const result: OfflineSyncResult = {
+      synced: [],
+      conflicts: [],
+      failed: [],
+      remaining: [],
+      idMap: {},
+    };
+
+    if (typeof window === "undefined") return result;
+
+    const queue = utils.getOfflineQueue();
+    // Server versions observed during this run, keyed by task ID
+    const knownVersions: Record<string, string> = {};
+    // Temp IDs whose create was dropped - actions on them can't succeed
+    const droppedIds = new Set<string>();
+
+    for (let i = 0; i < queue.length; i++) {
+      const action = remapQueuedAction(queue[i], result.idMap);
+      const targetId =
+        action.type === "create" ? action.payload.tempId : action.payload.id;
+
+      if (droppedIds.has(targetId)) {
+        result.failed.push(action);
+        continue;
+      }
+
+      const outcome = await replayQueuedAction(action, knownVersions);
+
+      if (outcome.status === "synced") {
+        if (action.type === "create" && outcome.task) {
+          result.idMap[action.payload.tempId] = outcome.task.id;
+        }
+        result.synced.push({ action, task: outcome.task });
+        continue;
+      }
+
+      if (outcome.status === "conflict") {
+        result.conflicts.push({
+          action,
+          serverTask: outcome.serverTask,
+          ...(outcome.error && { error: outcome.error }),
+          detectedAt: Date.now(),
+        });
+        continue;
+      }
 
-    const queue = JSON.parse(localStorage.getItem("offlineQueue") || "[]");
+      const retried: QueuedAction = {
+        ...action,
+        retryCount: action.retryCount + 1,
+      };
+
+      if (retried.retryCount >= retried.maxRetries) {
+        if (retried.type === "create") {
+          droppedIds.add(retried.payload.tempId);
+        }
+        result.failed.push(retried);
+        continue;
+      }
 
-    for (const action of queue) {
-      // Process each queued action
-      // Implementation depends on action type
-      console.log("Processing offline action:", action);
+      result.remaining = [
+        retried,
+        ...queue
+          .slice(i + 1)
+          .map((queuedAction) =>
+            remapQueuedAction(queuedAction, result.idMap, knownVersions)
+          ),
+      ];
+      break;
     }
 
-    localStorage.setItem("offlineQueue", "[]");
+    localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(result.remaining));
+
+    const syncState = utils.getSyncState();
+    utils.saveSyncState({
+      lastSyncTime:
+        result.remaining.length === 0 ? Date.now() : syncState.lastSyncTime,
+      conflicts: [...syncState.conflicts, ...result.conflicts],
+    });
+
+    return result;
   },
 };
 
+// Offline queue helpers
+interface OfflineSyncState {
+  lastSyncTime: number | null;
+  conflicts: SyncConflict[];
+}
+
+type ReplayOutcome =
+  | { status: "synced"; task?: Task }
+  | { status: "conflict"; serverTask: Task | null; error?: ApiError }
+  | { status: "error"; error?: ApiError };
+
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const item = localStorage.getItem(key);
+    return item ? (JSON.parse(item) as T) : fallback;
+  } catch (error) {
+    console.error(`Error reading localStorage key "${key}":`, error);
+    return fallback;
+  }
+}
+
+// Rewrite temp IDs to the server IDs assigned earlier in the run, and
+// optionally rebase on the versions this run already wrote
+function remapQueuedAction(
+  action: QueuedAction,
+  idMap: Record<string, string>,
+  knownVersions: Record<string, string> = {}
+): QueuedAction {
+  if (action.type === "create") return action;
+
+  const id = idMap[action.payload.id] || action.payload.id;
+  const baseUpdatedAt = knownVersions[id] ?? action.payload.baseUpdatedAt;
+  if (
+    id === action.payload.id &&
+    baseUpdatedAt === action.payload.baseUpdatedAt
+  ) {
+    return action;
+  }
+
+  return {
+    ...action,
+    payload: { ...action.payload, id, baseUpdatedAt },
+  } as QueuedAction;
+}
+
+async function replayQueuedAction(
+  action: QueuedAction,
+  knownVersions: Record<string, string>
+): Promise<ReplayOutcome> {
+  switch (action.type) {
+    case "create": {
+      const { input, restore } = action.payload;
+      const result = restore
+        ? await taskApi.restoreTask(restore)
+        : await taskApi.createTask(input);
+      if (!result.success || !result.data) {
+        return { status: "error", error: result.error };
+      }
+      knownVersions[result.data.id] = result.data.updatedAt;
+      return { status: "synced", task: result.data };
+    }
+    case "update": {
+      const { id, changes, baseUpdatedAt } = action.payload;
+      const result = await taskApi.updateTask(id, changes, {
+        expectedUpdatedAt: knownVersions[id] ?? baseUpdatedAt,
+      });
+      if (!result.success || !result.data) {
+        return toFailedReplay(result.error);
+      }
+      knownVersions[id] = result.data.updatedAt;
+      return { status: "synced", task: result.data };
+    }
+    case "delete": {
+      const { id, baseUpdatedAt } = action.payload;
+      const result = await taskApi.deleteTask(id, {
+        expectedUpdatedAt: knownVersions[id] ?? baseUpdatedAt,
+      });
+      // Deleting something that is already gone is not a conflict
+      if (!result.success && result.error?.status !== 404) {
+        return toFailedReplay(result.error);
+      }
+      delete knownVersions[id];
+      return { status: "synced" };
+    }
+  }
+}
+
+// A rejected precondition, a vanished task or a task we may no longer change
+// is a conflict, not a retry. Only a 404 means the task is gone: after a 403
+// it is still there, just not ours to change.
+function toFailedReplay(error?: ApiError): ReplayOutcome {
+  if (error?.status === 409) {
+    return { status: "conflict", serverTask: getConflictingTask(error) };
+  }
+  if (error?.status === 404) {
+    return { status: "conflict", serverTask: null };
+  }
+  if (error?.status === 403) {
+    return { status: "conflict", serverTask: null, error };
+  }
+  return { status: "error", error };
+}
+
 export default {
   task: taskApi,
+  board: boardApi,
+  sprint: sprintApi,
+  comment: commentApi,
+  activity: activityApi,
+  user: userApi,
   auth: authApi,
   utils,
 };
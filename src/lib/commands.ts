@@ -0,0 +1,139 @@
+/**
+ * Command palette helpers: fuzzy matching of command names, and keyboard
+ * shortcuts written as strings like "mod+shift+z" so they can be stored,
+ * compared and rebound.
+ */
+
+import { Command, FuzzyMatch, Shortcut } from "@/lib/types";
+
+const MODIFIERS = ["mod", "alt", "shift"];
+const KEY_NAMES: Record<string, string> = {
+  " ": "space",
+  escape: "esc",
+  arrowup: "up",
+  arrowdown: "down",
+  arrowleft: "left",
+  arrowright: "right",
+};
+
+const isMac = () =>
+  typeof navigator !== "undefined" &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+const isWordBoundary = (char: string) => /[\s\-_:/.]/.test(char);
+
+// Where `query` appears in order within `text`, e.g. "mvt" in "Move task".
+// Consecutive letters and letters starting a word score higher.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  // The letters together beat them scattered, best of all starting a word
+  const occurrences: number[] = [];
+  for (let at = haystack.indexOf(needle); at !== -1; ) {
+    occurrences.push(at);
+    at = haystack.indexOf(needle, at + 1);
+  }
+  if (occurrences.length > 0) {
+    const start =
+      occurrences.find((at) => at === 0 || isWordBoundary(haystack[at - 1])) ??
+      occurrences[0];
+    const wordStart = start === 0 || isWordBoundary(haystack[start - 1]);
+    return {
+      score: needle.length * 6 + (wordStart ? 2 : 0) - text.length * 0.01,
+      indices: Array.from({ length: needle.length }, (_, i) => start + i),
+    };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    if (previous !== undefined && index === previous + 1) score += 3;
+    if (index === 0 || isWordBoundary(haystack[index - 1])) score += 2;
+    score += 1 - Math.min(index - from, 10) * 0.1;
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  // Between equal matches the shorter name is the likelier one
+  return { score: score - text.length * 0.01, indices };
+}
+
+// Commands matching a query, best first, with the matched title letters.
+// Keywords can find a command but only the title is highlighted.
+export function rankCommands(
+  commands: Command[],
+  query: string
+): Array<{ command: Command; indices: number[] }> {
+  return commands
+    .flatMap((command) => {
+      const title = fuzzyMatch(query, command.title);
+      const keyword = (command.keywords || [])
+        .map((word) => fuzzyMatch(query, word))
+        .reduce<FuzzyMatch | null>(
+          (best, match) =>
+            match && (!best || match.score > best.score) ? match : best,
+          null
+        );
+
+      if (!title && !keyword) return [];
+      const score = Math.max(
+        title?.score ?? -Infinity,
+        (keyword?.score ?? -Infinity) - 1
+      );
+      return [{ command, indices: title?.indices ?? [], score }];
+    })
+    .sort((a, b) => b.score - a.score)
+    .map(({ command, indices }) => ({ command, indices }));
+}
+
+// The shortcut a key press stands for, or null for a lone modifier key.
+// Shift is only named for letters and named keys; for symbols it's part of
+// the character, so Shift+[ is "{".
+export function eventToShortcut(event: KeyboardEvent): Shortcut | null {
+  const key = event.key.toLowerCase();
+  if (["control", "meta", "alt", "shift"].includes(key)) return null;
+
+  const name = KEY_NAMES[key] ?? key;
+  const isSymbol = name.length === 1 && !/[a-z0-9]/.test(name);
+  const parts = [
+    (event.ctrlKey || event.metaKey) && "mod",
+    event.altKey && "alt",
+    event.shiftKey && !isSymbol && "shift",
+    name,
+  ].filter(Boolean);
+
+  return parts.join("+");
+}
+
+// How a shortcut reads on this platform, e.g. "Ctrl+Shift+Z" or "Cmd+Shift+Z"
+export function formatShortcut(shortcut: Shortcut): string {
+  return shortcut
+    .split("+")
+    .map((part) => {
+      if (part === "mod") return isMac() ? "Cmd" : "Ctrl";
+      if (MODIFIERS.includes(part) || part.length > 1) {
+        return part.charAt(0).toUpperCase() + part.slice(1);
+      }
+      return part.toUpperCase();
+    })
+    .join("+");
+}
+
+// A command's binding once the user's changes are applied
+export function getShortcut(
+  command: Command,
+  overrides: Record<string, Shortcut | null>
+): Shortcut | null {
+  return Object.prototype.hasOwnProperty.call(overrides, command.id)
+    ? overrides[command.id]
+    : command.shortcut ?? null;
+}
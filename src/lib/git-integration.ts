@@ -1,6 +1,7 @@
 "use client";
 
-import { Task } from "@/lib/types";
+import { Task, WorkflowColumn } from "@/lib/types";
+import { DEFAULT_COLUMNS, isDoneStatus } from "@/lib/utils";
 
 export class GitIntegrationService {
   private static instance: GitIntegrationService;
@@ -13,11 +14,18 @@ export class GitIntegrationService {
   }
 
   // Check recent commits and auto-complete tasks
-  async checkForTaskCompletions(tasks: Task[]): Promise<string[]> {
+  async checkForTaskCompletions(
+    tasks: Task[],
+    columns: WorkflowColumn[] = DEFAULT_COLUMNS
+  ): Promise<string[]> {
     const completedTaskIds: string[] = [];
 
     for (const task of tasks) {
-      if (task.status === "done" || !task.scheduling?.gitIntegration) continue;
+      if (
+        isDoneStatus(task.status, columns) ||
+        !task.scheduling?.gitIntegration
+      )
+        continue;
 
       const {
         repositoryUrl,
@@ -0,0 +1,710 @@
+/**
+ * Board search queries, e.g.
+ *   priority:high status:in-progress type:debugging due<2026-11-01
+ *   -label:blocked "exact phrase" (assignee:me OR assignee:none)
+ *
+ * Terms are ANDed together; OR, brackets and a leading - (or NOT) combine
+ * them further. Parsing resolves names to ids against the board, so the
+ * resulting tree can be matched against tasks with `matchesQuery`.
+ */
+
+import {
+  DeveloperTaskType,
+  ParsedQuery,
+  QueryContext,
+  QueryDateField,
+  QueryNode,
+  QueryOperator,
+  QuerySuggestion,
+  QueryValueField,
+  TaskPriority,
+} from "@/lib/types";
+import { getMentionHandle, isDoneStatus, toDateKey } from "@/lib/utils";
+
+const PRIORITIES: TaskPriority[] = ["low", "medium", "high"];
+
+const TASK_TYPES: DeveloperTaskType[] = [
+  "coding",
+  "debugging",
+  "research",
+  "documentation",
+  "testing",
+  "review",
+  "meeting",
+  "planning",
+];
+
+type QueryField = QueryValueField | QueryDateField | "is";
+
+const FIELD_DESCRIPTIONS: Record<QueryField, string> = {
+  priority: "low, medium or high",
+  status: "a column, e.g. status:in-progress",
+  type: "kind of work, e.g. type:debugging",
+  label: "a label, or none",
+  assignee: "a member, me or none",
+  sprint: "a sprint, active or none",
+  due: "deadline, e.g. due<2026-11-01",
+  created: "creation date, e.g. created>-7d",
+  updated: "last change, e.g. updated:today",
+  is: "done or open",
+};
+
+const FIELDS = Object.keys(FIELD_DESCRIPTIONS) as QueryField[];
+const DATE_FIELDS: QueryDateField[] = ["due", "created", "updated"];
+// Fields whose values have an order, so < and > make sense
+const ORDERED_FIELDS: QueryField[] = ["priority", "status", ...DATE_FIELDS];
+
+const TERM = /^([a-z]+)(<=|>=|:|<|>)(.*)$/i;
+const MAX_SUGGESTIONS = 8;
+
+interface Token {
+  kind: "word" | "open" | "close";
+  text: string;
+  start: number;
+  end: number;
+}
+
+const normalize = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, "-");
+
+const unquote = (value: string) =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value;
+
+const quoteIfNeeded = (value: string) =>
+  /[\s,()"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+
+// Split a field value on commas that aren't inside quotes
+function splitValues(raw: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (const char of raw) {
+    if (char === '"') quoted = !quoted;
+    if (char === "," && !quoted) {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values.map(unquote);
+}
+
+// Single-character edits between two words, for typo tolerance
+export function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+// The option a typo was most likely meant to be, if any is close
+function closest(value: string, options: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = 3;
+  options.forEach((option) => {
+    const distance = editDistance(value.toLowerCase(), option.toLowerCase());
+    if (distance < bestDistance) {
+      best = option;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+const didYouMean = (value: string, options: string[]) => {
+  const suggestion = closest(value, options);
+  return suggestion ? ` - did you mean ${suggestion}?` : "";
+};
+
+// today, tomorrow, yesterday, 7d / -2w from today, or YYYY-MM-DD
+function resolveDate(value: string, now: Date): string | null {
+  const lower = value.toLowerCase();
+  const named = ["yesterday", "today", "tomorrow"].indexOf(lower);
+  const relative = lower.match(/^([+-]?)(\d+)([dw])$/);
+
+  if (named !== -1 || relative) {
+    const days = relative
+      ? (relative[1] === "-" ? -1 : 1) *
+        Number(relative[2]) *
+        (relative[3] === "w" ? 7 : 1)
+      : named - 1;
+    const date = new Date(now);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split("-").map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() === month - 1 && date.getDate() === day) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function compare(a: number, b: number, operator: QueryOperator): boolean {
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    default:
+      return a === b;
+  }
+}
+
+class QueryParser {
+  private tokens: Token[] = [];
+  private index = 0;
+  private depth = 0; // brackets open at the current token
+  private errorAt = { start: 0, end: 0 };
+
+  constructor(private text: string, private context: QueryContext) {}
+
+  parse(): ParsedQuery {
+    try {
+      this.tokens = this.tokenize();
+      if (this.tokens.length === 0) return { query: null, error: null };
+
+      const query = this.parseOr();
+      const stray = this.peek();
+      if (stray) this.fail("Unmatched closing bracket", stray);
+      return { query, error: null };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Invalid search query";
+      return { query: null, error: { message, ...this.errorAt } };
+    }
+  }
+
+  private fail(message: string, at: { start: number; end: number }): never {
+    this.errorAt = { start: at.start, end: at.end };
+    throw new Error(message);
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const { text } = this;
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+      if (char === "(" || char === ")") {
+        tokens.push({
+          kind: char === "(" ? "open" : "close",
+          text: char,
+          start: i,
+          end: i + 1,
+        });
+        i++;
+        continue;
+      }
+
+      // A word runs to the next space or bracket, quotes included
+      const start = i;
+      while (i < text.length && !/[\s()]/.test(text[i])) {
+        if (text[i] === '"') {
+          const close = text.indexOf('"', i + 1);
+          if (close === -1) {
+            this.fail("Missing closing quote", { start: i, end: text.length });
+          }
+          i = close + 1;
+        } else {
+          i++;
+        }
+      }
+      tokens.push({ kind: "word", text: text.slice(start, i), start, end: i });
+    }
+
+    return tokens;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private isWord(token: Token | undefined, word: string) {
+    return token?.kind === "word" && token.text === word;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.isWord(this.peek(), "OR")) {
+      const or = this.tokens[this.index++];
+      const next = this.peek();
+      if (!next || next.kind === "close" || this.isWord(next, "OR")) {
+        this.fail("OR needs a search term on both sides", or);
+      }
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children: QueryNode[] = [];
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.kind === "close" || this.isWord(token, "OR")) break;
+      if (this.isWord(token, "AND")) {
+        this.index++;
+        continue;
+      }
+      children.push(this.parseUnary());
+    }
+
+    if (children.length === 0) {
+      const token = this.peek() ?? this.tokens[this.tokens.length - 1];
+      this.fail(
+        this.isWord(token, "OR")
+          ? "OR needs a search term on both sides"
+          : this.depth === 0
+          ? "Unmatched closing bracket"
+          : "Empty brackets",
+        token
+      );
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.tokens[this.index++];
+
+    if (token.kind === "open") {
+      if (!this.peek()) this.fail("Missing closing bracket", token);
+      this.depth++;
+      const inner = this.parseOr();
+      if (this.peek()?.kind !== "close") {
+        this.fail("Missing closing bracket", token);
+      }
+      this.depth--;
+      this.index++;
+      return inner;
+    }
+
+    if (token.kind === "close") {
+      this.fail("Unmatched closing bracket", token);
+    }
+
+    if (token.text === "-" || token.text === "NOT") {
+      const next = this.peek();
+      if (!next || next.kind === "close" || this.isWord(next, "OR")) {
+        this.fail(`Nothing to exclude after ${token.text}`, token);
+      }
+      return { type: "not", child: this.parseUnary() };
+    }
+
+    if (token.text.startsWith("-")) {
+      return {
+        type: "not",
+        child: this.parseTerm(token.text.slice(1), {
+          ...token,
+          start: token.start + 1,
+        }),
+      };
+    }
+
+    return this.parseTerm(token.text, token);
+  }
+
+  private parseTerm(text: string, at: Token): QueryNode {
+    const term = text.match(TERM);
+    if (term && !text.startsWith('"')) {
+      return this.parseField(
+        term[1].toLowerCase(),
+        term[2] as QueryOperator,
+        term[3],
+        at
+      );
+    }
+
+    if (text.startsWith('"')) {
+      const phrase = unquote(text);
+      if (phrase === text) {
+        this.fail("Quotes must wrap the whole phrase", at);
+      }
+      if (!phrase.trim()) this.fail("Empty phrase", at);
+      return { type: "text", text: phrase, phrase: true };
+    }
+
+    if (text.includes('"')) {
+      this.fail("Quotes must wrap the whole phrase", at);
+    }
+    return { type: "text", text, phrase: false };
+  }
+
+  private parseField(
+    name: string,
+    operator: QueryOperator,
+    raw: string,
+    at: Token
+  ): QueryNode {
+    if (!FIELDS.includes(name as QueryField)) {
+      const suggestion =
+        FIELDS.find((field) => field.startsWith(name)) ?? closest(name, FIELDS);
+      this.fail(
+        suggestion
+          ? `Unknown field "${name}" - did you mean ${suggestion}?`
+          : `Unknown field "${name}" - put the text in quotes to search for it`,
+        at
+      );
+    }
+    const field = name as QueryField;
+
+    if (operator !== ":" && !ORDERED_FIELDS.includes(field)) {
+      this.fail(`${field} only supports ${field}:value`, at);
+    }
+
+    const values = splitValues(raw);
+    if (values.some((value) => !value.trim())) {
+      this.fail(`Missing value after ${field}${operator}`, at);
+    }
+    if (values.length > 1 && operator !== ":") {
+      this.fail(`Only ${field}: takes a list of values`, at);
+    }
+    if (values.length > 1 && values.some((v) => v.toLowerCase() === "none")) {
+      this.fail(`${field}:none can't be combined with other values`, at);
+    }
+
+    if ((DATE_FIELDS as string[]).includes(field)) {
+      return this.parseDate(field as QueryDateField, operator, values[0], at);
+    }
+
+    if (field === "is") {
+      return this.parseIs(values, at);
+    }
+
+    const resolved = values.flatMap((value) =>
+      this.resolveValue(field as QueryValueField, operator, value, at)
+    );
+    return {
+      type: "field",
+      field: field as QueryValueField,
+      values: Array.from(new Set(resolved)),
+    };
+  }
+
+  private parseDate(
+    field: QueryDateField,
+    operator: QueryOperator,
+    value: string,
+    at: Token
+  ): QueryNode {
+    if (value.toLowerCase() === "none") {
+      if (operator !== ":") {
+        this.fail(`${field}:none can't be compared`, at);
+      }
+      return { type: "date", field, operator, date: null };
+    }
+
+    const date = resolveDate(value, this.context.now ?? new Date());
+    if (!date) {
+      this.fail(
+        `"${value}" isn't a date - use YYYY-MM-DD, today, tomorrow or 7d`,
+        at
+      );
+    }
+    return { type: "date", field, operator, date };
+  }
+
+  // is:done and is:open are shorthands for the board's done columns
+  private parseIs(values: string[], at: Token): QueryNode {
+    const { columns } = this.context;
+    const statuses = values.flatMap((value) => {
+      const lower = value.toLowerCase();
+      if (lower !== "done" && lower !== "open") {
+        this.fail(`Unknown is:${value} - use is:done or is:open`, at);
+      }
+      return columns
+        .filter(
+          (column) => isDoneStatus(column.id, columns) === (lower === "done")
+        )
+        .map((column) => column.id);
+    });
+    return {
+      type: "field",
+      field: "status",
+      values: Array.from(new Set(statuses)),
+    };
+  }
+
+  private resolveValue(
+    field: QueryValueField,
+    operator: QueryOperator,
+    value: string,
+    at: Token
+  ): string[] {
+    const { columns, labels, members, sprints, currentUserId } = this.context;
+    const lower = value.toLowerCase();
+
+    switch (field) {
+      case "priority": {
+        const index = PRIORITIES.indexOf(lower as TaskPriority);
+        if (index === -1) {
+          this.fail(
+            `Unknown priority "${value}" - use low, medium or high`,
+            at
+          );
+        }
+        return PRIORITIES.filter((_, i) => compare(i, index, operator));
+      }
+
+      case "status": {
+        const index = columns.findIndex(
+          (column) =>
+            column.id.toLowerCase() === lower ||
+            normalize(column.name) === normalize(value)
+        );
+        if (index === -1) {
+          this.fail(
+            `Unknown status "${value}"${didYouMean(
+              value,
+              columns.map((column) => column.id)
+            )}`,
+            at
+          );
+        }
+        return columns
+          .filter((_, i) => compare(i, index, operator))
+          .map((column) => column.id);
+      }
+
+      case "type":
+        if (!TASK_TYPES.includes(lower as DeveloperTaskType)) {
+          this.fail(
+            `Unknown type "${value}"${didYouMean(value, TASK_TYPES)}`,
+            at
+          );
+        }
+        return [lower];
+
+      case "label": {
+        const label = labels.find(
+          (entry) => entry.id === value || entry.name.toLowerCase() === lower
+        );
+        if (label) return [label.id];
+        if (lower === "none") return [];
+        return this.fail(
+          `No label called "${value}"${didYouMean(
+            value,
+            labels.map((entry) => quoteIfNeeded(entry.name))
+          )}`,
+          at
+        );
+      }
+
+      case "assignee": {
+        if (lower === "none") return [];
+        if (lower === "me") {
+          if (!currentUserId) this.fail("assignee:me needs you signed in", at);
+          return [currentUserId];
+        }
+        const handle = lower.replace(/^@/, "");
+        const member = members.find(
+          (user) =>
+            user.id === value ||
+            getMentionHandle(user) === handle ||
+            user.fullName.toLowerCase() === lower
+        );
+        if (!member) {
+          this.fail(
+            `No board member called "${value}"${didYouMean(
+              handle,
+              members.map(getMentionHandle)
+            )}`,
+            at
+          );
+        }
+        return [member.id];
+      }
+
+      case "sprint": {
+        if (lower === "none" || lower === "backlog") return [];
+        if (lower === "active" || lower === "current") {
+          const active = sprints.filter((sprint) => sprint.state === "active");
+          if (active.length === 0) this.fail("No sprint is active", at);
+          return active.map((sprint) => sprint.id);
+        }
+        const sprint = sprints.find(
+          (entry) => entry.id === value || entry.name.toLowerCase() === lower
+        );
+        if (!sprint) {
+          this.fail(
+            `No sprint called "${value}"${didYouMean(
+              value,
+              sprints.map((entry) => quoteIfNeeded(entry.name))
+            )}`,
+            at
+          );
+        }
+        return [sprint.id];
+      }
+    }
+  }
+}
+
+// Parse a board search. Bad syntax comes back as an error with the offending
+// part of the text, never as an exception.
+export function parseQuery(text: string, context: QueryContext): ParsedQuery {
+  return new QueryParser(text, context).parse();
+}
+
+// The free-text terms of a query, and whether each one is negated
+export function getQueryTexts(
+  query: QueryNode | null,
+  negated = false
+): Array<{ text: string; phrase: boolean; negated: boolean }> {
+  if (!query) return [];
+  switch (query.type) {
+    case "and":
+    case "or":
+      return query.children.flatMap((child) => getQueryTexts(child, negated));
+    case "not":
+      return getQueryTexts(query.child, !negated);
+    case "text":
+      return [{ text: query.text, phrase: query.phrase, negated }];
+    default:
+      return [];
+  }
+}
+
+// Values worth offering after `field:`
+function getValueOptions(
+  field: QueryField,
+  { columns, labels, members, sprints }: QueryContext
+): Array<{ value: string; description?: string }> {
+  switch (field) {
+    case "priority":
+      return PRIORITIES.map((value) => ({ value }));
+    case "status":
+      return columns.map((column) => ({
+        value: column.id,
+        description: column.name,
+      }));
+    case "type":
+      return TASK_TYPES.map((value) => ({ value }));
+    case "label":
+      return [
+        ...labels.map((label) => ({ value: label.name })),
+        { value: "none", description: "No labels" },
+      ];
+    case "assignee":
+      return [
+        { value: "me", description: "Assigned to you" },
+        ...members.map((user) => ({
+          value: getMentionHandle(user),
+          description: user.fullName,
+        })),
+        { value: "none", description: "Unassigned" },
+      ];
+    case "sprint":
+      return [
+        { value: "active", description: "The running sprint" },
+        ...sprints.map((sprint) => ({ value: sprint.name })),
+        { value: "none", description: "In the backlog" },
+      ];
+    case "is":
+      return [
+        { value: "done", description: "In a done column" },
+        { value: "open", description: "Not done yet" },
+      ];
+    default:
+      return [
+        { value: "today" },
+        { value: "tomorrow" },
+        { value: "7d", description: "A week from today" },
+        { value: "-7d", description: "A week ago" },
+        ...(field === "due"
+          ? [{ value: "none", description: "No deadline" }]
+          : []),
+      ];
+  }
+}
+
+// Completions for the word at the cursor: field names, then their values
+export function getQuerySuggestions(
+  text: string,
+  cursor: number,
+  context: QueryContext
+): QuerySuggestion[] {
+  let start = cursor;
+  while (start > 0 && !/[\s()]/.test(text[start - 1])) start--;
+  let end = cursor;
+  while (end < text.length && !/[\s()]/.test(text[end])) end++;
+
+  // Nothing to complete inside a quoted phrase
+  if ((text.slice(0, start).match(/"/g) || []).length % 2 === 1) return [];
+
+  const word = text.slice(start, cursor);
+  const prefix = word.startsWith("-") ? "-" : "";
+  const body = word.slice(prefix.length);
+  const term = body.match(TERM);
+
+  if (!term) {
+    if (body.startsWith('"')) return [];
+    return FIELDS.filter(
+      (field) => field.startsWith(body.toLowerCase()) && field !== body
+    )
+      .map((field) => ({
+        value: `${prefix}${field}:`,
+        description: FIELD_DESCRIPTIONS[field],
+        start,
+        end,
+      }))
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  const field = term[1].toLowerCase() as QueryField;
+  if (!FIELDS.includes(field)) return [];
+
+  // Complete the last value of a comma-separated list
+  const values = term[3].split(",");
+  const partial = unquote(values.pop() || "").replace(/^"/, "");
+  const head = `${prefix}${field}${term[2]}${values
+    .map((value) => `${value},`)
+    .join("")}`;
+
+  return getValueOptions(field, context)
+    .filter(
+      ({ value }) =>
+        value.toLowerCase().startsWith(partial.toLowerCase()) &&
+        value.toLowerCase() !== partial.toLowerCase()
+    )
+    .map(({ value, description }) => ({
+      value: `${head}${quoteIfNeeded(value)}`,
+      description,
+      start,
+      end,
+    }))
+    .slice(0, MAX_SUGGESTIONS);
+}
@@ -0,0 +1,236 @@
+/**
+ * In-browser full-text search over a board's tasks.
+ *
+ * An inverted index maps each word to the tasks containing it, weighted by
+ * the field it appears in, so a search only touches the words it asks for.
+ * Tasks are added and replaced one at a time as they change. Query words
+ * also match longer words they begin and, once long enough, words a typo
+ * or two away; exact matches score highest. A phrase matches only its exact
+ * words, next to each other and in order within one field.
+ */
+
+import {
+  Comment,
+  Label,
+  SearchDocument,
+  SearchField,
+  SearchOptions,
+  SearchResult,
+  Task,
+} from "@/lib/types";
+import { editDistance } from "@/lib/query";
+
+// A word in the title counts for more than one in a comment
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  labels: 2,
+  description: 1,
+  enhancedDescription: 1,
+  comments: 0.5,
+};
+
+const PREFIX_MATCH = 0.75;
+const TYPO_MATCH = 0.5;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+interface Match {
+  score: number;
+  terms: Set<string>;
+}
+
+// Lowercased words of a piece of text, in order
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) || [];
+}
+
+// Typos allowed in a query word: none while short, then one, then two
+const allowedTypos = (word: string) =>
+  word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+
+export class SearchIndex {
+  // word -> task id -> weight of the word in that task
+  private postings = new Map<string, Map<string, number>>();
+  // task id -> the distinct words indexed for it, to remove them again
+  private documents = new Map<string, string[]>();
+  // task id -> the words of each field in order, to find phrases
+  private sequences = new Map<string, string[][]>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  // Add a task, or replace what was indexed for it
+  set(id: string, document: SearchDocument): void {
+    this.remove(id);
+
+    const weights = new Map<string, number>();
+    const sequences: string[][] = [];
+    (Object.keys(document) as SearchField[]).forEach((field) => {
+      const words = tokenize(document[field] || "");
+      words.forEach((word) => {
+        weights.set(word, (weights.get(word) || 0) + FIELD_WEIGHTS[field]);
+      });
+      sequences.push(words);
+    });
+
+    weights.forEach((weight, word) => {
+      const postings = this.postings.get(word) || new Map<string, number>();
+      postings.set(id, weight);
+      this.postings.set(word, postings);
+    });
+    this.documents.set(id, Array.from(weights.keys()));
+    this.sequences.set(id, sequences);
+  }
+
+  remove(id: string): void {
+    const words = this.documents.get(id);
+    if (!words) return;
+
+    words.forEach((word) => {
+      const postings = this.postings.get(word);
+      postings?.delete(id);
+      if (postings?.size === 0) this.postings.delete(word);
+    });
+    this.documents.delete(id);
+    this.sequences.delete(id);
+  }
+
+  // Tasks containing every word of `text`, best first
+  search(text: string, options: SearchOptions = {}): SearchResult[] {
+    const words = Array.from(new Set(tokenize(text)));
+    let results: Map<string, Match> | null = null;
+
+    for (const word of words) {
+      const matches = this.match(word, !!options.phrase);
+      if (results) {
+        // Only tasks that matched the earlier words stay in
+        const earlier = results;
+        matches.forEach((match, id) => {
+          const previous = earlier.get(id);
+          if (!previous) {
+            matches.delete(id);
+            return;
+          }
+          match.score += previous.score;
+          previous.terms.forEach((term) => match.terms.add(term));
+        });
+      }
+      results = matches;
+      if (results.size === 0) break;
+    }
+
+    const phrase = options.phrase ? tokenize(text) : null;
+    const ranked = Array.from(results || [], ([id, match]) => ({
+      id,
+      score: match.score,
+      terms: Array.from(match.terms),
+    }))
+      .filter(({ id }) => !phrase || this.containsPhrase(id, phrase))
+      .sort((a, b) => b.score - a.score);
+
+    return options.limit ? ranked.slice(0, options.limit) : ranked;
+  }
+
+  // Whether one of the task's fields has `phrase` word for word
+  private containsPhrase(id: string, phrase: string[]): boolean {
+    return (this.sequences.get(id) || []).some((words) =>
+      words.some((_, start) =>
+        phrase.every((word, offset) => words[start + offset] === word)
+      )
+    );
+  }
+
+  // Tasks matching one query word, scored
+  private match(word: string, exact: boolean): Map<string, Match> {
+    const matches = new Map<string, Match>();
+    const terms = this.expand(word, exact);
+
+    terms.forEach(({ term, quality }) => {
+      this.postings.get(term)!.forEach((weight, id) => {
+        const match = matches.get(id) || { score: 0, terms: new Set() };
+        match.score += quality * Math.sqrt(weight);
+        match.terms.add(term);
+        matches.set(id, match);
+      });
+    });
+
+    // Rare words tell tasks apart better than common ones. Rarity is the
+    // query word's, so a rare longer word never outranks an exact match.
+    const rarity = Math.log(1 + this.documents.size / (matches.size || 1));
+    matches.forEach((match) => {
+      match.score *= rarity;
+    });
+    return matches;
+  }
+
+  // Indexed words a query word stands for, and how good a match each is
+  private expand(
+    word: string,
+    exact: boolean
+  ): Array<{ term: string; quality: number }> {
+    if (exact) {
+      return this.postings.has(word) ? [{ term: word, quality: 1 }] : [];
+    }
+
+    const typos = allowedTypos(word);
+    const terms: Array<{ term: string; quality: number }> = [];
+
+    this.postings.forEach((_, term) => {
+      if (term === word) {
+        terms.push({ term, quality: 1 });
+      } else if (word.length >= 2 && term.startsWith(word)) {
+        terms.push({ term, quality: PREFIX_MATCH });
+      } else if (
+        typos > 0 &&
+        Math.abs(term.length - word.length) <= typos &&
+        editDistance(word, term) <= typos
+      ) {
+        terms.push({ term, quality: TYPO_MATCH });
+      }
+    });
+    return terms;
+  }
+}
+
+// What gets indexed for a task, given its own comments
+export function toSearchDocument(
+  task: Task,
+  comments: Comment[],
+  labels: Label[]
+): SearchDocument {
+  const labelIds = task.labelIds || [];
+  return {
+    title: task.title,
+    description: task.description,
+    enhancedDescription: task.aiData?.enhancedDescription,
+    labels: labels
+      .filter((label) => labelIds.includes(label.id))
+      .map((label) => label.name)
+      .join(" "),
+    comments: comments
+      .filter((comment) => !comment.deletedAt)
+      .map((comment) => comment.body)
+      .join("\n"),
+  };
+}
+
+// [start, end) offsets of the words in `text` that are among `terms`
+export function getHighlightRanges(
+  text: string,
+  terms: string[]
+): Array<[number, number]> {
+  if (terms.length === 0) return [];
+
+  const ranges: Array<[number, number]> = [];
+  for (const match of text.matchAll(WORD)) {
+    if (terms.includes(match[0].toLowerCase())) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return ranges;
+}
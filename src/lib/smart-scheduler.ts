@@ -6,19 +6,28 @@ import {
   ScheduleSlot,
   EnergyLevel,
   DeveloperTaskType,
+  WorkflowColumn,
 } from "@/lib/types";
+import { DEFAULT_COLUMNS, isDoneStatus } from "@/lib/utils";
 
 export class SmartScheduler {
   private developerProfile: DeveloperProfile;
+  private columns: WorkflowColumn[];
 
-  constructor(profile: DeveloperProfile) {
+  constructor(
+    profile: DeveloperProfile,
+    columns: WorkflowColumn[] = DEFAULT_COLUMNS
+  ) {
     this.developerProfile = profile;
+    this.columns = columns;
   }
 
   // Main scheduling function
   scheduleTasks(tasks: Task[]): ScheduleSlot[] {
     const unscheduledTasks = tasks.filter(
-      (task) => task.status !== "done" && !task.scheduling?.scheduledFor
+      (task) =>
+        !isDoneStatus(task.status, this.columns) &&
+        !task.scheduling?.scheduledFor
     );
 
     const sortedTasks = this.prioritizeTasks(unscheduledTasks);
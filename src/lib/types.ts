@@ -1,11 +1,19 @@
 // Task related types
 export interface Task {
   id: string;
-  userId: string;
+  userId: string; // who created the task
+  boardId?: string; // tasks from before shared boards have none
+  sprintId?: string | null; // the sprint it is planned into; backlog when unset
+  parentId?: string | null; // the task this is a subtask of, on the same board
+  assigneeIds?: string[]; // who is doing the work
+  labelIds?: string[]; // labels from the task's board
   title: string;
   description: string;
   status: TaskStatus;
   priority: TaskPriority;
+  rank?: number; // position within its column; creation time until reordered
+  statusHistory?: StatusChange[]; // oldest first, kept by the server
+  checklist?: ChecklistItem[];
   createdAt: string;
   updatedAt: string;
   // AI Enhancement fields (optional - won't break existing functionality)
@@ -49,13 +57,31 @@ export type DeveloperTaskType =
   | "planning";
 export type ComplexityLevel = "simple" | "moderate" | "complex";
 
-export type TaskStatus = "todo" | "in-progress" | "done";
+// A column id on the task's board - "todo", "in-progress" and "done" unless
+// the board defines its own workflow
+export type TaskStatus = string;
 export type TaskPriority = "low" | "medium" | "high";
 
+// One entry per column a task has entered, starting with the one it was
+// created in. The server only ever appends to this log.
+export interface StatusChange {
+  status: TaskStatus;
+  at: string;
+  from?: TaskStatus | null; // null for the entry that created the task
+  by?: string; // user who made the move
+}
+
 export interface CreateTaskInput {
   title: string;
   description: string;
   priority: TaskPriority;
+  status?: TaskStatus; // defaults to "todo"
+  boardId?: string;
+  sprintId?: string | null;
+  parentId?: string | null;
+  assigneeIds?: string[];
+  labelIds?: string[];
+  checklist?: ChecklistItem[];
 }
 
 export interface UpdateTaskInput {
@@ -63,7 +89,27 @@ export interface UpdateTaskInput {
   description?: string;
   status?: TaskStatus;
   priority?: TaskPriority;
+  rank?: number;
+  sprintId?: string | null;
+  parentId?: string | null;
+  assigneeIds?: string[];
+  labelIds?: string[];
+  checklist?: ChecklistItem[];
   scheduling?: Partial<Task["scheduling"]>;
+  aiData?: Task["aiData"];
+}
+
+// A lightweight to-do inside a task, too small to be a subtask
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+// Subtasks and checklist items done out of all of them
+export interface TaskProgress {
+  completed: number;
+  total: number;
 }
 
 // Smart Scheduler types
@@ -106,12 +152,36 @@ export interface OptimisticUpdate<T = Task> {
   rollbackFn?: () => void;
 }
 
-export interface UndoableAction {
+// Concurrent edit types
+export type TaskField = keyof UpdateTaskInput;
+
+export interface TaskConflict {
   taskId: string;
-  previousState: Task;
-  newState: Task;
+  base: Task; // what the local edit was made against
+  local: UpdateTaskInput; // the local edit
+  remote: Task; // the server's current copy
+  conflictingFields: TaskField[];
+  mergedChanges: UpdateTaskInput; // local changes that merge cleanly
+}
+
+export type ConflictResolution = Partial<Record<TaskField, "local" | "remote">>;
+
+// Undo/redo history types
+export type HistoryActionType =
+  | "create"
+  | "update"
+  | "delete"
+  | "move"
+  | "reorder"
+  | "batch";
+
+export interface UndoableAction {
+  id: string;
+  type: HistoryActionType;
+  description: string; // shown to the user, e.g. 'Moved "Fix login" to done'
+  // before is null for creates, after is null for deletes
+  changes: Array<{ before: Task | null; after: Task | null }>;
   timestamp: number;
-  expiresAt: number;
 }
 
 // API types
@@ -124,9 +194,29 @@ export interface ApiResponse<T> {
 export interface ApiError {
   message: string;
   code?: string;
+  status?: number;
   details?: Record<string, any>;
 }
 
+// One write in a batch; the server applies a batch all together or not at all
+export type BatchOperation =
+  | { type: "create"; data: CreateTaskInput }
+  | {
+      type: "update";
+      id: string;
+      changes: UpdateTaskInput;
+      expectedUpdatedAt?: string; // reject (409) if the task changed since
+    }
+  | { type: "delete"; id: string; expectedUpdatedAt?: string };
+
+// One item's outcome in a batch write
+export interface BatchItemResult {
+  id: string;
+  success: boolean;
+  data?: Task; // the saved task; deletes have none
+  error?: ApiError;
+}
+
 export interface PaginatedResponse<T> {
   items: T[];
   total: number;
@@ -165,7 +255,9 @@ export interface RegisterCredentials {
 
 export interface AuthResponse {
   user: User;
-  token: string;
+  token: string; // short-lived access token (JWT)
+  refreshToken: string; // single use, rotated on every refresh
+  expiresAt: string; // when the access token expires
 }
 
 // UI State types
@@ -192,7 +284,281 @@ export interface FilterState {
   statusFilter: TaskStatus | "all";
 }
 
+export type TaskSortKey =
+  | "priority"
+  | "createdAt"
+  | "updatedAt"
+  | "title"
+  | "manual"
+  | "relevance"; // best search match first
+
+// The board page's sidebar panels
+export type PanelType =
+  | "scheduler"
+  | "productivity"
+  | "velocity"
+  | "activity"
+  | "review"
+  | "testing"
+  | "refactor"
+  | "dependencies"
+  | "insights"
+  | "settings";
+
+// The board shows the active sprint, every task, or the planning backlog
+export type BoardView = "sprint" | "all" | "backlog";
+
+// Everything that decides what the board page shows, as saved or linked
+export interface BoardViewState {
+  searchQuery: string;
+  priorityFilter: TaskPriority | "all";
+  assigneeFilter: "all" | "me";
+  labelFilter: string[];
+  labelMatch: "any" | "all";
+  boardView: BoardView;
+  sortBy: TaskSortKey;
+  sortOrder: "asc" | "desc";
+  activePanel: PanelType;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  boardId: string;
+  state: BoardViewState;
+  createdAt: string;
+}
+
 // Board types
+export type BoardRole = "owner" | "editor" | "viewer";
+
+export interface BoardMember {
+  userId: string;
+  role: BoardRole;
+}
+
+export type ColumnColor =
+  | "gray"
+  | "blue"
+  | "yellow"
+  | "orange"
+  | "red"
+  | "purple"
+  | "teal"
+  | "green";
+
+// A board's own tag for grouping tasks across columns
+export interface Label {
+  id: string;
+  name: string;
+  color: ColumnColor;
+}
+
+// What happens when a move would take a column over its WIP limit
+export type WipLimitMode = "block" | "warn";
+
+// One step of a board's workflow; its id is the status of the tasks in it
+export interface WorkflowColumn {
+  id: TaskStatus;
+  name: string;
+  color: ColumnColor;
+  order: number;
+  countsAsDone: boolean; // tasks here count as completed in analytics
+  countsAsStarted?: boolean; // cycle time starts when a task gets here
+  wipLimit?: number; // max tasks in the column; no limit when unset
+  wipLimitMode?: WipLimitMode; // defaults to "warn"
+}
+
+// A column a set of moves would push over its WIP limit
+export interface WipLimitViolation {
+  column: WorkflowColumn;
+  count: number; // tasks in the column after the moves
+  limit: number;
+}
+
+// Where a reordered task lands: a column, between two of its tasks
+export interface TaskPlacement {
+  status: TaskStatus;
+  previousId: string | null; // the task just above, null for the top
+  nextId: string | null; // the task just below, null for the bottom
+}
+
+export interface MoveOptions {
+  overrideWipLimit?: boolean; // go ahead past "warn" limits ("block" still applies)
+}
+
+export interface BatchUpdateOptions extends MoveOptions {
+  description?: string; // for the undo history, e.g. 'Moved 3 tasks to done'
+}
+
+// A shared board - every member sees the same tasks
+export interface Board {
+  id: string;
+  name: string;
+  members: BoardMember[];
+  columns?: WorkflowColumn[]; // the default three columns when missing
+  labels?: Label[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateBoardInput {
+  name: string;
+  members?: BoardMember[]; // the creator is always added as owner
+  columns?: WorkflowColumn[];
+  labels?: Label[];
+}
+
+export interface UpdateBoardInput {
+  name?: string;
+  members?: BoardMember[];
+  columns?: WorkflowColumn[];
+  labels?: Label[]; // editors may change these too
+}
+
+// Sprint types
+export type SprintState = "planned" | "active" | "completed";
+
+// What a sprint delivered against what it took on, frozen at close-out
+export interface SprintSnapshot {
+  completedAt: string;
+  committedTaskIds: string[]; // in the sprint when it started
+  completedTaskIds: string[]; // done when it closed, including added scope
+  rolledOverTaskIds: string[]; // unfinished, moved on to `rolledOverTo`
+  rolledOverTo: string | null; // next sprint id, or null for the backlog
+}
+
+export interface Sprint {
+  id: string;
+  boardId: string;
+  name: string;
+  goal?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  state: SprintState;
+  committedTaskIds: string[]; // set when the sprint starts
+  snapshot?: SprintSnapshot; // set when the sprint completes
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSprintInput {
+  boardId: string;
+  name: string;
+  goal?: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface UpdateSprintInput {
+  name?: string;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+  state?: SprintState;
+  committedTaskIds?: string[];
+  snapshot?: SprintSnapshot;
+}
+
+// Task activity log, recorded by the server for every task write
+export type ActivityAction =
+  | "create"
+  | "update"
+  | "move"
+  | "delete"
+  | "restore";
+
+export interface FieldChange {
+  field: string;
+  from: unknown; // null when the field was unset
+  to: unknown;
+}
+
+export interface ActivityEntry {
+  id: string;
+  boardId: string | null;
+  taskId: string;
+  taskTitle: string; // as of the change, so deleted tasks stay readable
+  actorId: string;
+  action: ActivityAction;
+  at: string;
+  changes: FieldChange[]; // empty for deletes
+}
+
+export interface ActivityFilters {
+  taskId?: string;
+  actorId?: string;
+  action?: ActivityAction;
+}
+
+// Task comments
+export interface Comment {
+  id: string;
+  taskId: string;
+  boardId: string;
+  parentId: string | null; // the comment this replies to
+  authorId: string;
+  body: string; // markdown, with @mentions
+  createdAt: string;
+  updatedAt: string;
+  editedAt?: string;
+  deletedAt?: string; // cleared but kept so its replies stay in place
+}
+
+export interface CreateCommentInput {
+  taskId: string;
+  body: string;
+  parentId?: string | null;
+}
+
+// Burndown / burnup charts
+export type BurnMetric = "count" | "hours";
+
+export interface BurnChartPoint {
+  date: string; // YYYY-MM-DD
+  scope: number | null; // everything in scope by the end of the day
+  completed: number | null;
+  remaining: number | null; // null for days still to come
+  ideal: number; // remaining work on a straight line to zero
+}
+
+// Flow analytics, all durations in hours
+export interface TaskFlowTimes {
+  taskId: string;
+  leadTimeHours: number | null; // created to done
+  cycleTimeHours: number | null; // started to done
+  timeInColumn: Record<TaskStatus, number>;
+}
+
+export interface AgingWipItem {
+  task: Task;
+  startedAt: string;
+  ageHours: number;
+}
+
+export interface CumulativeFlowPoint {
+  date: string; // YYYY-MM-DD
+  counts: Record<TaskStatus, number>; // tasks in each column at day end
+}
+
+// Velocity and capacity forecasting
+export type VelocityPeriod = "sprint" | "week";
+
+export interface VelocityEntry {
+  label: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  completedCount: number;
+  completedHours: number;
+}
+
+export interface CapacityForecast {
+  capacityHours: number; // team working hours in the iteration, after focus
+  budgetHours: number; // capacity, capped by recent velocity
+  fittingTaskIds: string[]; // top of the backlog that fits the budget
+  fittingHours: number;
+}
+
 export interface Column {
   id: TaskStatus;
   title: string;
@@ -210,20 +576,58 @@ export interface BoardState {
 }
 
 // Offline queue types (for variant Q-Z)
-export interface QueuedAction {
+interface QueuedActionBase {
   id: string;
-  type: "create" | "update" | "delete";
-  payload: any;
   timestamp: number;
   retryCount: number;
   maxRetries: number;
 }
 
+export type QueuedAction =
+  | (QueuedActionBase & {
+      type: "create";
+      // restore re-creates a deleted task with its original ID and fields
+      payload: { tempId: string; input: CreateTaskInput; restore?: Task };
+    })
+  | (QueuedActionBase & {
+      type: "update";
+      // baseUpdatedAt is the task version the change was made against
+      payload: { id: string; changes: UpdateTaskInput; baseUpdatedAt?: string };
+    })
+  | (QueuedActionBase & {
+      type: "delete";
+      payload: { id: string; baseUpdatedAt?: string };
+    });
+
+export type QueuedActionInput =
+  | Pick<Extract<QueuedAction, { type: "create" }>, "type" | "payload">
+  | Pick<Extract<QueuedAction, { type: "update" }>, "type" | "payload">
+  | Pick<Extract<QueuedAction, { type: "delete" }>, "type" | "payload">;
+
+export interface SyncConflict {
+  action: QueuedAction;
+  // null when the task no longer exists on the server, or when it does but
+  // the change was refused (see error)
+  serverTask: Task | null;
+  // set when the server refused the change, e.g. edit access was lost (403)
+  error?: ApiError;
+  detectedAt: number;
+}
+
+export interface OfflineSyncResult {
+  synced: Array<{ action: QueuedAction; task?: Task }>;
+  conflicts: SyncConflict[];
+  failed: QueuedAction[];
+  remaining: QueuedAction[];
+  idMap: Record<string, string>;
+}
+
 export interface OfflineState {
   isOnline: boolean;
   queue: QueuedAction[];
   syncing: boolean;
   lastSyncTime: number | null;
+  conflicts: SyncConflict[];
 }
 
 // Theme types
@@ -255,6 +659,108 @@ export interface ValidationResult {
   errors: ValidationError[];
 }
 
+// Board search query types
+export type QueryValueField =
+  | "priority"
+  | "status"
+  | "type"
+  | "label"
+  | "assignee"
+  | "sprint";
+export type QueryDateField = "due" | "created" | "updated";
+export type QueryOperator = ":" | "<" | ">" | "<=" | ">=";
+
+// A parsed search. Field values are resolved to ids while parsing, so
+// matching a task needs nothing but the task.
+export type QueryNode =
+  | { type: "and" | "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "text"; text: string; phrase: boolean }
+  | { type: "field"; field: QueryValueField; values: string[] } // [] - unset
+  | {
+      type: "date";
+      field: QueryDateField;
+      operator: QueryOperator;
+      date: string | null; // YYYY-MM-DD; null - no date
+    };
+
+// Whether a task contains a free-text search term
+export type QueryTextMatcher = (
+  task: Task,
+  text: string,
+  phrase: boolean
+) => boolean;
+
+export interface QueryError {
+  message: string;
+  start: number; // offsets into the query text
+  end: number;
+}
+
+export interface ParsedQuery {
+  query: QueryNode | null; // null for an empty search, or on error
+  error: QueryError | null;
+}
+
+// What names in a query can refer to
+export interface QueryContext {
+  columns: WorkflowColumn[];
+  labels: Label[];
+  members: User[];
+  sprints: Sprint[];
+  currentUserId?: string;
+  now?: Date;
+}
+
+// Replace text[start, end) with `value` to accept the suggestion
+export interface QuerySuggestion {
+  value: string;
+  description?: string;
+  start: number;
+  end: number;
+}
+
+// Search index types
+export type SearchField =
+  | "title"
+  | "description"
+  | "labels"
+  | "comments"
+  | "enhancedDescription";
+
+// The text of one task, by field
+export type SearchDocument = Partial<Record<SearchField, string>>;
+
+export interface SearchResult {
+  id: string;
+  score: number; // higher is more relevant
+  terms: string[]; // the indexed words that matched, for highlighting
+}
+
+export interface SearchOptions {
+  phrase?: boolean; // whole words, next to each other and in this order
+  limit?: number;
+}
+
+// Command palette types
+// A key combination such as "mod+shift+z"; mod is Ctrl, or Cmd on a Mac
+export type Shortcut = string;
+
+export interface Command {
+  id: string;
+  title: string;
+  group: string; // e.g. "Tasks" or "Panels"
+  keywords?: string[]; // other words to find it by
+  shortcut?: Shortcut; // default binding, which users may change
+  disabled?: boolean; // listed but can't run right now, e.g. nothing focused
+  run: () => void;
+}
+
+export interface FuzzyMatch {
+  score: number; // higher is a closer match
+  indices: number[]; // matched character positions, for highlighting
+}
+
 // Hook return types
 export interface UseTasksReturn {
   tasks: Task[];
@@ -263,10 +769,102 @@ export interface UseTasksReturn {
   createTask: (input: CreateTaskInput) => Promise<void>;
   updateTask: (id: string, input: UpdateTaskInput) => Promise<void>;
   deleteTask: (id: string) => Promise<void>;
-  moveTask: (id: string, status: TaskStatus) => Promise<void>;
-  undoLastAction: () => void;
+  moveTask: (
+    id: string,
+    status: TaskStatus,
+    options?: MoveOptions
+  ) => Promise<void>;
+  batchUpdateTasks: (
+    updates: Array<{ id: string; changes: UpdateTaskInput }>,
+    options?: BatchUpdateOptions
+  ) => Promise<void>;
+  batchDeleteTasks: (ids: string[]) => Promise<void>;
+  reorderTask: (
+    id: string,
+    placement: TaskPlacement,
+    options?: MoveOptions
+  ) => Promise<void>;
+  undoLastAction: () => Promise<void>;
+  redoLastAction: () => Promise<void>;
   canUndo: boolean;
+  canRedo: boolean;
+  nextUndo: UndoableAction | null;
+  nextRedo: UndoableAction | null;
   optimisticUpdates: OptimisticUpdate[];
+  offlineState: OfflineState;
+  syncOfflineQueue: () => Promise<OfflineSyncResult | null>;
+  clearSyncConflicts: () => void;
+  conflict: TaskConflict | null;
+  resolveConflict: (resolution: ConflictResolution) => Promise<void>;
+  dismissConflict: () => void;
+}
+
+export interface UseTasksOptions {
+  boardId?: string | null; // board whose tasks are loaded; none while unset
+  historyLimit?: number; // max undo steps kept, defaults to 50
+  columns?: WorkflowColumn[]; // the board's workflow, for WIP limits
+}
+
+export interface UseBoardsReturn {
+  boards: Board[];
+  activeBoard: Board | null;
+  role: BoardRole | null; // the current user's role on the active board
+  loading: boolean;
+  error: ApiError | null;
+  selectBoard: (id: string) => void;
+  createBoard: (input: CreateBoardInput) => Promise<Board>;
+  updateBoard: (id: string, input: UpdateBoardInput) => Promise<Board>;
+  members: User[]; // profiles of the active board's members
+  columns: WorkflowColumn[]; // the active board's workflow, in order
+  labels: Label[]; // the active board's labels
+}
+
+export interface UseSprintsReturn {
+  sprints: Sprint[];
+  activeSprint: Sprint | null;
+  loading: boolean;
+  error: ApiError | null;
+  createSprint: (input: Omit<CreateSprintInput, "boardId">) => Promise<Sprint>;
+  updateSprint: (id: string, input: UpdateSprintInput) => Promise<Sprint>;
+  startSprint: (id: string, committedTaskIds: string[]) => Promise<Sprint>;
+  completeSprint: (id: string, snapshot: SprintSnapshot) => Promise<Sprint>;
+}
+
+export interface UseSavedViewsReturn {
+  views: SavedView[]; // the user's views of the active board
+  defaultView: SavedView | null; // what the board opens on
+  saveView: (name: string, state: BoardViewState) => SavedView;
+  deleteView: (id: string) => void;
+  setDefaultView: (id: string | null) => void;
+}
+
+export interface UseSearchIndexReturn {
+  search: (text: string, options?: SearchOptions) => SearchResult[];
+  size: number; // tasks indexed
+}
+
+export interface UseCommandSettingsReturn {
+  recentIds: string[]; // most recently run from the palette first
+  overrides: Record<string, Shortcut | null>; // null removes a default
+  recordUse: (id: string) => void;
+  updateShortcuts: (changes: Record<string, Shortcut | null>) => void;
+  resetShortcuts: () => void;
+}
+
+export interface UseActivityReturn {
+  entries: ActivityEntry[];
+  loading: boolean;
+  error: ApiError | null;
+  refresh: () => void;
+}
+
+export interface UseCommentsReturn {
+  comments: Comment[];
+  loading: boolean;
+  error: ApiError | null;
+  createComment: (input: CreateCommentInput) => Promise<Comment>;
+  updateComment: (id: string, body: string) => Promise<Comment>;
+  deleteComment: (id: string) => Promise<void>;
 }
 
 export interface UseAuthReturn {
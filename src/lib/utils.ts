@@ -2,8 +2,38 @@ import {
   Task,
   TaskPriority,
   TaskStatus,
+  TaskField,
+  UpdateTaskInput,
   ValidationResult,
   ValidationError,
+  Board,
+  BoardRole,
+  User,
+  WorkflowColumn,
+  ColumnColor,
+  WipLimitViolation,
+  Sprint,
+  SprintSnapshot,
+  StatusChange,
+  Comment,
+  Label,
+  QueryNode,
+  QueryValueField,
+  QueryDateField,
+  QueryTextMatcher,
+  TaskSortKey,
+  PanelType,
+  BoardView,
+  BoardViewState,
+  TaskProgress,
+  BurnMetric,
+  BurnChartPoint,
+  DeveloperProfile,
+  VelocityEntry,
+  CapacityForecast,
+  TaskFlowTimes,
+  AgingWipItem,
+  CumulativeFlowPoint,
 } from "./types";
 
 // Class name utility (similar to clsx)
@@ -85,37 +115,215 @@ export const priorityConfig = {
   },
 };
 
-// Status colors and labels
-export const statusConfig = {
-  todo: {
-    label: "Todo",
-    color: "gray",
-    icon: "📝",
+// The workflow of boards that haven't customised their columns
+export const DEFAULT_COLUMNS: WorkflowColumn[] = [
+  { id: "todo", name: "To Do", color: "gray", order: 0, countsAsDone: false },
+  {
+    id: "in-progress",
+    name: "In Progress",
+    color: "yellow",
+    order: 1,
+    countsAsDone: false,
+  },
+  { id: "done", name: "Done", color: "green", order: 2, countsAsDone: true },
+];
+
+// Column colour classes (spelled out so Tailwind keeps them)
+export const columnColorConfig: Record<
+  ColumnColor,
+  { swatch: string; badge: string; dropTarget: string; className: string }
+> = {
+  gray: {
+    swatch: "bg-gray-400",
+    badge: "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400",
+    dropTarget: "ring-2 ring-gray-400 bg-gray-50/80 dark:bg-gray-700/20",
     className: "bg-gray-100 dark:bg-gray-800",
   },
-  "in-progress": {
-    label: "In Progress",
-    color: "blue",
-    icon: "🚀",
+  blue: {
+    swatch: "bg-blue-500",
+    badge: "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400",
+    dropTarget: "ring-2 ring-blue-500 bg-blue-50/80 dark:bg-blue-900/20",
     className: "bg-blue-50 dark:bg-blue-900 dark:bg-opacity-20",
   },
-  done: {
-    label: "Done",
-    color: "green",
-    icon: "✅",
+  yellow: {
+    swatch: "bg-yellow-500",
+    badge:
+      "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400",
+    dropTarget: "ring-2 ring-yellow-500 bg-yellow-50/80 dark:bg-yellow-900/20",
+    className: "bg-yellow-50 dark:bg-yellow-900 dark:bg-opacity-20",
+  },
+  orange: {
+    swatch: "bg-orange-500",
+    badge:
+      "bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400",
+    dropTarget: "ring-2 ring-orange-500 bg-orange-50/80 dark:bg-orange-900/20",
+    className: "bg-orange-50 dark:bg-orange-900 dark:bg-opacity-20",
+  },
+  red: {
+    swatch: "bg-red-500",
+    badge: "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400",
+    dropTarget: "ring-2 ring-red-500 bg-red-50/80 dark:bg-red-900/20",
+    className: "bg-red-50 dark:bg-red-900 dark:bg-opacity-20",
+  },
+  purple: {
+    swatch: "bg-purple-500",
+    badge:
+      "bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400",
+    dropTarget: "ring-2 ring-purple-500 bg-purple-50/80 dark:bg-purple-900/20",
+    className: "bg-purple-50 dark:bg-purple-900 dark:bg-opacity-20",
+  },
+  teal: {
+    swatch: "bg-teal-500",
+    badge: "bg-teal-100 dark:bg-teal-900/30 text-teal-600 dark:text-teal-400",
+    dropTarget: "ring-2 ring-teal-500 bg-teal-50/80 dark:bg-teal-900/20",
+    className: "bg-teal-50 dark:bg-teal-900 dark:bg-opacity-20",
+  },
+  green: {
+    swatch: "bg-green-500",
+    badge:
+      "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400",
+    dropTarget: "ring-2 ring-green-500 bg-green-50/80 dark:bg-green-900/20",
     className: "bg-green-50 dark:bg-green-900 dark:bg-opacity-20",
   },
 };
 
+// A board's columns in display order
+export function getBoardColumns(board: Board | null): WorkflowColumn[] {
+  const columns = board?.columns?.length ? board.columns : DEFAULT_COLUMNS;
+  return [...columns].sort((a, b) => a.order - b.order);
+}
+
+// Whether work is under way in this column. Boards that mark no column as
+// started count every column after the first that isn't done.
+export function isStartedStatus(
+  status: TaskStatus,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): boolean {
+  const index = columns.findIndex((column) => column.id === status);
+  if (index === -1 || columns[index].countsAsDone) return false;
+  return columns.some((column) => column.countsAsStarted)
+    ? !!columns[index].countsAsStarted
+    : index > 0;
+}
+
+// Whether tasks in this column count as completed
+export function isDoneStatus(
+  status: TaskStatus,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): boolean {
+  return columns.some((column) => column.id === status && column.countsAsDone);
+}
+
+// Where tasks go when they are completed automatically
+export function getDoneStatus(
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): TaskStatus | null {
+  return columns.find((column) => column.countsAsDone)?.id ?? null;
+}
+
+// Columns that a set of status changes would take over their WIP limit.
+// Only columns gaining tasks are reported, so moving work out of an
+// overfull column is always allowed.
+export function getWipLimitViolations(
+  tasks: Task[],
+  moves: Array<{ id: string; status: TaskStatus }>,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): WipLimitViolation[] {
+  const statusById = new Map(tasks.map((task) => [task.id, task.status]));
+  const gaining = new Set<TaskStatus>();
+
+  moves.forEach(({ id, status }) => {
+    if (statusById.has(id) && statusById.get(id) !== status) {
+      statusById.set(id, status);
+      gaining.add(status);
+    }
+  });
+
+  return columns
+    .filter((column) => gaining.has(column.id) && column.wipLimit)
+    .map((column) => ({
+      column,
+      count: Array.from(statusById.values()).filter(
+        (status) => status === column.id
+      ).length,
+      limit: column.wipLimit as number,
+    }))
+    .filter((violation) => violation.count > violation.limit);
+}
+
+// Violations that can't be overridden
+export function isBlockingWipViolation(violation: WipLimitViolation): boolean {
+  return violation.column.wipLimitMode === "block";
+}
+
+export function describeWipViolations(violations: WipLimitViolation[]) {
+  return violations
+    .map(
+      ({ column, count, limit }) =>
+        `${column.name} would hold ${count} tasks (WIP limit ${limit})`
+    )
+    .join("; ");
+}
+
+const statusIcons: Record<string, string> = {
+  todo: "📝",
+  "in-progress": "🚀",
+  done: "✅",
+};
+
+// Status colors and labels for a workflow
+export function getStatusConfig(columns: WorkflowColumn[] = DEFAULT_COLUMNS) {
+  return columns.reduce((config, column) => {
+    config[column.id] = {
+      label: column.name,
+      color: column.color,
+      icon: statusIcons[column.id] || (column.countsAsDone ? "✅" : "📌"),
+      className: columnColorConfig[column.color].className,
+    };
+    return config;
+  }, {} as Record<TaskStatus, { label: string; color: ColumnColor; icon: string; className: string }>);
+}
+
+// Status colors and labels
+export const statusConfig = getStatusConfig(DEFAULT_COLUMNS);
+
+// Position of a task in its column; tasks never reordered keep creation order
+export function getTaskRank(task: Task): number {
+  return task.rank ?? new Date(task.createdAt).getTime();
+}
+
+// A rank between two neighbours (either may be missing at the ends of a
+// column), or null once floating point has no room left between them
+export function getRankBetween(
+  previous: number | null,
+  next: number | null
+): number | null {
+  if (previous === null && next === null) return 0;
+  if (previous === null) return (next as number) - 1;
+  if (next === null) return previous + 1;
+
+  const rank = (previous + next) / 2;
+  return rank > previous && rank < next ? rank : null;
+}
+
 // Sort tasks
 export function sortTasks(
   tasks: Task[],
-  sortBy: "priority" | "createdAt" | "updatedAt" | "title" = "createdAt",
-  order: "asc" | "desc" = "desc"
+  sortBy: TaskSortKey = "createdAt",
+  order: "asc" | "desc" = "desc",
+  scores: Record<string, number> = {} // search relevance by task id
 ): Task[] {
   const sorted = [...tasks].sort((a, b) => {
     let comparison = 0;
 
+    // Best match first either way; equal matches keep their manual order
+    if (sortBy === "relevance") {
+      return (
+        (scores[b.id] || 0) - (scores[a.id] || 0) ||
+        getTaskRank(a) - getTaskRank(b)
+      );
+    }
+
     switch (sortBy) {
       case "priority":
         const priorityOrder = { high: 3, medium: 2, low: 1 };
@@ -124,6 +332,9 @@ export function sortTasks(
       case "title":
         comparison = a.title.localeCompare(b.title);
         break;
+      case "manual":
+        comparison = getTaskRank(a) - getTaskRank(b);
+        break;
       case "createdAt":
       case "updatedAt":
         comparison =
@@ -144,9 +355,23 @@ export function filterTasks(
     searchQuery?: string;
     priority?: TaskPriority | "all";
     status?: TaskStatus | "all";
+    assigneeId?: string; // only tasks assigned to this user
+    sprintId?: string; // only tasks planned into this sprint
+    labelIds?: string[]; // only tasks carrying these labels
+    labelMatch?: "any" | "all"; // defaults to "any"
+    query?: QueryNode | null; // a parsed board search, see parseQuery
+    matchText?: QueryTextMatcher; // e.g. the board's search index
   }
 ): Task[] {
   return tasks.filter((task) => {
+    // Query filter
+    if (
+      filters.query &&
+      !matchesQuery(task, filters.query, filters.matchText)
+    ) {
+      return false;
+    }
+
     // Search filter
     if (filters.searchQuery) {
       const query = filters.searchQuery.toLowerCase();
@@ -172,20 +397,139 @@ export function filterTasks(
       }
     }
 
+    // Assignee filter
+    if (filters.assigneeId) {
+      if (!task.assigneeIds?.includes(filters.assigneeId)) {
+        return false;
+      }
+    }
+
+    // Sprint filter
+    if (filters.sprintId) {
+      if (task.sprintId !== filters.sprintId) {
+        return false;
+      }
+    }
+
+    // Label filter
+    if (filters.labelIds && filters.labelIds.length > 0) {
+      const taskLabelIds = task.labelIds || [];
+      const matches =
+        filters.labelMatch === "all"
+          ? filters.labelIds.every((id) => taskLabelIds.includes(id))
+          : filters.labelIds.some((id) => taskLabelIds.includes(id));
+
+      if (!matches) {
+        return false;
+      }
+    }
+
     return true;
   });
 }
 
-// Group tasks by status
-export function groupTasksByStatus(tasks: Task[]): Record<TaskStatus, Task[]> {
-  return tasks.reduce((groups, task) => {
-    const status = task.status;
-    if (!groups[status]) {
-      groups[status] = [];
+// The values a query field is compared against; [] when the task has none
+function getQueryFieldValues(task: Task, field: QueryValueField): string[] {
+  switch (field) {
+    case "priority":
+      return [task.priority];
+    case "status":
+      return [task.status];
+    case "type": {
+      const taskType = task.scheduling?.developerContext?.taskType;
+      return taskType ? [taskType] : [];
     }
-    groups[status].push(task);
-    return groups;
+    case "label":
+      return task.labelIds || [];
+    case "assignee":
+      return task.assigneeIds || [];
+    case "sprint":
+      return task.sprintId ? [task.sprintId] : [];
+  }
+}
+
+function getQueryDate(task: Task, field: QueryDateField): string | null {
+  const value =
+    field === "due"
+      ? task.scheduling?.deadline
+      : field === "created"
+      ? task.createdAt
+      : task.updatedAt;
+  if (!value) return null;
+  // Plain dates are already calendar days; timestamps are read locally
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : toDateKey(new Date(value));
+}
+
+const containsText: QueryTextMatcher = (task, text) =>
+  `${task.title}\n${task.description}`
+    .toLowerCase()
+    .includes(text.toLowerCase());
+
+// Whether a task satisfies a parsed board search. Free text is looked for in
+// the title and description unless `matchText` says otherwise.
+export function matchesQuery(
+  task: Task,
+  query: QueryNode,
+  matchText: QueryTextMatcher = containsText
+): boolean {
+  switch (query.type) {
+    case "and":
+      return query.children.every((child) =>
+        matchesQuery(task, child, matchText)
+      );
+    case "or":
+      return query.children.some((child) =>
+        matchesQuery(task, child, matchText)
+      );
+    case "not":
+      return !matchesQuery(task, query.child, matchText);
+    case "text":
+      return matchText(task, query.text, query.phrase);
+    case "field": {
+      const values = getQueryFieldValues(task, query.field);
+      return query.values.length === 0
+        ? values.length === 0
+        : values.some((value) => query.values.includes(value));
+    }
+    case "date": {
+      const date = getQueryDate(task, query.field);
+      if (query.date === null || date === null) return date === query.date;
+      switch (query.operator) {
+        case "<":
+          return date < query.date;
+        case "<=":
+          return date <= query.date;
+        case ">":
+          return date > query.date;
+        case ">=":
+          return date >= query.date;
+        default:
+          return date === query.date;
+      }
+    }
+  }
+}
+
+// Group tasks by status, with an entry for every column. Tasks whose column
+// no longer exists are shown in the first one rather than disappearing.
+export function groupTasksByStatus(
+  tasks: Task[],
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): Record<TaskStatus, Task[]> {
+  const groups = columns.reduce((acc, column) => {
+    acc[column.id] = [];
+    return acc;
   }, {} as Record<TaskStatus, Task[]>);
+
+  return tasks.reduce((acc, task) => {
+    const status =
+      acc[task.status] || columns.length === 0 ? task.status : columns[0].id;
+    if (!acc[status]) {
+      acc[status] = [];
+    }
+    acc[status].push(task);
+    return acc;
+  }, groups);
 }
 
 // Validate task input
@@ -309,10 +653,808 @@ export function arraysEqual<T>(a: T[], b: T[]): boolean {
   return true;
 }
 
+// Structural equality for JSON-like values
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object"
+  ) {
+    return false;
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => deepEqual(item, b[i]))
+    );
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return Array.from(keys).every((key) => deepEqual(aRecord[key], bRecord[key]));
+}
+
+// Three-way merge of a local edit against a concurrently changed task.
+// A field conflicts only when both sides changed it to different values.
+export function mergeTaskChanges(
+  base: Task,
+  local: UpdateTaskInput,
+  remote: Task
+): { mergedChanges: UpdateTaskInput; conflictingFields: TaskField[] } {
+  const mergedChanges: UpdateTaskInput = {};
+  const conflictingFields: TaskField[] = [];
+
+  (Object.keys(local) as TaskField[]).forEach((field) => {
+    const localValue = local[field];
+    if (localValue === undefined || deepEqual(localValue, base[field])) {
+      return; // Not changed here - whatever the other side did stands
+    }
+
+    if (deepEqual(remote[field], localValue)) {
+      return; // Both sides agree - nothing to write
+    }
+
+    if (deepEqual(remote[field], base[field])) {
+      Object.assign(mergedChanges, { [field]: localValue });
+    } else {
+      conflictingFields.push(field);
+    }
+  });
+
+  return { mergedChanges, conflictingFields };
+}
+
+// Board role helpers - mirrors the checks the mock API enforces
+export function getBoardRole(board: Board, userId: string): BoardRole | null {
+  return board.members.find((member) => member.userId === userId)?.role ?? null;
+}
+
+export function canEditTasks(role: BoardRole | null): boolean {
+  return role === "owner" || role === "editor";
+}
+
+// @mention handle for a user - the local part of their email, e.g. @demo
+export function getMentionHandle(user: User): string {
+  return user.email.split("@")[0].toLowerCase();
+}
+
+const MENTION_PATTERN = /@([a-z0-9._-]+)/gi;
+
+// IDs of the users @mentioned in a piece of text, in order of appearance
+export function parseMentions(text: string, users: User[]): string[] {
+  const ids: string[] = [];
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    // A mention can end a sentence: "ping @demo."
+    const handle = match[1].replace(/\.+$/, "").toLowerCase();
+    const user = users.find((u) => getMentionHandle(u) === handle);
+    if (user && !ids.includes(user.id)) {
+      ids.push(user.id);
+    }
+  }
+
+  return ids;
+}
+
+// Direct subtasks of a task, in board order
+export function getSubtasks(taskId: string, tasks: Task[]): Task[] {
+  return sortTasks(
+    tasks.filter((task) => task.parentId === taskId),
+    "manual",
+    "asc"
+  );
+}
+
+// Every task below this one, however deep - none of them can become its parent
+export function getDescendantIds(taskId: string, tasks: Task[]): string[] {
+  const ids: string[] = [];
+  const queue = [taskId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    tasks.forEach((task) => {
+      if (task.parentId === parentId && !ids.includes(task.id)) {
+        ids.push(task.id);
+        queue.push(task.id);
+      }
+    });
+  }
+
+  return ids;
+}
+
+// Done subtasks and ticked checklist items, out of all of them
+export function getTaskProgress(
+  task: Task,
+  tasks: Task[],
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): TaskProgress {
+  const subtasks = getSubtasks(task.id, tasks);
+  const checklist = task.checklist || [];
+
+  return {
+    completed:
+      subtasks.filter((subtask) => isDoneStatus(subtask.status, columns))
+        .length + checklist.filter((item) => item.done).length,
+    total: subtasks.length + checklist.length,
+  };
+}
+
+// An open parent whose subtasks and checklist are all done
+export function isReadyToComplete(
+  task: Task,
+  tasks: Task[],
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): boolean {
+  if (isDoneStatus(task.status, columns)) return false;
+  if (!tasks.some((other) => other.parentId === task.id)) return false;
+
+  const progress = getTaskProgress(task, tasks, columns);
+  return progress.completed === progress.total;
+}
+
+// Comments per task, not counting deleted ones
+export function getCommentCounts(comments: Comment[]): Record<string, number> {
+  return comments.reduce((counts, comment) => {
+    if (!comment.deletedAt) {
+      counts[comment.taskId] = (counts[comment.taskId] || 0) + 1;
+    }
+    return counts;
+  }, {} as Record<string, number>);
+}
+
+// The task's labels in the board's order, skipping ones that were deleted
+export function getTaskLabels(task: Task, labels: Label[]): Label[] {
+  const labelIds = task.labelIds || [];
+  return labels.filter((label) => labelIds.includes(label.id));
+}
+
+// Task updates that carry a new set of board labels over to the tasks:
+// merged labels (source id -> target id) are swapped for their target and
+// labels missing from `labels` are removed
+export function planLabelChanges(
+  tasks: Task[],
+  labels: Label[],
+  merges: Record<string, string> = {}
+): Array<{ id: string; changes: UpdateTaskInput }> {
+  const labelIds = labels.map((label) => label.id);
+
+  return tasks.flatMap((task) => {
+    const current = task.labelIds || [];
+    const next = Array.from(
+      new Set(current.map((id) => merges[id] ?? id))
+    ).filter((id) => labelIds.includes(id));
+
+    const changed =
+      next.length !== current.length ||
+      next.some((id, index) => id !== current[index]);
+    return changed ? [{ id: task.id, changes: { labelIds: next } }] : [];
+  });
+}
+
+// What the board page shows before any view is applied
+export const DEFAULT_VIEW_STATE: BoardViewState = {
+  searchQuery: "",
+  priorityFilter: "all",
+  assigneeFilter: "all",
+  labelFilter: [],
+  labelMatch: "any",
+  boardView: "sprint",
+  sortBy: "manual",
+  sortOrder: "asc",
+  activePanel: "scheduler",
+};
+
+const VIEW_PANELS: PanelType[] = [
+  "scheduler",
+  "productivity",
+  "velocity",
+  "activity",
+  "review",
+  "testing",
+  "refactor",
+  "dependencies",
+  "insights",
+  "settings",
+];
+
+// URL query string for a view, e.g. "board=1&q=label%3Abug&sort=priority".
+// Settings left at their defaults are omitted to keep links short.
+export function encodeViewState(
+  state: BoardViewState,
+  boardId?: string | null
+): string {
+  const params = new URLSearchParams();
+  const d = DEFAULT_VIEW_STATE;
+
+  if (boardId) params.set("board", boardId);
+  if (state.searchQuery) params.set("q", state.searchQuery);
+  if (state.priorityFilter !== d.priorityFilter)
+    params.set("priority", state.priorityFilter);
+  if (state.assigneeFilter !== d.assigneeFilter)
+    params.set("assignee", state.assigneeFilter);
+  if (state.labelFilter.length > 0)
+    params.set("labels", state.labelFilter.join(","));
+  if (state.labelMatch !== d.labelMatch) params.set("match", state.labelMatch);
+  if (state.boardView !== d.boardView) params.set("view", state.boardView);
+  if (state.sortBy !== d.sortBy) params.set("sort", state.sortBy);
+  if (state.sortOrder !== d.sortOrder) params.set("order", state.sortOrder);
+  if (state.activePanel !== d.activePanel)
+    params.set("panel", state.activePanel);
+
+  return params.toString();
+}
+
+// The view in a URL query string, or null when it doesn't describe one.
+// Unknown values fall back to the defaults rather than failing the link.
+export function decodeViewState(
+  search: string
+): { boardId: string | null; state: BoardViewState } | null {
+  const params = new URLSearchParams(search);
+  const keys = [
+    "board",
+    "q",
+    "priority",
+    "assignee",
+    "labels",
+    "match",
+    "view",
+    "sort",
+    "order",
+    "panel",
+  ];
+  if (!keys.some((key) => params.has(key))) return null;
+
+  const pick = <T extends string>(key: string, allowed: T[], fallback: T) => {
+    const value = params.get(key) as T | null;
+    return value && allowed.includes(value) ? value : fallback;
+  };
+  const d = DEFAULT_VIEW_STATE;
+  const sortBy = pick<TaskSortKey>(
+    "sort",
+    ["manual", "priority", "createdAt", "updatedAt", "title", "relevance"],
+    d.sortBy
+  );
+
+  return {
+    boardId: params.get("board") || null,
+    state: {
+      searchQuery: params.get("q") ?? d.searchQuery,
+      priorityFilter: pick<TaskPriority | "all">(
+        "priority",
+        ["all", "low", "medium", "high"],
+        d.priorityFilter
+      ),
+      assigneeFilter: pick<"all" | "me">(
+        "assignee",
+        ["all", "me"],
+        d.assigneeFilter
+      ),
+      labelFilter: (params.get("labels") || "").split(",").filter(Boolean),
+      labelMatch: pick<"any" | "all">("match", ["any", "all"], d.labelMatch),
+      boardView: pick<BoardView>(
+        "view",
+        ["sprint", "all", "backlog"],
+        d.boardView
+      ),
+      sortBy,
+      // Manual order only runs one way, the way cards are dragged
+      sortOrder:
+        sortBy === "manual"
+          ? "asc"
+          : pick<"asc" | "desc">("order", ["asc", "desc"], d.sortOrder),
+      activePanel: pick<PanelType>("panel", VIEW_PANELS, d.activePanel),
+    },
+  };
+}
+
+// Close-out of a sprint: what it delivered, and the unfinished tasks to move
+// into `rolloverTo` (the next sprint, or null for the backlog)
+export function planSprintCompletion(
+  sprint: Sprint,
+  tasks: Task[],
+  columns: WorkflowColumn[],
+  rolloverTo: string | null
+): {
+  snapshot: SprintSnapshot;
+  rollover: Array<{ id: string; changes: UpdateTaskInput }>;
+} {
+  const sprintTasks = tasks.filter((task) => task.sprintId === sprint.id);
+  const unfinished = sprintTasks.filter(
+    (task) => !isDoneStatus(task.status, columns)
+  );
+
+  return {
+    snapshot: {
+      completedAt: new Date().toISOString(),
+      committedTaskIds: sprint.committedTaskIds,
+      completedTaskIds: sprintTasks
+        .filter((task) => isDoneStatus(task.status, columns))
+        .map((task) => task.id),
+      rolledOverTaskIds: unfinished.map((task) => task.id),
+      rolledOverTo: rolloverTo,
+    },
+    rollover: unfinished.map((task) => ({
+      id: task.id,
+      changes: { sprintId: rolloverTo },
+    })),
+  };
+}
+
+// Whole days left until a sprint's end date, never negative
+export function getSprintDaysLeft(sprint: Sprint, now = new Date()): number {
+  const end = new Date(`${sprint.endDate}T23:59:59`);
+  return Math.max(0, Math.ceil((end.getTime() - now.getTime()) / 86400000));
+}
+
+// The columns a task has been through. Tasks from before history was kept get
+// a best guess: created where they are now, or - when done - created in the
+// first column and finished at their last update.
+export function getStatusHistory(
+  task: Task,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): StatusChange[] {
+  if (task.statusHistory && task.statusHistory.length > 0) {
+    return task.statusHistory;
+  }
+
+  const first = columns[0];
+  if (
+    isDoneStatus(task.status, columns) &&
+    first &&
+    !isDoneStatus(first.id, columns)
+  ) {
+    return [
+      { status: first.id, at: task.createdAt },
+      { status: task.status, at: task.updatedAt },
+    ];
+  }
+  return [{ status: task.status, at: task.createdAt }];
+}
+
+// Column a task was in at `time`, or null if it didn't exist yet
+export function getStatusAt(
+  task: Task,
+  time: Date,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): TaskStatus | null {
+  let status: TaskStatus | null = null;
+  for (const change of getStatusHistory(task, columns)) {
+    if (new Date(change.at).getTime() > time.getTime()) break;
+    status = change.status;
+  }
+  return status;
+}
+
+// Estimated effort in hours: the AI estimate, then the scheduled duration,
+// then the one hour the scheduler assumes
+export function getTaskEffortHours(task: Task): number {
+  if (task.aiData?.estimatedHours) return task.aiData.estimatedHours;
+  return (task.scheduling?.estimatedDuration || 60) / 60;
+}
+
+// Tasks a sprint is measured against: what it holds now, what it committed
+// to, and what it closed with or rolled over
+export function getSprintScope(sprint: Sprint, tasks: Task[]): Task[] {
+  const ids = new Set([
+    ...sprint.committedTaskIds,
+    ...(sprint.snapshot?.completedTaskIds ?? []),
+    ...(sprint.snapshot?.rolledOverTaskIds ?? []),
+  ]);
+  return tasks.filter(
+    (task) => task.sprintId === sprint.id || ids.has(task.id)
+  );
+}
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(date.getDate()).padStart(2, "0")}`;
+
+const MAX_CHART_DAYS = 366;
+
+// Each calendar day between two dates, inclusive
+function getChartDays(range: { startDate: string; endDate: string }): Date[] {
+  const days: Date[] = [];
+  const last = new Date(`${range.endDate}T00:00:00`);
+  for (
+    let day = new Date(`${range.startDate}T00:00:00`);
+    day <= last && days.length < MAX_CHART_DAYS;
+    day.setDate(day.getDate() + 1)
+  ) {
+    days.push(new Date(day));
+  }
+  return days;
+}
+
+const endOfDay = (day: Date) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59, 59, 999);
+
+// Day-by-day scope and completed work between two dates (inclusive), read
+// from each task's status history. Days after `now` have no values yet. The
+// ideal line runs down to zero on the last day, starting from the committed
+// tasks when given and from the first day's remaining work otherwise.
+export function buildBurnChart(
+  tasks: Task[],
+  columns: WorkflowColumn[],
+  range: { startDate: string; endDate: string },
+  {
+    metric = "count",
+    committedTaskIds,
+    now = new Date(),
+  }: {
+    metric?: BurnMetric;
+    committedTaskIds?: string[];
+    now?: Date;
+  } = {}
+): BurnChartPoint[] {
+  const weight = (task: Task) =>
+    metric === "hours" ? getTaskEffortHours(task) : 1;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  const days = getChartDays(range);
+
+  const measure = (time: Date) =>
+    tasks.reduce(
+      (totals, task) => {
+        const status = getStatusAt(task, time, columns);
+        if (status === null) return totals;
+        totals.scope += weight(task);
+        if (isDoneStatus(status, columns)) totals.completed += weight(task);
+        return totals;
+      },
+      { scope: 0, completed: 0 }
+    );
+
+  const initial = days.length > 0 ? measure(endOfDay(days[0])) : null;
+  const initialRemaining =
+    committedTaskIds && committedTaskIds.length > 0
+      ? tasks
+          .filter((task) => committedTaskIds.includes(task.id))
+          .reduce((sum, task) => sum + weight(task), 0)
+      : initial
+      ? initial.scope - initial.completed
+      : 0;
+
+  return days.map((day, index) => {
+    const ideal = round(
+      days.length > 1 ? initialRemaining * (1 - index / (days.length - 1)) : 0
+    );
+
+    if (day > now) {
+      return {
+        date: toDateKey(day),
+        scope: null,
+        completed: null,
+        remaining: null,
+        ideal,
+      };
+    }
+
+    const end = endOfDay(day);
+    const { scope, completed } = measure(end > now ? now : end);
+    return {
+      date: toDateKey(day),
+      scope: round(scope),
+      completed: round(completed),
+      remaining: round(scope - completed),
+      ideal,
+    };
+  });
+}
+
+// When a done task was finished: the last time it entered a done column
+export function getCompletedAt(
+  task: Task,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): string | null {
+  if (!isDoneStatus(task.status, columns)) return null;
+
+  const history = getStatusHistory(task, columns);
+  for (let index = history.length - 1; index >= 0; index--) {
+    const wasDone =
+      index > 0 && isDoneStatus(history[index - 1].status, columns);
+    if (isDoneStatus(history[index].status, columns) && !wasDone) {
+      return history[index].at;
+    }
+  }
+  return null;
+}
+
+// Open tasks not planned into a current sprint, most important first and in
+// board order within a priority
+export function getBacklogTasks(
+  tasks: Task[],
+  sprints: Sprint[],
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): Task[] {
+  const openSprintIds = new Set(
+    sprints
+      .filter((sprint) => sprint.state !== "completed")
+      .map((sprint) => sprint.id)
+  );
+  const backlog = tasks.filter(
+    (task) =>
+      !(task.sprintId && openSprintIds.has(task.sprintId)) &&
+      !isDoneStatus(task.status, columns)
+  );
+  return sortTasks(sortTasks(backlog, "manual", "asc"), "priority", "desc");
+}
+
+const sumEffort = (tasks: Task[]) =>
+  Math.round(
+    tasks.reduce((sum, task) => sum + getTaskEffortHours(task), 0) * 10
+  ) / 10;
+
+// What each completed sprint delivered, oldest first
+export function calculateSprintVelocity(
+  sprints: Sprint[],
+  tasks: Task[]
+): VelocityEntry[] {
+  return sprints
+    .filter((sprint) => sprint.state === "completed" && sprint.snapshot)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .map((sprint) => {
+      const completedIds = sprint.snapshot?.completedTaskIds ?? [];
+      const completed = tasks.filter((task) => completedIds.includes(task.id));
+      return {
+        label: sprint.name,
+        startDate: sprint.startDate,
+        endDate: sprint.endDate,
+        // Deleted tasks still count, without an estimate
+        completedCount: completedIds.length,
+        completedHours: sumEffort(completed),
+      };
+    });
+}
+
+// What was finished in each of the last `weeks` full weeks (Monday to
+// Sunday), oldest first
+export function calculateWeeklyVelocity(
+  tasks: Task[],
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS,
+  weeks = 8,
+  now = new Date()
+): VelocityEntry[] {
+  const thisMonday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  thisMonday.setDate(thisMonday.getDate() - ((thisMonday.getDay() + 6) % 7));
+
+  const finished = tasks
+    .map((task) => ({ task, completedAt: getCompletedAt(task, columns) }))
+    .filter(
+      (entry): entry is { task: Task; completedAt: string } =>
+        entry.completedAt !== null
+    );
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const start = new Date(thisMonday);
+    start.setDate(start.getDate() - 7 * (weeks - index));
+    const end = new Date(start);
+    end.setDate(end.getDate() + 7);
+
+    const completed = finished
+      .filter(({ completedAt }) => {
+        const time = new Date(completedAt).getTime();
+        return time >= start.getTime() && time < end.getTime();
+      })
+      .map(({ task }) => task);
+
+    const lastDay = new Date(end);
+    lastDay.setDate(lastDay.getDate() - 1);
+    return {
+      label: `${start.getMonth() + 1}/${start.getDate()}`,
+      startDate: toDateKey(start),
+      endDate: toDateKey(lastDay),
+      completedCount: completed.length,
+      completedHours: sumEffort(completed),
+    };
+  });
+}
+
+// Trailing average over up to `window` values, one per value
+export function getRollingAverage(values: number[], window = 3): number[] {
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+    return (
+      Math.round((slice.reduce((sum, v) => sum + v, 0) / slice.length) * 10) /
+      10
+    );
+  });
+}
+
+// Monday to Friday between two dates, inclusive
+export function getWorkingDays(startDate: string, endDate: string): number {
+  let count = 0;
+  const last = new Date(`${endDate}T00:00:00`);
+  for (
+    let day = new Date(`${startDate}T00:00:00`);
+    day <= last;
+    day.setDate(day.getDate() + 1)
+  ) {
+    if (day.getDay() !== 0 && day.getDay() !== 6) count++;
+  }
+  return count;
+}
+
+// Hours in a developer's working day, e.g. 8 for 09:00-17:00
+export function getDailyCapacityHours(
+  workingHours: DeveloperProfile["workingHours"]
+): number {
+  const toHours = (time: string) => {
+    const [hours, minutes = "0"] = time.split(":");
+    return parseInt(hours, 10) + parseInt(minutes, 10) / 60;
+  };
+  const hours = toHours(workingHours.end) - toHours(workingHours.start);
+  return Number.isFinite(hours) && hours > 0 ? hours : 0;
+}
+
+// How much of the backlog the next iteration will likely take: the team's
+// focused working hours, capped by what recent iterations actually finished,
+// filled with backlog tasks from the top until the next one doesn't fit
+export function forecastCapacity(
+  backlog: Task[],
+  {
+    workingHours,
+    workingDays,
+    focusFactor = 0.7,
+    velocityHours,
+  }: {
+    workingHours: DeveloperProfile["workingHours"][]; // one per team member
+    workingDays: number;
+    focusFactor?: number; // share of the day left for task work
+    velocityHours?: number; // recent average, when there is history
+  }
+): CapacityForecast {
+  const capacityHours =
+    Math.round(
+      workingHours.reduce(
+        (sum, hours) => sum + getDailyCapacityHours(hours),
+        0
+      ) *
+        workingDays *
+        focusFactor *
+        10
+    ) / 10;
+  const budgetHours =
+    velocityHours && velocityHours > 0
+      ? Math.min(capacityHours, velocityHours)
+      : capacityHours;
+
+  const fittingTaskIds: string[] = [];
+  let fittingHours = 0;
+  for (const task of backlog) {
+    const effort = getTaskEffortHours(task);
+    if (fittingHours + effort > budgetHours) break;
+    fittingHours += effort;
+    fittingTaskIds.push(task.id);
+  }
+
+  return {
+    capacityHours,
+    budgetHours,
+    fittingTaskIds,
+    fittingHours: Math.round(fittingHours * 10) / 10,
+  };
+}
+
+// When work on a task started: the first time it reached a started column
+export function getStartedAt(
+  task: Task,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+): string | null {
+  const change = getStatusHistory(task, columns).find((entry) =>
+    isStartedStatus(entry.status, columns)
+  );
+  return change ? change.at : null;
+}
+
+const hoursBetween = (from: string, to: string | Date) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / (60 * 60 * 1000);
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+// Lead time, cycle time and the hours spent in each column so far. Tasks that
+// skipped every started column have no cycle time.
+export function getFlowTimes(
+  task: Task,
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS,
+  now = new Date()
+): TaskFlowTimes {
+  const history = getStatusHistory(task, columns);
+  const completedAt = getCompletedAt(task, columns);
+  const startedAt = getStartedAt(task, columns);
+
+  const timeInColumn = history.reduce((acc, change, index) => {
+    const until = history[index + 1]?.at ?? now;
+    acc[change.status] = roundHours(
+      (acc[change.status] || 0) + Math.max(0, hoursBetween(change.at, until))
+    );
+    return acc;
+  }, {} as Record<TaskStatus, number>);
+
+  return {
+    taskId: task.id,
+    leadTimeHours: completedAt
+      ? roundHours(Math.max(0, hoursBetween(task.createdAt, completedAt)))
+      : null,
+    cycleTimeHours:
+      completedAt && startedAt && hoursBetween(startedAt, completedAt) >= 0
+        ? roundHours(hoursBetween(startedAt, completedAt))
+        : null,
+    timeInColumn,
+  };
+}
+
+// Value below which `percentile` (0-100) of the values fall
+export function getPercentile(values: number[], percentile: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.ceil((percentile / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, index))];
+}
+
+// Unfinished work that has started, oldest first
+export function getAgingWip(
+  tasks: Task[],
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS,
+  now = new Date()
+): AgingWipItem[] {
+  return tasks
+    .filter((task) => isStartedStatus(task.status, columns))
+    .map((task) => {
+      const startedAt = getStartedAt(task, columns) ?? task.createdAt;
+      return {
+        task,
+        startedAt,
+        ageHours: roundHours(Math.max(0, hoursBetween(startedAt, now))),
+      };
+    })
+    .sort((a, b) => b.ageHours - a.ageHours);
+}
+
+// Tasks in each column at the end of every day in the range, up to today
+export function buildCumulativeFlow(
+  tasks: Task[],
+  columns: WorkflowColumn[],
+  range: { startDate: string; endDate: string },
+  now = new Date()
+): CumulativeFlowPoint[] {
+  return getChartDays(range)
+    .filter((day) => day <= now)
+    .map((day) => {
+      const end = endOfDay(day);
+      const time = end > now ? now : end;
+      const counts = columns.reduce((acc, column) => {
+        acc[column.id] = 0;
+        return acc;
+      }, {} as Record<TaskStatus, number>);
+
+      tasks.forEach((task) => {
+        const status = getStatusAt(task, time, columns);
+        if (status !== null && status in counts) counts[status]++;
+      });
+      return { date: toDateKey(day), counts };
+    });
+}
+
 // Calculate task statistics
-export function calculateTaskStats(tasks: Task[]) {
+export function calculateTaskStats(
+  tasks: Task[],
+  columns: WorkflowColumn[] = DEFAULT_COLUMNS
+) {
   const total = tasks.length;
-  const byStatus = groupTasksByStatus(tasks);
+  const byStatus = groupTasksByStatus(tasks, columns);
+  const doneCount = tasks.filter((task) =>
+    isDoneStatus(task.status, columns)
+  ).length;
   const byPriority = tasks.reduce((acc, task) => {
     acc[task.priority] = (acc[task.priority] || 0) + 1;
     return acc;
@@ -322,14 +1464,11 @@ export function calculateTaskStats(tasks: Task[]) {
     total,
     todo: byStatus.todo?.length || 0,
     inProgress: byStatus["in-progress"]?.length || 0,
-    done: byStatus.done?.length || 0,
+    done: doneCount,
     highPriority: byPriority.high || 0,
     mediumPriority: byPriority.medium || 0,
     lowPriority: byPriority.low || 0,
-    completionRate:
-      total > 0
-        ? (((byStatus.done?.length || 0) / total) * 100).toFixed(1)
-        : "0",
+    completionRate: total > 0 ? ((doneCount / total) * 100).toFixed(1) : "0",
   };
 }
 
@@ -340,7 +1479,37 @@ export default {
   formatRelativeTime,
   priorityConfig,
   statusConfig,
+  getStatusConfig,
+  getBoardColumns,
+  isDoneStatus,
+  isStartedStatus,
+  getDoneStatus,
+  getWipLimitViolations,
+  isBlockingWipViolation,
+  describeWipViolations,
   sortTasks,
+  getTaskRank,
+  getRankBetween,
+  planSprintCompletion,
+  getSprintDaysLeft,
+  getStatusHistory,
+  getStatusAt,
+  getTaskEffortHours,
+  getSprintScope,
+  buildBurnChart,
+  getCompletedAt,
+  getStartedAt,
+  getFlowTimes,
+  getPercentile,
+  getAgingWip,
+  buildCumulativeFlow,
+  getBacklogTasks,
+  calculateSprintVelocity,
+  calculateWeeklyVelocity,
+  getRollingAverage,
+  getWorkingDays,
+  getDailyCapacityHours,
+  forecastCapacity,
   filterTasks,
   groupTasksByStatus,
   validateTaskInput,
@@ -349,5 +1518,22 @@ export default {
   throttle,
   deepClone,
   arraysEqual,
+  deepEqual,
+  mergeTaskChanges,
+  getBoardRole,
+  canEditTasks,
+  getMentionHandle,
+  parseMentions,
+  getSubtasks,
+  getDescendantIds,
+  getTaskProgress,
+  isReadyToComplete,
+  getCommentCounts,
+  getTaskLabels,
+  planLabelChanges,
+  encodeViewState,
+  decodeViewState,
+  matchesQuery,
+  toDateKey,
   calculateTaskStats,
 };
@@ -2,7 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { authApi } from "@/lib/api";
+import { authApi, onSessionExpired } from "@/lib/api";
 import { User, LoginCredentials, RegisterCredentials } from "@/lib/types";
 
 interface AuthContextType {
@@ -18,6 +18,11 @@ interface AuthContextType {
   logout: () => void;
 }
 
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Wait before retrying a refresh that failed for a non-auth reason (offline)
+const REFRESH_RETRY_MS = 30 * 1000;
+
 const AuthContext = createContext<AuthContextType>({
   isAuthenticated: false,
   user: null,
@@ -31,32 +36,68 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
   const router = useRouter();
 
   useEffect(() => {
-    const token = localStorage.getItem("authToken");
-    const userStr = localStorage.getItem("user");
+    const session = authApi.getSession();
 
-    if (token && userStr) {
-      try {
-        const userData = JSON.parse(userStr);
-        setUser(userData);
-        setIsAuthenticated(true);
-      } catch (error) {
-        // Invalid user data, clear storage
-        localStorage.removeItem("authToken");
-        localStorage.removeItem("user");
-      }
+    if (session) {
+      setUser(session.user);
+      setExpiresAt(session.expiresAt);
+      setIsAuthenticated(true);
+    } else {
+      // Sessions from before token expiry was tracked can't be refreshed
+      authApi.logout();
     }
     setLoading(false);
   }, []);
 
+  // The server rejected the session (refresh token expired or revoked)
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        setIsAuthenticated(false);
+        setUser(null);
+        setExpiresAt(null);
+        router.push("/login");
+      }),
+    [router]
+  );
+
+  // Rotate the tokens shortly before the access token expires
+  useEffect(() => {
+    if (!isAuthenticated || !expiresAt) return undefined;
+
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const scheduleRefresh = (delayMs: number) => {
+      timeoutId = setTimeout(async () => {
+        const result = await authApi.refreshToken();
+        if (result.success && result.data) {
+          setUser(result.data.user);
+          setExpiresAt(result.data.expiresAt);
+        } else if (result.error?.status !== 401) {
+          scheduleRefresh(REFRESH_RETRY_MS);
+        }
+      }, delayMs);
+    };
+
+    scheduleRefresh(
+      Math.max(
+        0,
+        new Date(expiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS
+      )
+    );
+    return () => clearTimeout(timeoutId);
+  }, [isAuthenticated, expiresAt]);
+
   const login = async (credentials: LoginCredentials) => {
     setLoading(true);
     try {
       const result = await authApi.login(credentials);
       if (result.success && result.data) {
         setUser(result.data.user);
+        setExpiresAt(result.data.expiresAt);
         setIsAuthenticated(true);
         router.push("/board");
         return { success: true };
@@ -82,6 +123,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const result = await authApi.register(credentials);
       if (result.success && result.data) {
         setUser(result.data.user);
+        setExpiresAt(result.data.expiresAt);
         setIsAuthenticated(true);
         router.push("/board");
         return { success: true };
@@ -102,10 +144,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const logout = () => {
-    localStorage.removeItem("authToken");
-    localStorage.removeItem("user");
+    authApi.logout();
     setIsAuthenticated(false);
     setUser(null);
+    setExpiresAt(null);
     router.push("/login");
   };
 